@@ -0,0 +1,289 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Account Transfer — passphrase-encrypted export / import of the account vault.
+ *
+ * Moves accounts to another machine without signing in to each one again.
+ * The bundle is a local file; nothing is uploaded (SPEC §2, no cloud sync).
+ *
+ * File format (JSON):
+ *   { format: 'macide-accounts', version: 1,
+ *     kdf:    { name: 'scrypt', salt, N, r, p },
+ *     cipher: { name: 'aes-256-gcm', iv, tag },
+ *     data:   base64 ciphertext of AccountBundle }
+ *
+ * The bundle holds each account's token, alias and metadata in display order,
+ * plus the priority order. Usage counters, cooldowns and entitlement results
+ * are machine-local and left out. Import matches accounts by host + githubId.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import type { MacideAccount } from '../auth/provider';
+import type { AccountManager } from './manager';
+import type { MacideConfig } from '../config/macideConfig';
+import { accountHost } from '../auth/githubHost';
+import { USAGE_FIELDS } from '../auth/vault';
+
+const FORMAT       = 'macide-accounts';
+const VERSION      = 1;
+const FILE_EXT     = 'macide-accounts';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+/** scrypt needs 128·N·r bytes; Node's default cap is exactly that, so allow headroom. */
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const IV_LENGTH     = 12;
+const TAG_LENGTH    = 16;
+
+/** Machine-local state that is not carried across. */
+const LOCAL_FIELDS = [...USAGE_FIELDS, 'cooldownUntil', 'copilot'] as const;
+
+export type ExportedAccount = Omit<MacideAccount, typeof LOCAL_FIELDS[number]>;
+
+export interface AccountBundle {
+	/** ISO timestamp. */
+	exportedAt:    string;
+	/** In display order. */
+	accounts:      ExportedAccount[];
+	/** Account ids (as exported) for the 'priority' strategy. */
+	priorityOrder: string[];
+}
+
+interface BundleFile {
+	format:  typeof FORMAT;
+	version: number;
+	kdf:     { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+	cipher:  { name: 'aes-256-gcm'; iv: string; tag: string };
+	data:    string;
+}
+
+/** Thrown for a wrong passphrase or a file that is not an account bundle. */
+export class AccountBundleError extends Error {}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		crypto.scrypt(passphrase, salt, 32, { ...params, maxmem: SCRYPT_MAXMEM }, (err, key) => (err ? reject(err) : resolve(key)));
+	});
+}
+
+export async function sealBundle(bundle: AccountBundle, passphrase: string): Promise<string> {
+	const salt = crypto.randomBytes(16);
+	const iv   = crypto.randomBytes(IV_LENGTH);
+	const key  = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+
+	const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+	const data = Buffer.concat([cipher.update(JSON.stringify(bundle), 'utf-8'), cipher.final()]);
+
+	const file: BundleFile = {
+		format:  FORMAT,
+		version: VERSION,
+		kdf:     { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS },
+		cipher:  { name: 'aes-256-gcm', iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') },
+		data:    data.toString('base64')
+	};
+	return JSON.stringify(file, null, 2);
+}
+
+export async function openBundle(text: string, passphrase: string): Promise<AccountBundle> {
+	let file: BundleFile;
+	try {
+		file = JSON.parse(text) as BundleFile;
+	} catch {
+		throw new AccountBundleError('Not a Macide account export.');
+	}
+	if (file?.format !== FORMAT || !file.kdf || !file.cipher) {
+		throw new AccountBundleError('Not a Macide account export.');
+	}
+	if (file.version > VERSION) {
+		throw new AccountBundleError('This export was made by a newer version of Macide.');
+	}
+
+	// Only what sealBundle writes is accepted: the file must not choose the
+	// scrypt cost, and a short GCM tag would weaken the integrity check
+	const { kdf, cipher } = file;
+	const iv  = Buffer.from(String(cipher.iv), 'base64');
+	const tag = Buffer.from(String(cipher.tag), 'base64');
+	if (kdf.name !== 'scrypt' || kdf.N !== SCRYPT_PARAMS.N || kdf.r !== SCRYPT_PARAMS.r || kdf.p !== SCRYPT_PARAMS.p
+		|| cipher.name !== 'aes-256-gcm' || iv.length !== IV_LENGTH || tag.length !== TAG_LENGTH
+		|| typeof kdf.salt !== 'string' || typeof file.data !== 'string') {
+		throw new AccountBundleError('Unsupported encryption settings, or the file is damaged.');
+	}
+
+	try {
+		const key = await deriveKey(passphrase, Buffer.from(kdf.salt, 'base64'), SCRYPT_PARAMS);
+		const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv, { authTagLength: TAG_LENGTH });
+		decipher.setAuthTag(tag);
+		const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+		return JSON.parse(plain.toString('utf-8')) as AccountBundle;
+	} catch {
+		throw new AccountBundleError('Wrong passphrase, or the file is damaged.');
+	}
+}
+
+export function exportableAccount(account: MacideAccount): ExportedAccount {
+	const exported: Partial<MacideAccount> = { ...account };
+	for (const field of LOCAL_FIELDS) delete exported[field];
+	return exported as ExportedAccount;
+}
+
+function identity(account: Pick<MacideAccount, 'githubId' | 'host'>): string {
+	return `${accountHost(account)}#${account.githubId}`;
+}
+
+export interface ImportPlan {
+	/** Accounts not on this machine yet. */
+	added:     ExportedAccount[];
+	/** Same GitHub user on the same host, already here. */
+	conflicts: { existing: MacideAccount; incoming: ExportedAccount }[];
+}
+
+export function planImport(existing: MacideAccount[], incoming: ExportedAccount[]): ImportPlan {
+	const plan: ImportPlan = { added: [], conflicts: [] };
+	for (const account of incoming) {
+		const match = existing.find(e => identity(e) === identity(account));
+		if (match) plan.conflicts.push({ existing: match, incoming: account });
+		else if (!plan.added.some(a => identity(a) === identity(account))) plan.added.push(account);
+	}
+	return plan;
+}
+
+export class AccountTransfer {
+	constructor(
+		private readonly _accounts: AccountManager,
+		private readonly _config: MacideConfig
+	) {}
+
+	async exportAccounts(): Promise<void> {
+		const accounts = this._accounts.getAll();
+		if (!accounts.length) {
+			vscode.window.showInformationMessage('Macide: No accounts to export.');
+			return;
+		}
+
+		const passphrase = await this._askPassphrase('Passphrase to encrypt the export with', true);
+		if (passphrase === undefined) return;
+
+		const stamp = new Date().toISOString().slice(0, 10);
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(`macide-accounts-${stamp}.${FILE_EXT}`),
+			filters: { 'Macide account export': [FILE_EXT] }
+		});
+		if (!target) return;
+
+		const bundle: AccountBundle = {
+			exportedAt:    new Date().toISOString(),
+			accounts:      accounts.map(exportableAccount),
+			priorityOrder: this._config.get('accounts').priorityOrder
+		};
+		const sealed = await sealBundle(bundle, passphrase);
+		await vscode.workspace.fs.writeFile(target, Buffer.from(sealed, 'utf-8'));
+		vscode.window.showInformationMessage(
+			`Macide: Exported ${accounts.length} account${accounts.length !== 1 ? 's' : ''} to ${target.fsPath}. ` +
+			'The file contains your GitHub tokens — keep it and its passphrase private.'
+		);
+	}
+
+	async importAccounts(): Promise<void> {
+		const [source] = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			filters: { 'Macide account export': [FILE_EXT], 'All files': ['*'] }
+		}) ?? [];
+		if (!source) return;
+
+		const passphrase = await this._askPassphrase('Passphrase the export was encrypted with', false);
+		if (passphrase === undefined) return;
+
+		let bundle: AccountBundle;
+		try {
+			const text = Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf-8');
+			bundle = await openBundle(text, passphrase);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : String(err);
+			vscode.window.showErrorMessage(`Macide: Import failed — ${msg}`);
+			return;
+		}
+
+		const plan = planImport(this._accounts.getAll(), bundle.accounts ?? []);
+		let replace = false;
+		if (plan.conflicts.length) {
+			const names = plan.conflicts.map(c => `@${c.incoming.githubUsername}`).join(', ');
+			const choice = await vscode.window.showWarningMessage(
+				`${names} ${plan.conflicts.length === 1 ? 'is' : 'are'} already in Macide. Use the imported token and alias, or keep the current ones?`,
+				{ modal: true },
+				'Use Imported', 'Keep Current'
+			);
+			if (!choice) return;
+			replace = choice === 'Use Imported';
+		}
+
+		// Exported id → local id, to carry the priority order across
+		const idMap = new Map<string, string>();
+		const now = new Date().toISOString();
+		const taken = new Set(this._accounts.getAll().map(a => a.id));
+
+		for (const incoming of plan.added) {
+			const id = taken.has(incoming.id) ? crypto.randomUUID() : incoming.id;
+			taken.add(id);
+			idMap.set(incoming.id, id);
+			await this._accounts.addAccount({
+				...incoming,
+				id,
+				// The token validator re-checks it; revoked / invalid tokens stay flagged
+				status:           incoming.status === 'revoked' || incoming.status === 'invalid' ? incoming.status : 'idle',
+				requestCount:     0,
+				requestCountDate: now.slice(0, 10),
+				lastUsedAt:       now
+			});
+		}
+		for (const { existing, incoming } of plan.conflicts) {
+			idMap.set(incoming.id, existing.id);
+			if (!replace) continue;
+			await this._accounts.updateAccount({
+				...existing,
+				alias:          incoming.alias,
+				token:          incoming.token,
+				refreshToken:   incoming.refreshToken,
+				scopes:         incoming.scopes,
+				githubUsername: incoming.githubUsername,
+				avatarUrl:      incoming.avatarUrl
+			});
+		}
+
+		await this._mergePriorityOrder(bundle.priorityOrder ?? [], idMap);
+
+		const updated = replace ? plan.conflicts.length : 0;
+		const skipped = replace ? 0 : plan.conflicts.length;
+		vscode.window.showInformationMessage(
+			`Macide: Imported ${plan.added.length} new account${plan.added.length !== 1 ? 's' : ''}` +
+			(updated ? `, updated ${updated}` : '') +
+			(skipped ? `, kept ${skipped} existing` : '') + '.'
+		);
+	}
+
+	/** Adopts the exported priority order when this machine has none. */
+	private async _mergePriorityOrder(exported: string[], idMap: Map<string, string>): Promise<void> {
+		if (this._config.get('accounts').priorityOrder.length) return;
+		const order = exported.map(id => idMap.get(id)).filter((id): id is string => !!id);
+		if (order.length) await this._config.setNested('accounts', 'priorityOrder', order);
+	}
+
+	private async _askPassphrase(prompt: string, confirm: boolean): Promise<string | undefined> {
+		const passphrase = await vscode.window.showInputBox({
+			prompt,
+			password: true,
+			ignoreFocusOut: true,
+			validateInput: value => !confirm || value.length >= MIN_PASSPHRASE_LENGTH
+				? undefined
+				: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+		});
+		if (!passphrase || !confirm) return passphrase || undefined;
+
+		const again = await vscode.window.showInputBox({ prompt: 'Repeat the passphrase', password: true, ignoreFocusOut: true });
+		if (again === undefined) return undefined;
+		if (again !== passphrase) {
+			vscode.window.showErrorMessage('Macide: The passphrases did not match.');
+			return undefined;
+		}
+		return passphrase;
+	}
+}
@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Account Activity — audit trail of account status transitions.
+ *
+ * AccountManager.transition records every accepted status change here: which
+ * account, from / to, which component made it and why. The newest MAX_ENTRIES
+ * are kept in globalState and shown as the "Account Activity" timeline in the
+ * account panel.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import type { AccountStatus } from './manager';
+
+const STATE_KEY   = 'macide.accountActivity';
+const MAX_ENTRIES = 500;
+
+/** The component that changed an account's status. */
+export type TransitionActor = 'user' | 'binding' | 'schedule' | 'rotator' | 'tracker' | 'validator' | 'system';
+
+export interface AccountActivity {
+	/** ISO timestamp. */
+	at:        string;
+	accountId: string;
+	/** Alias at the time of the change, so entries stay readable after a rename or removal. */
+	alias:     string;
+	from:      AccountStatus;
+	to:        AccountStatus;
+	actor:     TransitionActor;
+	reason:    string;
+}
+
+export class AccountActivityLog implements vscode.Disposable {
+	private _entries: AccountActivity[];
+
+	private readonly _onDidRecord = new vscode.EventEmitter<AccountActivity>();
+	readonly onDidRecord = this._onDidRecord.event;
+
+	constructor(private readonly _state: vscode.Memento) {
+		this._entries = _state.get<AccountActivity[]>(STATE_KEY, []);
+	}
+
+	record(entry: AccountActivity): void {
+		this._entries.push(entry);
+		if (this._entries.length > MAX_ENTRIES) {
+			this._entries.splice(0, this._entries.length - MAX_ENTRIES);
+		}
+		this._state.update(STATE_KEY, this._entries).then(undefined, () => { /* best effort */ });
+		this._onDidRecord.fire(entry);
+	}
+
+	/** Entries newest first, optionally for one account only. */
+	entries(accountId?: string): AccountActivity[] {
+		const matching = accountId ? this._entries.filter(e => e.accountId === accountId) : this._entries;
+		return [...matching].reverse();
+	}
+
+	dispose(): void {
+		this._onDidRecord.dispose();
+	}
+}
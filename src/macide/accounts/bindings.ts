@@ -0,0 +1,264 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Workspace Account Bindings — durable workspace → account mapping.
+ *
+ * A binding ties either a workspace folder or a GitHub remote owner to one
+ * MacideAccount. Bindings live in globalState (not the 24h session window in
+ * SessionMemory) and are applied whenever a window opens, a folder is added
+ * or the git extension reports a new repository.
+ *
+ * Resolution order:
+ *   1. Folder binding for any open workspace folder (exact path match)
+ *   2. Remote-owner binding for the `origin` (or first) remote of any open repo
+ *      (keyed "owner" on github.com, "host/owner" on GHE / GHES hosts)
+ *
+ * Storage key (globalState):
+ *   macide.accountBindings   — AccountBinding[]
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { AccountManager } from './manager';
+import type { MacideAccount } from '../auth/provider';
+import type { AccountRotator } from '../auth/rotator';
+import { parseGitHubRemote } from '../auth/credentialBridge';
+import { remoteUrls, whenGitApiReady } from '../git/gitApi';
+import { isDefaultHost, knownHosts } from '../auth/githubHost';
+import type { GitAPI } from '../git/gitApi';
+
+const KEY_BINDINGS = 'macide.accountBindings';
+
+export type BindingKind = 'folder' | 'remoteOwner';
+
+export interface AccountBinding {
+	kind:      BindingKind;
+	/** Folder fsPath for 'folder', lower-cased [host/]owner for 'remoteOwner'. */
+	key:       string;
+	accountId: string;
+	createdAt: string;
+}
+
+export interface ResolvedBinding {
+	binding: AccountBinding;
+	account: MacideAccount;
+}
+
+/** Short label for a binding, e.g. "folder macide" or "owner acme-corp". */
+export function describeBinding(binding: AccountBinding): string {
+	return binding.kind === 'folder'
+		? `folder ${path.basename(binding.key)}`
+		: `owner ${binding.key}`;
+}
+
+export class WorkspaceBindings implements vscode.Disposable {
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _git: GitAPI | undefined;
+
+	private readonly _onDidChangeBindings = new vscode.EventEmitter<AccountBinding[]>();
+	readonly onDidChangeBindings = this._onDidChangeBindings.event;
+
+	constructor(
+		private readonly _context:  vscode.ExtensionContext,
+		private readonly _accounts: AccountManager,
+		private readonly _rotator:  AccountRotator
+	) {
+		this._disposables.push(
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.apply().catch(() => { /* silent */ })),
+			// Drop bindings that point at removed accounts
+			_accounts.onDidChangeAccounts(accounts => this._prune(accounts))
+		);
+
+		whenGitApiReady().then(api => {
+			if (!api) return;
+			this._git = api;
+			this._disposables.push(api.onDidOpenRepository(() => this.apply().catch(() => { /* silent */ })));
+			this.apply().catch(() => { /* silent */ });
+		});
+	}
+
+	// ── Queries ───────────────────────────────────────────────────────────────
+
+	getAll(): AccountBinding[] {
+		return [...this._context.globalState.get<AccountBinding[]>(KEY_BINDINGS, [])];
+	}
+
+	/** Bindings that match the folders and remotes open in this window. */
+	getForWorkspace(): AccountBinding[] {
+		const folders = this.workspaceFolderPaths();
+		const owners  = this.workspaceRemoteOwners();
+		return this.getAll().filter(b =>
+			b.kind === 'folder' ? folders.includes(b.key) : owners.includes(b.key)
+		);
+	}
+
+	/** Finds the binding that applies to the current window, if any. */
+	resolve(): ResolvedBinding | undefined {
+		const all = this.getAll();
+		const accounts = this._accounts.getAll();
+		const lookup = (kind: BindingKind, key: string): ResolvedBinding | undefined => {
+			const binding = all.find(b => b.kind === kind && b.key === key);
+			const account = binding && accounts.find(a => a.id === binding.accountId);
+			return binding && account ? { binding, account } : undefined;
+		};
+
+		for (const folder of this.workspaceFolderPaths()) {
+			const hit = lookup('folder', folder);
+			if (hit) return hit;
+		}
+		for (const owner of this.workspaceRemoteOwners()) {
+			const hit = lookup('remoteOwner', owner);
+			if (hit) return hit;
+		}
+		return undefined;
+	}
+
+	workspaceFolderPaths(): string[] {
+		return (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath);
+	}
+
+	/** Lower-cased [host/]owner keys of the repositories open in this window, origin first. */
+	workspaceRemoteOwners(): string[] {
+		const owners: string[] = [];
+		const hosts = knownHosts(this._accounts.getAll());
+		for (const repo of this._git?.repositories ?? []) {
+			for (const url of remoteUrls(repo)) {
+				const parsed = parseGitHubRemote(url, hosts);
+				const owner = parsed && (isDefaultHost(parsed.host) ? parsed.owner : `${parsed.host}/${parsed.owner}`).toLowerCase();
+				if (owner && !owners.includes(owner)) owners.push(owner);
+			}
+		}
+		return owners;
+	}
+
+	// ── Mutations ─────────────────────────────────────────────────────────────
+
+	async bind(kind: BindingKind, key: string, accountId: string): Promise<AccountBinding> {
+		const normalized = kind === 'remoteOwner' ? key.toLowerCase() : key;
+		const binding: AccountBinding = { kind, key: normalized, accountId, createdAt: new Date().toISOString() };
+		const next = this.getAll().filter(b => !(b.kind === kind && b.key === normalized));
+		next.push(binding);
+		await this._save(next);
+		return binding;
+	}
+
+	async unbind(kind: BindingKind, key: string): Promise<void> {
+		await this._save(this.getAll().filter(b => !(b.kind === kind && b.key === key)));
+	}
+
+	/**
+	 * Activates the bound account for this window. A manual switch made in this
+	 * window wins over the binding until the window is reopened, and a bound
+	 * account that is rate-limited, exhausted or signed out is left to the
+	 * rotator. Returns true if the active account changed.
+	 */
+	async apply(): Promise<boolean> {
+		if (this._accounts.activeSource === 'manual') return false;
+
+		const resolved = this.resolve();
+		if (!resolved) return false;
+
+		const { binding, account } = resolved;
+		const detail = describeBinding(binding);
+		const active = this._accounts.getActive();
+		if (active?.id === account.id && this._accounts.activeSource === 'binding'
+			&& this._accounts.activeSourceDetail === detail) {
+			return false;
+		}
+		if (!this._rotator.isUsable(account)) return false;
+
+		await this._accounts.setActive(account, 'binding', detail);
+		return true;
+	}
+
+	// ── Commands ──────────────────────────────────────────────────────────────
+
+	/**
+	 * Quick-pick flow behind macide.bindWorkspaceAccount: choose the account
+	 * (unless given), then the folder or remote owner to bind it to.
+	 */
+	async promptBind(accountId?: string): Promise<void> {
+		const accounts = this._accounts.getAll();
+		let account = accounts.find(a => a.id === accountId);
+		if (!account) {
+			const activeId = this._accounts.getActive()?.id;
+			const picked = await vscode.window.showQuickPick(
+				accounts.map(a => ({
+					label: a.alias,
+					description: `@${a.githubUsername}${a.id === activeId ? ' · active' : ''}`,
+					id: a.id
+				})),
+				{ placeHolder: 'Select the account to bind to this workspace' }
+			);
+			account = accounts.find(a => a.id === picked?.id);
+		}
+		if (!account) return;
+
+		const scopes = [
+			...this.workspaceFolderPaths().map(p => ({
+				label: `$(folder) ${path.basename(p)}`,
+				description: p,
+				bindingKind: 'folder' as BindingKind,
+				key: p
+			})),
+			...this.workspaceRemoteOwners().map(o => ({
+				label: `$(organization) ${o}`,
+				description: `Every repository owned by ${o}`,
+				bindingKind: 'remoteOwner' as BindingKind,
+				key: o
+			}))
+		];
+		if (!scopes.length) {
+			vscode.window.showInformationMessage('Macide: Open a folder to bind an account to it.');
+			return;
+		}
+
+		const scope = scopes.length === 1 ? scopes[0] : await vscode.window.showQuickPick(scopes, {
+			placeHolder: `Bind "${account.alias}" to…`
+		});
+		if (!scope) return;
+
+		const binding = await this.bind(scope.bindingKind, scope.key, account.id);
+		// An explicit bind wins over any earlier manual switch in this window
+		await this._accounts.setActive(account, 'binding', describeBinding(binding));
+	}
+
+	/** Quick-pick flow behind macide.unbindWorkspaceAccount. */
+	async promptUnbind(): Promise<void> {
+		const bindings = this.getForWorkspace();
+		if (!bindings.length) {
+			vscode.window.showInformationMessage('Macide: No account bindings apply to this workspace.');
+			return;
+		}
+		const accounts = this._accounts.getAll();
+		const picked = await vscode.window.showQuickPick(
+			bindings.map(b => ({
+				label: describeBinding(b),
+				description: accounts.find(a => a.id === b.accountId)?.alias ?? 'unknown account',
+				binding: b
+			})),
+			{ placeHolder: 'Select the binding to remove' }
+		);
+		if (!picked) return;
+		await this.unbind(picked.binding.kind, picked.binding.key);
+	}
+
+	// ── Internals ─────────────────────────────────────────────────────────────
+
+	private async _save(bindings: AccountBinding[]): Promise<void> {
+		await this._context.globalState.update(KEY_BINDINGS, bindings);
+		this._onDidChangeBindings.fire(bindings);
+	}
+
+	private _prune(accounts: MacideAccount[]): void {
+		const all = this.getAll();
+		const kept = all.filter(b => accounts.some(a => a.id === b.accountId));
+		if (kept.length !== all.length) {
+			this._save(kept).then(undefined, () => { /* silent */ });
+		}
+	}
+
+	dispose(): void {
+		this._onDidChangeBindings.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+}
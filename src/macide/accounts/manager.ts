@@ -5,14 +5,58 @@
 
 import * as vscode from 'vscode';
 import type { MacideAccount } from '../auth/provider';
-import { readVault, writeVault, upsertAccount, removeAccount } from '../auth/vault';
+import { readVault, writeVault, upsertAccount, removeAccount, usageOf } from '../auth/vault';
+import type { AccountUsage } from '../auth/vault';
+import { AccountActivityLog } from './activityLog';
+import type { TransitionActor } from './activityLog';
+
+/** globalState key for the volatile usage fields the vault does not store. */
+const USAGE_STATE_KEY = 'macide.accountUsage';
+/** Counter updates within this window are coalesced into one globalState write. */
+const USAGE_FLUSH_MS  = 2000;
 
 /** States for each account (see spec section 6.4). */
-export type AccountStatus = 'healthy' | 'warning' | 'exhausted' | 'idle';
+export type AccountStatus = 'healthy' | 'warning' | 'exhausted' | 'idle' | 'revoked' | 'invalid';
+
+/**
+ * Legal status changes. An exhausted account only leaves exhaustion once its
+ * cooldown or the daily reset clears it, so switching away never idles it.
+ * Revoked and invalid accounts only return to idle, through a successful
+ * token check or re-authorization; nothing else may mark them healthy.
+ */
+const TRANSITIONS: Readonly<Record<AccountStatus, readonly AccountStatus[]>> = {
+	healthy:   ['warning', 'exhausted', 'idle', 'revoked', 'invalid'],
+	warning:   ['healthy', 'exhausted', 'idle', 'revoked', 'invalid'],
+	idle:      ['healthy', 'warning', 'exhausted', 'revoked', 'invalid'],
+	exhausted: ['healthy', 'revoked', 'invalid'],
+	revoked:   ['idle', 'invalid'],
+	invalid:   ['idle', 'revoked']
+};
+
+export function canTransition(from: AccountStatus, to: AccountStatus): boolean {
+	return from === to || TRANSITIONS[from].includes(to);
+}
+
+const ACTOR_FOR_SOURCE: Record<ActivationSource, TransitionActor> = {
+	manual:   'user',
+	binding:  'binding',
+	rotation: 'rotator',
+	schedule: 'schedule',
+	restored: 'system'
+};
+
+/**
+ * How the active account was chosen. Surfaced in the account panel and status bar
+ * so the user can tell a workspace binding apart from an automatic rotation.
+ */
+export type ActivationSource = 'manual' | 'binding' | 'rotation' | 'schedule' | 'restored';
 
 export class AccountManager implements vscode.Disposable {
 	private _accounts: MacideAccount[] = [];
 	private _activeId: string | undefined;
+	private _activeSource: ActivationSource = 'restored';
+	/** Human-readable detail for the source, e.g. the bound folder or remote owner. */
+	private _activeSourceDetail: string | undefined;
 
 	private readonly _onDidChangeAccounts = new vscode.EventEmitter<MacideAccount[]>();
 	readonly onDidChangeAccounts = this._onDidChangeAccounts.event;
@@ -20,11 +64,27 @@ export class AccountManager implements vscode.Disposable {
 	private readonly _onDidChangeActive = new vscode.EventEmitter<MacideAccount | undefined>();
 	readonly onDidChangeActive = this._onDidChangeActive.event;
 
-	constructor(private readonly context: vscode.ExtensionContext) {}
+	/** Every accepted status transition, for the account panel's activity timeline. */
+	readonly activity: AccountActivityLog;
+
+	/** Pending coalesced write of usage fields, see updateUsage. */
+	private _usageFlush: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(private readonly context: vscode.ExtensionContext) {
+		this.activity = new AccountActivityLog(context.globalState);
+	}
 
 	/** Load accounts from vault into memory. Call once on activation. */
 	async load(): Promise<void> {
-		this._accounts = await readVault(this.context.secrets);
+		const usage = this.context.globalState.get<Record<string, Partial<AccountUsage>>>(USAGE_STATE_KEY, {});
+		this._accounts = (await readVault(this.context)).map(account => ({
+			...account,
+			// Defaults cover accounts added just before a crash, before their usage was flushed
+			requestCount:     account.requestCount ?? 0,
+			requestCountDate: account.requestCountDate ?? '',
+			lastUsedAt:       account.lastUsedAt ?? account.addedAt,
+			...usage[account.id]
+		}));
 		const storedActiveId = this.context.globalState.get<string>('macide.activeAccountId');
 		if (storedActiveId && this._accounts.some(a => a.id === storedActiveId)) {
 			this._activeId = storedActiveId;
@@ -41,18 +101,49 @@ export class AccountManager implements vscode.Disposable {
 		return this._accounts.find(a => a.id === this._activeId);
 	}
 
-	async setActive(account: MacideAccount): Promise<void> {
-		// Mark previous active as idle
+	get activeSource(): ActivationSource {
+		return this._activeSource;
+	}
+
+	get activeSourceDetail(): string | undefined {
+		return this._activeSourceDetail;
+	}
+
+	/**
+	 * The single place account status changes. Rejects transitions SPEC §6.4
+	 * does not allow and records accepted ones in the activity log. Only
+	 * mutates the account; callers persist it as part of their own update.
+	 * Returns false when the transition was rejected.
+	 */
+	transition(account: MacideAccount, to: AccountStatus, actor: TransitionActor, reason: string): boolean {
+		const from = account.status;
+		if (!canTransition(from, to)) return false;
+		if (from === to) return true;
+
+		account.status = to;
+		this.activity.record({ at: new Date().toISOString(), accountId: account.id, alias: account.alias, from, to, actor, reason });
+		return true;
+	}
+
+	async setActive(account: MacideAccount, source: ActivationSource = 'manual', detail?: string): Promise<void> {
+		const actor = ACTOR_FOR_SOURCE[source];
 		const prev = this.getActive();
-		if (prev && prev.id !== account.id) {
-			prev.status = 'idle';
-			await upsertAccount(this.context.secrets, prev);
+		// Only an in-use account goes idle; exhausted, revoked and invalid ones keep their status
+		if (prev && prev.id !== account.id && (prev.status === 'healthy' || prev.status === 'warning')) {
+			this.transition(prev, 'idle', actor, `Switched to "${account.alias}"`);
+			await upsertAccount(this.context, prev);
+		}
+		if (account.status === 'idle') {
+			this.transition(account, 'healthy', actor, describeSource(source, detail));
 		}
 
 		this._activeId = account.id;
+		this._activeSource = source;
+		this._activeSourceDetail = detail;
 		account.lastUsedAt = new Date().toISOString();
-		await upsertAccount(this.context.secrets, account);
+		await upsertAccount(this.context, account);
 		await this.context.globalState.update('macide.activeAccountId', account.id);
+		this._scheduleUsageFlush();
 
 		this._onDidChangeActive.fire(account);
 		this._onDidChangeAccounts.fire(this.getAll());
@@ -60,15 +151,19 @@ export class AccountManager implements vscode.Disposable {
 
 	async addAccount(account: MacideAccount): Promise<void> {
 		this._accounts = [...this._accounts.filter(a => a.id !== account.id), account];
-		await upsertAccount(this.context.secrets, account);
+		await upsertAccount(this.context, account);
+		this._scheduleUsageFlush();
 		this._onDidChangeAccounts.fire(this.getAll());
 	}
 
 	async removeAccountById(accountId: string): Promise<void> {
 		this._accounts = this._accounts.filter(a => a.id !== accountId);
-		await removeAccount(this.context.secrets, accountId);
+		await removeAccount(this.context, accountId);
+		this._scheduleUsageFlush();
 		if (this._activeId === accountId) {
 			this._activeId = this._accounts[0]?.id;
+			this._activeSource = 'manual';
+			this._activeSourceDetail = undefined;
 			await this.context.globalState.update('macide.activeAccountId', this._activeId);
 			this._onDidChangeActive.fire(this.getActive());
 		}
@@ -80,13 +175,45 @@ export class AccountManager implements vscode.Disposable {
 		if (idx >= 0) {
 			this._accounts[idx] = account;
 		}
-		await upsertAccount(this.context.secrets, account);
+		await upsertAccount(this.context, account);
+		this._scheduleUsageFlush();
 		this._onDidChangeAccounts.fire(this.getAll());
 	}
 
+	/**
+	 * For changes to usage fields only (counters, quota, last used). Updates
+	 * listeners right away and persists to globalState at most once per
+	 * USAGE_FLUSH_MS, without touching the keychain.
+	 */
+	updateUsage(account: MacideAccount): void {
+		const idx = this._accounts.findIndex(a => a.id === account.id);
+		if (idx >= 0) {
+			this._accounts[idx] = account;
+		}
+		this._scheduleUsageFlush();
+		this._onDidChangeAccounts.fire(this.getAll());
+	}
+
+	/** Writes pending usage fields now. Called on dispose. */
+	async flushUsage(): Promise<void> {
+		clearTimeout(this._usageFlush);
+		this._usageFlush = undefined;
+		const usage: Record<string, AccountUsage> = {};
+		for (const account of this._accounts) usage[account.id] = usageOf(account);
+		await this.context.globalState.update(USAGE_STATE_KEY, usage);
+	}
+
+	private _scheduleUsageFlush(): void {
+		if (this._usageFlush) return;
+		this._usageFlush = setTimeout(() => {
+			this.flushUsage().catch(() => { /* retried on the next change */ });
+		}, USAGE_FLUSH_MS);
+	}
+
 	async saveAll(accounts: MacideAccount[]): Promise<void> {
 		this._accounts = accounts;
-		await writeVault(this.context.secrets, accounts);
+		await writeVault(this.context, accounts);
+		this._scheduleUsageFlush();
 		this._onDidChangeAccounts.fire(this.getAll());
 	}
 
@@ -96,7 +223,20 @@ export class AccountManager implements vscode.Disposable {
 	}
 
 	dispose(): void {
+		if (this._usageFlush) this.flushUsage().catch(() => { /* best effort */ });
 		this._onDidChangeAccounts.dispose();
 		this._onDidChangeActive.dispose();
+		this.activity.dispose();
 	}
 }
+
+function describeSource(source: ActivationSource, detail: string | undefined): string {
+	const label = {
+		manual:   'Selected by the user',
+		binding:  'Workspace binding',
+		rotation: 'Auto-rotation',
+		schedule: 'Schedule',
+		restored: 'Restored on startup'
+	}[source];
+	return detail ? `${label} (${detail})` : label;
+}
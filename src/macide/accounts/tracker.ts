@@ -1,12 +1,23 @@
 /*---------------------------------------------------------------------------------------------
  * Macide — Multi-Account Copilot IDE
  * Per-Account Usage Tracker — client-side daily request counting.
+ * Prefers server-reported quota (see auth/quota.ts) over the assumed daily limit.
+ * Only Copilot categories (see auth/requestClassifier.ts) count toward the limit;
+ * every category is tallied per account for the panel's breakdown.
+ * Counted requests and 429s are also appended to the local UsageLog.
+ * Counter-only changes go through AccountManager.updateUsage, which coalesces
+ * them and keeps them out of the keychain.
  *--------------------------------------------------------------------------------------------*/
 
-import * as vscode from 'vscode';
 import type { MacideAccount } from '../auth/provider';
 import type { AccountManager } from './manager';
 import type { AccountRotator } from '../auth/rotator';
+import { mergeQuota, quotaUsedFraction } from '../auth/quota';
+import type { AccountQuota } from '../auth/quota';
+import { needsReauth } from '../auth/tokenValidator';
+import { isCopilotCategory } from '../auth/requestClassifier';
+import type { CopilotCategory, RequestCategory } from '../auth/requestClassifier';
+import type { UsageLog } from './usageLog';
 
 const WARNING_THRESHOLD = 0.8; // 80% → switch status to 'warning'
 const HISTORY_DAYS = 7;
@@ -19,7 +30,7 @@ export class AccountTracker {
 	constructor(
 		private readonly accountManager: AccountManager,
 		private readonly rotator: AccountRotator,
-		private readonly context?: vscode.ExtensionContext
+		private readonly usageLog?: UsageLog
 	) {}
 
 	set dailyLimit(limit: number) {
@@ -30,49 +41,91 @@ export class AccountTracker {
 		return this._dailyLimit;
 	}
 
-	/** Called when a Copilot request succeeds (completion accepted, chat message sent, edit applied). */
-	async increment(account: MacideAccount): Promise<void> {
-		const today = new Date().toISOString().split('T')[0];
+	/** Called for every successful intercepted request; only Copilot categories count toward quota. */
+	async recordRequest(account: MacideAccount, category: RequestCategory): Promise<void> {
+		if (isCopilotCategory(category)) return this.increment(account, category);
 
-		// Reset if this is a new day
-		if (account.requestCountDate !== today) {
-			// Save yesterday's count to history before resetting
-			this._saveHistory(account);
+		this._rollOverDay(account);
+		this._bumpCategory(account, category);
+		this.accountManager.updateUsage(account);
+	}
 
-			account.requestCount = 0;
-			account.requestCountDate = today;
-			if (account.status === 'exhausted' || account.status === 'warning') {
-				account.status = 'healthy';
-			}
-			// Clear warning-sent flag for the new day
-			this._warnedToday.delete(account.id);
-		}
+	/** Called when a Copilot request succeeds (completion accepted, chat message sent, edit applied). */
+	async increment(account: MacideAccount, category: CopilotCategory): Promise<void> {
+		const statusBefore = account.status;
+		this.usageLog?.record(account.id, category);
+		this._rollOverDay(account);
+		this._bumpCategory(account, category);
 
 		account.requestCount += 1;
 		account.lastUsedAt = new Date().toISOString();
+		// A successful response ends any backoff streak
+		account.rateLimitStrikes = 0;
 
 		// Update status based on usage percentage
-		const pct = account.requestCount / this._dailyLimit;
-		if (account.status !== 'exhausted') {
+		const pct = this.getUsagePercent(account);
+		if (account.status !== 'exhausted' && !needsReauth(account)) {
 			if (pct >= WARNING_THRESHOLD) {
 				// Fire the threshold callback exactly once per day per account
 				if (!this._warnedToday.has(account.id) && account.status !== 'warning') {
 					this._warnedToday.add(account.id);
 					this.rotator.onWarningThreshold(account);
 				}
-				account.status = 'warning';
+				this.accountManager.transition(account, 'warning', 'tracker', `${Math.round(pct * 100)}% of the daily limit used`);
 			} else {
-				account.status = 'healthy';
+				this.accountManager.transition(account, 'healthy', 'tracker', 'Request succeeded');
 			}
 		}
 
-		await this.accountManager.updateAccount(account);
+		// Counters alone skip the keychain; a status change is persisted with the account
+		if (account.status !== statusBefore) {
+			await this.accountManager.updateAccount(account);
+		} else {
+			this.accountManager.updateUsage(account);
+		}
+		this.rotator.onRequestCounted(account);
+	}
+
+	/** Resets today's counters if the last count was on an earlier day. */
+	private _rollOverDay(account: MacideAccount): void {
+		const today = new Date().toISOString().split('T')[0];
+		if (account.requestCountDate === today) return;
+
+		account.requestCount = 0;
+		account.requestCountDate = today;
+		account.requestsByCategory = {};
+		if ((account.status === 'exhausted' && !account.cooldownUntil) || account.status === 'warning') {
+			this.accountManager.transition(account, 'healthy', 'system', 'Daily counts reset');
+		}
+		// Clear warning-sent flag for the new day
+		this._warnedToday.delete(account.id);
+	}
+
+	private _bumpCategory(account: MacideAccount, category: RequestCategory): void {
+		const counts = account.requestsByCategory ?? (account.requestsByCategory = {});
+		counts[category] = (counts[category] ?? 0) + 1;
+	}
+
+	/** Logs a 429 for the usage report. Rotation itself is the rotator's job. */
+	recordRateLimit(account: MacideAccount): void {
+		this.usageLog?.record(account.id, 'rateLimit');
 	}
 
 	/**
-	 * Returns estimated usage percentage (0–1) for the given account today.
+	 * Stores rate-limit headers from a Copilot response on the account.
+	 * Does not persist — the caller's follow-up increment / rotation / update does.
+	 */
+	recordQuota(account: MacideAccount, quota: AccountQuota): void {
+		account.quota = mergeQuota(account.quota, quota);
+	}
+
+	/**
+	 * Returns usage percentage (0–1) for the given account today.
+	 * Uses the server-reported quota when known, otherwise the assumed daily limit.
 	 */
 	getUsagePercent(account: MacideAccount): number {
+		const reported = quotaUsedFraction(account.quota);
+		if (reported !== undefined) return reported;
 		const today = new Date().toISOString().split('T')[0];
 		if (account.requestCountDate !== today) return 0;
 		return Math.min(account.requestCount / this._dailyLimit, 1);
@@ -83,13 +136,8 @@ export class AccountTracker {
 	 * Day 0 is today, day 6 is 7 days ago.
 	 */
 	getUsageHistory(account: MacideAccount): number[] {
-		if (!this.context) return new Array(HISTORY_DAYS).fill(0);
-		const key = `macide.usage.${account.id}`;
-		const stored = this.context.globalState.get<number[]>(key);
-		const history = stored ?? new Array(HISTORY_DAYS).fill(0);
-		// Prepend today's live count
-		history[0] = account.requestCount;
-		return history.slice(0, HISTORY_DAYS);
+		if (!this.usageLog) return new Array(HISTORY_DAYS).fill(0);
+		return this.usageLog.dailyRequestTotals(account.id, HISTORY_DAYS);
 	}
 
 	/**
@@ -98,19 +146,13 @@ export class AccountTracker {
 	async resetAccount(account: MacideAccount): Promise<void> {
 		account.requestCount = 0;
 		account.requestCountDate = new Date().toISOString().split('T')[0];
+		account.requestsByCategory = {};
 		if (account.status === 'warning' || account.status === 'exhausted') {
-			account.status = 'healthy';
+			this.accountManager.transition(account, 'healthy', 'user', 'Usage counts reset');
 		}
+		account.cooldownUntil = undefined;
+		account.rateLimitStrikes = 0;
 		this._warnedToday.delete(account.id);
 		await this.accountManager.updateAccount(account);
 	}
-
-	private _saveHistory(account: MacideAccount): void {
-		if (!this.context) return;
-		const key = `macide.usage.${account.id}`;
-		const existing = this.context.globalState.get<number[]>(key) ?? new Array(HISTORY_DAYS).fill(0);
-		// Shift: index 0 = today's count (about to be yesterday), push to front
-		const updated = [account.requestCount, ...existing].slice(0, HISTORY_DAYS);
-		this.context.globalState.update(key, updated).then(undefined, () => { /* silent */ });
-	}
 }
@@ -0,0 +1,344 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Usage Log — local, timestamped record of Copilot usage per account.
+ *
+ * Every counted Copilot request, 429 and automatic rotation is appended as one
+ * JSON line to `<globalStorage>/usage-events-YYYY-MM.jsonl`, one file per local
+ * month. Nothing leaves the machine. Months entirely older than RETENTION_DAYS
+ * are deleted on load and whenever appends roll over to a new month.
+ *
+ * Only per-day aggregates are kept in memory; the files are streamed to build
+ * them, and exports re-read the files.
+ * Days use the local calendar, so charts match the user's working days.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { AccountManager } from './manager';
+import type { MacideAccount } from '../auth/provider';
+import { COPILOT_CATEGORIES } from '../auth/requestClassifier';
+import type { CopilotCategory } from '../auth/requestClassifier';
+
+/** Single-file log written before monthly files; split up on first load. */
+const LEGACY_FILE    = 'usage-events.jsonl';
+const MONTH_FILE_RE  = /^usage-events-(\d{4})-(\d{2})\.jsonl$/;
+const RETENTION_DAYS = 400;
+
+/** A counted Copilot request (see requestClassifier.ts), a 429, or an automatic rotation. */
+export type UsageEventKind = CopilotCategory | 'rateLimit' | 'rotation';
+
+export const USAGE_EVENT_KINDS: readonly UsageEventKind[] = [...COPILOT_CATEGORIES, 'rateLimit', 'rotation'];
+
+export interface UsageEvent {
+	/** ISO timestamp. */
+	t:         string;
+	accountId: string;
+	kind:      UsageEventKind;
+	/** Extra context, e.g. the account rotated away from. */
+	detail?:   string;
+}
+
+export type UsageCounts = Record<UsageEventKind, number>;
+
+export type UsagePeriod = 'day' | 'week' | 'month';
+
+export interface UsageBucket {
+	/** Local date (YYYY-MM-DD) the bucket starts on. */
+	start:  string;
+	counts: UsageCounts;
+}
+
+function emptyCounts(): UsageCounts {
+	return { completion: 0, chat: 0, edit: 0, embeddings: 0, rateLimit: 0, rotation: 0 };
+}
+
+/** Copilot requests in a bucket (completions, chat, edits and embeddings). */
+export function requestTotal(counts: UsageCounts): number {
+	return COPILOT_CATEGORIES.reduce((sum, category) => sum + counts[category], 0);
+}
+
+/** Local calendar date of `date` as YYYY-MM-DD. */
+export function localDateKey(date: Date): string {
+	const y = date.getFullYear();
+	const m = String(date.getMonth() + 1).padStart(2, '0');
+	const d = String(date.getDate()).padStart(2, '0');
+	return `${y}-${m}-${d}`;
+}
+
+/** First day of the bucket containing `date`: the day itself, its Monday, or the 1st. */
+function bucketStart(date: Date, period: UsagePeriod): Date {
+	const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+	if (period === 'week')  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+	if (period === 'month') start.setDate(1);
+	return start;
+}
+
+function stepBucket(start: Date, period: UsagePeriod, delta: number): Date {
+	const next = new Date(start);
+	if (period === 'day')   next.setDate(next.getDate() + delta);
+	if (period === 'week')  next.setDate(next.getDate() + 7 * delta);
+	if (period === 'month') next.setMonth(next.getMonth() + delta);
+	return next;
+}
+
+/** Log file for the local month of `date`, e.g. usage-events-2026-10.jsonl. */
+function monthFile(date: Date): string {
+	return `usage-events-${localDateKey(date).slice(0, 7)}.jsonl`;
+}
+
+function retentionCutoff(): number {
+	return Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function parseEvent(line: string): UsageEvent | undefined {
+	if (!line.trim()) return undefined;
+	try {
+		const e = JSON.parse(line) as UsageEvent;
+		return e.t && e.accountId && USAGE_EVENT_KINDS.includes(e.kind) ? e : undefined;
+	} catch {
+		return undefined; // a torn line from an interrupted write
+	}
+}
+
+function csvField(value: string): string {
+	return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export class UsageLog implements vscode.Disposable {
+	private readonly _dir: string;
+	/** Month file appends last went to; a change triggers pruning. */
+	private _month: string | undefined;
+	/** accountId → local date → counts. */
+	private readonly _daily = new Map<string, Map<string, UsageCounts>>();
+	private readonly _ready: Promise<void>;
+	/** Serialises appends so lines never interleave. */
+	private _writes: Promise<void> = Promise.resolve();
+	private _lastActiveId: string | undefined;
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	private readonly _onDidRecord = new vscode.EventEmitter<UsageEvent>();
+	readonly onDidRecord = this._onDidRecord.event;
+
+	constructor(
+		context: vscode.ExtensionContext,
+		private readonly _accounts: AccountManager
+	) {
+		this._dir = context.globalStorageUri.fsPath;
+		this._ready = this._load();
+		this._lastActiveId = _accounts.getActive()?.id;
+
+		this._disposables.push(
+			_accounts.onDidChangeActive(account => {
+				const from = this._lastActiveId;
+				this._lastActiveId = account?.id;
+				if (account && from !== account.id && _accounts.activeSource === 'rotation') {
+					this.record(account.id, 'rotation', from);
+				}
+			})
+		);
+	}
+
+	/** Resolves once the existing log has been read. */
+	whenReady(): Promise<void> {
+		return this._ready;
+	}
+
+	record(accountId: string, kind: UsageEventKind, detail?: string): void {
+		const event: UsageEvent = { t: new Date().toISOString(), accountId, kind };
+		if (detail) event.detail = detail;
+
+		this._ready.then(() => {
+			this._aggregate(event);
+			this._onDidRecord.fire(event);
+		});
+		const file = monthFile(new Date(event.t));
+		this._writes = this._writes
+			.then(() => this._ready)
+			.then(async () => {
+				if (file !== this._month) {
+					this._month = file;
+					await this._prune();
+				}
+				await fs.promises.appendFile(path.join(this._dir, file), JSON.stringify(event) + '\n', 'utf-8');
+			})
+			.catch(() => { /* read-only storage — keep in-memory counts only */ });
+	}
+
+	/** Account ids with any recorded usage, including accounts since removed. */
+	accountIds(): string[] {
+		return [...this._daily.keys()];
+	}
+
+	/**
+	 * The last `count` buckets of `period` for an account, oldest first,
+	 * ending with the bucket that contains `now`.
+	 */
+	buckets(accountId: string, period: UsagePeriod, count: number, now: Date = new Date()): UsageBucket[] {
+		const days = this._daily.get(accountId);
+		const last = bucketStart(now, period);
+		const buckets: UsageBucket[] = [];
+		for (let i = count - 1; i >= 0; i--) {
+			buckets.push({ start: localDateKey(stepBucket(last, period, -i)), counts: emptyCounts() });
+		}
+		if (!days) return buckets;
+
+		const index = new Map(buckets.map(b => [b.start, b.counts]));
+		for (const [day, counts] of days) {
+			const [y, m, d] = day.split('-').map(Number);
+			const target = index.get(localDateKey(bucketStart(new Date(y, m - 1, d), period)));
+			if (!target) continue;
+			for (const kind of USAGE_EVENT_KINDS) target[kind] += counts[kind];
+		}
+		return buckets;
+	}
+
+	/** Copilot request totals for the last `days` days, today first. */
+	dailyRequestTotals(accountId: string, days: number): number[] {
+		return this.buckets(accountId, 'day', days)
+			.map(b => requestTotal(b.counts))
+			.reverse();
+	}
+
+	/** Every retained event, read back from disk, oldest month first. */
+	async readEvents(): Promise<UsageEvent[]> {
+		await this._ready;
+		await this._writes;
+		const cutoff = retentionCutoff();
+		const events: UsageEvent[] = [];
+		for (const file of await this._monthFiles()) {
+			await this._eachEvent(file, e => { if (Date.parse(e.t) >= cutoff) events.push(e); });
+		}
+		return events;
+	}
+
+	async exportJson(): Promise<string> {
+		const accounts = this._accounts.getAll();
+		const events = (await this.readEvents()).map(e => ({ ...e, ...this._describe(e.accountId, accounts) }));
+		return JSON.stringify(events, null, 2);
+	}
+
+	async exportCsv(): Promise<string> {
+		const accounts = this._accounts.getAll();
+		const rows = ['timestamp,accountId,alias,githubUsername,kind,detail'];
+		for (const e of await this.readEvents()) {
+			const { alias, githubUsername } = this._describe(e.accountId, accounts);
+			rows.push([e.t, e.accountId, alias, githubUsername, e.kind, e.detail ?? ''].map(csvField).join(','));
+		}
+		return rows.join('\n') + '\n';
+	}
+
+	// ── Internals ─────────────────────────────────────────────────────────────
+
+	private _describe(accountId: string, accounts: MacideAccount[]): { alias: string; githubUsername: string } {
+		const account = accounts.find(a => a.id === accountId);
+		return account
+			? { alias: account.alias, githubUsername: account.githubUsername }
+			: { alias: 'Removed account', githubUsername: '' };
+	}
+
+	private _aggregate(event: UsageEvent): void {
+		const day = localDateKey(new Date(event.t));
+		let days = this._daily.get(event.accountId);
+		if (!days) {
+			days = new Map();
+			this._daily.set(event.accountId, days);
+		}
+		let counts = days.get(day);
+		if (!counts) {
+			counts = emptyCounts();
+			days.set(day, counts);
+		}
+		counts[event.kind] += 1;
+	}
+
+	/** Streams the events in one log file; unreadable files have none. */
+	private async _eachEvent(file: string, visit: (event: UsageEvent) => void | Promise<void>): Promise<void> {
+		const lines = readline.createInterface({ input: fs.createReadStream(path.join(this._dir, file), 'utf-8'), crlfDelay: Infinity });
+		try {
+			for await (const line of lines) {
+				const event = parseEvent(line);
+				if (event) await visit(event);
+			}
+		} catch {
+			/* missing or unreadable */
+		} finally {
+			lines.close();
+		}
+	}
+
+	/** Month files on disk, oldest first. */
+	private async _monthFiles(): Promise<string[]> {
+		try {
+			return (await fs.promises.readdir(this._dir)).filter(name => MONTH_FILE_RE.test(name)).sort();
+		} catch {
+			return [];
+		}
+	}
+
+	/** Deletes month files past retention and forgets their days. */
+	private async _prune(): Promise<void> {
+		const cutoff = retentionCutoff();
+		for (const file of await this._monthFiles()) {
+			const [, y, m] = MONTH_FILE_RE.exec(file)!;
+			// The month ends where the next one starts
+			if (new Date(Number(y), Number(m), 1).getTime() > cutoff) continue;
+			await fs.promises.unlink(path.join(this._dir, file)).catch(() => { /* retried next month */ });
+		}
+		const oldest = localDateKey(new Date(cutoff));
+		for (const days of this._daily.values()) {
+			for (const day of days.keys()) {
+				if (day < oldest) days.delete(day);
+			}
+		}
+	}
+
+	/** Appends the events of the old single-file log to the month files, then removes it. */
+	private async _splitLegacyLog(): Promise<void> {
+		const legacy = path.join(this._dir, LEGACY_FILE);
+		try {
+			await fs.promises.access(legacy);
+		} catch {
+			return;
+		}
+
+		let file: string | undefined;
+		let lines: string[] = [];
+		const flush = async (): Promise<void> => {
+			if (file && lines.length) await fs.promises.appendFile(path.join(this._dir, file), lines.join(''), 'utf-8');
+			lines = [];
+		};
+		await this._eachEvent(LEGACY_FILE, async event => {
+			const target = monthFile(new Date(event.t));
+			if (target !== file) {
+				await flush();
+				file = target;
+			}
+			lines.push(JSON.stringify(event) + '\n');
+		});
+		await flush();
+		await fs.promises.unlink(legacy);
+	}
+
+	private async _load(): Promise<void> {
+		try {
+			await fs.promises.mkdir(this._dir, { recursive: true });
+			await this._splitLegacyLog();
+		} catch {
+			/* read-only storage, or the old log stays for the next load */
+		}
+
+		this._month = monthFile(new Date());
+		await this._prune();
+		const cutoff = retentionCutoff();
+		for (const file of await this._monthFiles()) {
+			await this._eachEvent(file, e => { if (Date.parse(e.t) >= cutoff) this._aggregate(e); });
+		}
+	}
+
+	dispose(): void {
+		this._onDidRecord.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+}
@@ -0,0 +1,61 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Copilot Access Probe — one lightweight request to see whether an account is
+ * still rate-limited. Used by the rotator when an account's cooldown expires.
+ *
+ * Calls GET copilot_internal/v2/token on the account's API host (the endpoint Copilot
+ * itself uses to mint session tokens) through the unpatched https.request so
+ * the probe is never attributed to the active account.
+ *--------------------------------------------------------------------------------------------*/
+
+import { unpatchedRequest } from './httpInterceptor';
+import { parseRetryAfter } from './quota';
+import { endpointsFor } from './githubHost';
+import type { GitHubEndpoints } from './githubHost';
+
+const PROBE_PATH    = '/copilot_internal/v2/token';
+const PROBE_TIMEOUT = 10_000;
+
+export interface ProbeResult {
+	/**
+	 * 'ok' = usable, 'rate-limited' = still cooling down, 'unauthorized' = 401 / 403,
+	 * for the token validator to look into, 'error' = network / timeout.
+	 */
+	outcome: 'ok' | 'rate-limited' | 'unauthorized' | 'error';
+	statusCode?: number;
+	/** Server-requested retry time when the probe was rate-limited. */
+	retryAfter?: Date;
+}
+
+export function probeCopilotAccess(token: string, endpoints: GitHubEndpoints = endpointsFor()): Promise<ProbeResult> {
+	return new Promise(resolve => {
+		const req = unpatchedRequest({
+			hostname: endpoints.apiHost,
+			path:     endpoints.apiPrefix + PROBE_PATH,
+			method:   'GET',
+			headers:  {
+				'Authorization': `token ${token}`,
+				'Accept':        'application/json',
+				'User-Agent':    'Macide/1.0'
+			}
+		}, res => {
+			// Drain the body so the socket can be reused
+			res.resume();
+			const statusCode = res.statusCode;
+			// Only a 429 means "still rate-limited"; a 401 or 403 is not a recovery,
+			// but whether the token died is the validator's call. The x-ratelimit-*
+			// headers here describe the REST API, so only Retry-After is taken.
+			const retryAfterHeader = res.headers['retry-after'];
+			resolve({
+				outcome: statusCode === 429 ? 'rate-limited'
+					: statusCode === 401 || statusCode === 403 ? 'unauthorized'
+					: 'ok',
+				statusCode,
+				retryAfter: parseRetryAfter(Array.isArray(retryAfterHeader) ? retryAfterHeader[0] : retryAfterHeader)
+			});
+		});
+		req.on('error', () => resolve({ outcome: 'error' }));
+		req.setTimeout(PROBE_TIMEOUT, () => { req.destroy(); resolve({ outcome: 'error' }); });
+		req.end();
+	});
+}
@@ -3,27 +3,120 @@
  * Git HTTPS Credential Bridge.
  * Intercepts Git credential requests and resolves them from the token vault,
  * automatically routing pushes/pulls/fetches through the correct GitHub account.
+ * Remotes are matched by host, so github.com and GHE / GHES remotes each use an
+ * account from their own host.
+ *
+ * Routing is per remote and independent of the active Copilot account. The
+ * GET /repos probes read each account's `permissions`, so an account that can
+ * push wins over a read-only collaborator; results are cached per account and
+ * repository for ACCESS_TTL_MS. Every repository the git extension opens is
+ * routed up front so a mismatch, or a repo nobody can push to, surfaces before
+ * the first push (see `macide.git.credentialMismatchBehavior`).
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
-import * as https from 'https';
+import * as cp from 'child_process';
+import * as path from 'path';
 import type { AccountManager } from '../accounts/manager';
 import type { NotificationService } from '../ui/notifications/notificationService';
 import type { MacideAccount } from '../auth/provider';
+import { accountHost, DEFAULT_GITHUB_HOST, endpointsFor, knownHosts } from './githubHost';
+import type { GitHubEndpoints } from './githubHost';
+import { unpatchedRequest } from './httpInterceptor';
+import { getActiveRepo, getGitApi, remoteUrls, whenGitApiReady } from '../git/gitApi';
+import type { Repository } from '../git/gitApi';
+import { sshHostAlias } from '../git/sshConfig';
 
-const GITHUB_HTTPS_RE  = /^https?:\/\/(?:[^@]+@)?github\.com\//;
-const OWNER_REPO_RE    = /^https?:\/\/(?:[^@]+@)?github\.com\/([^/]+)\/([^/.]+)/;
+const HTTPS_REMOTE_RE = /^https?:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/;
+/** ssh://[user@]host[:port]/owner/repo */
+const SSH_REMOTE_RE   = /^(?:git\+)?ssh:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/;
+/** scp-like [user@]host:owner/repo, e.g. git@github.com:owner/repo.git */
+const SCP_REMOTE_RE   = /^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)([^/\\]+)\/([^/]+?)(?:\.git)?\/?$/;
+
+export interface GitHubRemote {
+	host:     string;
+	owner:    string;
+	repo:     string;
+	protocol: 'https' | 'ssh';
+	/** SSH Host alias the remote goes through (see sshConfig.ts), e.g. "github.com-alice". */
+	sshAlias?: string;
+}
+
+/** A named remote of a local repository, for rewriting its URL. */
+export interface RepoRemote {
+	/** Repository root (fsPath). */
+	root: string;
+	name: string;
+}
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Fire a lightweight GET /repos/{owner}/{repo} to check read access. */
-function canAccessRepo(token: string, owner: string, repo: string): Promise<boolean> {
+/**
+ * Extracts host/owner/repo from an HTTPS or SSH remote URL on one of `hosts`
+ * (github.com by default). SSH remotes may go through a Macide Host alias
+ * ("<host>-<login>"), which maps back to its host. Returns null for other remotes.
+ */
+export function parseGitHubRemote(
+	remoteUrl: string,
+	hosts: readonly string[] = [DEFAULT_GITHUB_HOST]
+): GitHubRemote | null {
+	const url = remoteUrl.trim();
+	const https = HTTPS_REMOTE_RE.exec(url);
+	const ssh = https ? null : SSH_REMOTE_RE.exec(url) ?? SCP_REMOTE_RE.exec(url);
+	const match = https ?? ssh;
+	if (!match) return null;
+
+	const named = match[1].toLowerCase();
+	const protocol = https ? 'https' : 'ssh';
+	if (hosts.includes(named)) return { host: named, owner: match[2], repo: match[3], protocol };
+	const aliased = ssh && hosts.find(h => named.startsWith(`${h}-`));
+	return aliased ? { host: aliased, owner: match[2], repo: match[3], protocol, sshAlias: named } : null;
+}
+
+/** The remote URL for a repository over HTTPS, or over SSH through `sshHost` (a Host alias or the host). */
+export function formatRemoteUrl(
+	remote: Pick<GitHubRemote, 'host' | 'owner' | 'repo'>,
+	protocol: GitHubRemote['protocol'],
+	sshHost = remote.host
+): string {
+	return protocol === 'https'
+		? `https://${remote.host}/${remote.owner}/${remote.repo}.git`
+		: `git@${sshHost}:${remote.owner}/${remote.repo}.git`;
+}
+
+function setRemoteUrl(remote: RepoRemote, url: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		cp.execFile('git', ['remote', 'set-url', remote.name, url], { cwd: remote.root, timeout: 10_000 }, (err, _stdout, stderr) => {
+			if (err) reject(new Error(stderr || err.message));
+			else resolve();
+		});
+	});
+}
+
+/** Host of a bare `https://host[/]` URL when it is one of `hosts`. */
+function parseHostOnly(url: string, hosts: readonly string[]): { host: string; owner?: string; repo?: string } | null {
+	const match = /^https?:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/?$/.exec(url.trim());
+	const host = match?.[1].toLowerCase();
+	return host && hosts.includes(host) ? { host } : null;
+}
+
+/** What one account may do on one repository. */
+export type RepoAccess = 'none' | 'read' | 'write';
+
+/**
+ * Fire a lightweight GET /repos/{owner}/{repo} and read the `permissions`
+ * object: push / maintain / admin → 'write', any other 2xx → 'read',
+ * 404 / 403 / 401 → 'none'. Resolves undefined when the check was
+ * inconclusive (network error, timeout, 5xx). Sent unpatched: probes with
+ * other accounts' tokens must not count against the active account.
+ */
+function repoAccess(token: string, endpoints: GitHubEndpoints, owner: string, repo: string): Promise<RepoAccess | undefined> {
 	return new Promise(resolve => {
 		const options = {
-			hostname: 'api.github.com',
-			path:     `/repos/${owner}/${repo}`,
+			hostname: endpoints.apiHost,
+			path:     `${endpoints.apiPrefix}/repos/${owner}/${repo}`,
 			method:   'GET',
 			headers:  {
 				'Authorization': `token ${token}`,
@@ -32,14 +125,29 @@ function canAccessRepo(token: string, owner: string, repo: string): Promise<bool
 			}
 		};
 
-		const req = https.request(options, res => {
-			// Drain the body so the socket can be reused
-			res.resume();
-			// 200 = accessible; 404 = exists but no access (or not found); 403 = forbidden
-			resolve(res.statusCode !== undefined && res.statusCode >= 200 && res.statusCode < 300);
+		const req = unpatchedRequest(options, res => {
+			const status = res.statusCode ?? 0;
+			if (status < 200 || status >= 300) {
+				// Drain the body so the socket can be reused
+				res.resume();
+				// 404 = exists but no access (or not found); 403 = forbidden
+				resolve(status >= 500 ? undefined : 'none');
+				return;
+			}
+			let body = '';
+			res.setEncoding('utf-8');
+			res.on('data', chunk => (body += chunk));
+			res.on('end', () => {
+				try {
+					const { permissions } = JSON.parse(body) as { permissions?: { push?: boolean; maintain?: boolean; admin?: boolean } };
+					resolve(permissions?.push || permissions?.maintain || permissions?.admin ? 'write' : 'read');
+				} catch {
+					resolve('read');
+				}
+			});
 		});
-		req.on('error', () => resolve(false));
-		req.setTimeout(5000, () => { req.destroy(); resolve(false); });
+		req.on('error', () => resolve(undefined));
+		req.setTimeout(5000, () => { req.destroy(); resolve(undefined); });
 		req.end();
 	});
 }
@@ -48,78 +156,310 @@ function canAccessRepo(token: string, owner: string, repo: string): Promise<bool
 // CredentialBridge
 // ---------------------------------------------------------------------------
 
+/** What to do when a remote's account differs from the active one (`macide.git.credentialMismatchBehavior`). */
+export type MismatchBehavior = 'warn' | 'auto-switch' | 'ignore';
+
+/** How long a probe result stays valid; collaborator changes show up after this. */
+const ACCESS_TTL_MS = 10 * 60 * 1000;
+
 export class CredentialBridge implements vscode.Disposable {
 	private _disposables: vscode.Disposable[] = [];
+	/** "<account id> <host/owner/repo>" → probe result, see ACCESS_TTL_MS. */
+	private readonly _access = new Map<string, { access: RepoAccess; checkedAt: number }>();
+	/** Remotes already warned about in this session. */
+	private readonly _warned = new Set<string>();
+	/** Repository root → listener waiting for its remotes, at most one per root. */
+	private readonly _awaitingRemotes = new Map<string, vscode.Disposable>();
+
+	private readonly _onDidRouteRepository = new vscode.EventEmitter<{ root: string; account: MacideAccount }>();
+	/** A local repository's remote was routed to an account that can access it. */
+	readonly onDidRouteRepository = this._onDidRouteRepository.event;
 
 	constructor(
 		private readonly accountManager: AccountManager,
 		private readonly notifications: NotificationService
-	) {}
+	) {
+		this._disposables.push(
+			// A removed account or a lost token invalidates its probe results
+			accountManager.onDidChangeAccounts(accounts => {
+				for (const key of this._access.keys()) {
+					const accountId = key.slice(0, key.indexOf(' '));
+					if (!accounts.some(a => a.id === accountId && a.token)) this._access.delete(key);
+				}
+			})
+		);
+
+		whenGitApiReady().then(api => {
+			if (!api) return;
+			this._disposables.push(
+				api.onDidOpenRepository(repo => this._checkRepository(repo)),
+				api.onDidCloseRepository(repo => this._stopAwaitingRemotes(repo.rootUri.fsPath))
+			);
+			api.repositories.forEach(repo => this._checkRepository(repo));
+		});
+	}
+
+	get mismatchBehavior(): MismatchBehavior {
+		return vscode.workspace.getConfiguration('macide').get<MismatchBehavior>('git.credentialMismatchBehavior', 'warn');
+	}
 
 	/**
-	 * Resolves credentials for a given Git remote URL.
-	 * Returns { username, password } where password is `x-access-token:<token>`.
+	 * Resolves credentials for a given Git remote URL, or a bare `https://host`
+	 * when Git did not send the repository path.
+	 * Returns { username, password } with the account's token as the password.
 	 * Returns null if we cannot resolve (fall through to Git's own prompt).
+	 * `cwd` is where Git asked from; when it is an open repository with this
+	 * remote, fires onDidRouteRepository for it.
 	 */
-	async resolveCredentials(remoteUrl: string): Promise<{ username: string; password: string } | null> {
-		if (!GITHUB_HTTPS_RE.test(remoteUrl)) return null;
+	async resolveCredentials(remoteUrl: string, cwd?: string): Promise<{ username: string; password: string } | null> {
+		const hosts = knownHosts(this.accountManager.getAll());
+		const parsed = parseGitHubRemote(remoteUrl, hosts) ?? parseHostOnly(remoteUrl, hosts);
+		if (!parsed) return null;
 
-		const active = this.accountManager.getActive();
-		if (!active) return null;
+		const account = parsed.owner && parsed.repo && this.mismatchBehavior !== 'ignore'
+			? await this.routeFor(parsed.host, parsed.owner, parsed.repo)
+			: this._defaultAccount(parsed.host);
+		if (!account) return null;
+
+		const root = cwd && parsed.owner && parsed.repo ? this._openRepositoryAt(cwd, parsed.host, parsed.owner, parsed.repo) : undefined;
+		if (root) this._onDidRouteRepository.fire({ root, account });
 
 		return {
-			username: active.githubUsername,
-			password: `x-access-token:${active.token}`
+			username: account.githubUsername,
+			password: account.token
 		};
 	}
 
 	/**
-	 * Checks if the remote URL belongs to a different stored account than the active one.
-	 * Tries each stored account's token against GET /repos/{owner}/{repo}.
-	 * If a non-active account has access, prompts the user to switch.
-	 * Returns true if a switch was performed.
+	 * The account Git should use for owner/repo on `host`. Push rights win, so
+	 * a read-only collaborator never takes a push: the active account if it can
+	 * push, else another account on the host that can, else the first that can
+	 * read (active first), else the active account (or the first on the host).
+	 * The active Copilot account is never changed here.
 	 */
-	async checkCrossAccountRemote(remoteUrl: string): Promise<boolean> {
-		if (!GITHUB_HTTPS_RE.test(remoteUrl)) return false;
-
-		const match = OWNER_REPO_RE.exec(remoteUrl);
-		if (!match) return false;
-
-		const [, owner, repo] = match;
-
-		const active  = this.accountManager.getActive();
-		const all     = this.accountManager.getAll();
-		if (all.length <= 1) return false;
-
-		// Check non-active accounts in parallel
-		const candidates: MacideAccount[] = [];
-		await Promise.all(
-			all
-				.filter(a => a.id !== active?.id)
-				.map(async a => {
-					const ok = await canAccessRepo(a.token, owner, repo);
-					if (ok) candidates.push(a);
-				})
+	async routeFor(host: string, owner: string, repo: string): Promise<MacideAccount | undefined> {
+		return (await this._route(host, owner, repo))?.account;
+	}
+
+	/**
+	 * Routes a remote and applies `macide.git.credentialMismatchBehavior` when
+	 * its account is not the active one: 'warn' says so once per session and
+	 * offers to move Copilot too, 'auto-switch' routes silently, 'ignore' keeps
+	 * Git on the active account. Unless ignoring, also warns once when the repo
+	 * is readable but no stored account can push to it.
+	 * SSH remotes authenticate with a key, not a token, so a mismatch there
+	 * offers to rewrite `remote` to HTTPS or to the account's SSH Host alias.
+	 * When `remote` is given, fires onDidRouteRepository for its repository
+	 * whatever the behavior, also with a single account.
+	 * Returns true if the active account was switched.
+	 */
+	async checkCrossAccountRemote(remoteUrl: string, remote?: RepoRemote): Promise<boolean> {
+		const behavior = this.mismatchBehavior;
+		const parsed = parseGitHubRemote(remoteUrl, knownHosts(this.accountManager.getAll()));
+		if (!parsed) return false;
+		const { host, owner, repo } = parsed;
+
+		// No other account to compare with: Git uses the default one, no probes needed
+		if (behavior === 'ignore' || this.accountManager.getAll().length <= 1) {
+			const account = this._defaultAccount(host);
+			if (account && remote) this._onDidRouteRepository.fire({ root: remote.root, account });
+			return false;
+		}
+
+		const route = await this._route(host, owner, repo);
+		if (route && remote) this._onDidRouteRepository.fire({ root: remote.root, account: route.account });
+		const key = routeKey(host, owner, repo);
+		if (!route || this._warned.has(key)) return false;
+
+		// The repo is visible but nobody can push: say so before a push fails
+		if (route.access === 'read') {
+			this._warned.add(key);
+			vscode.window.showWarningMessage(`Macide: No stored account can push to "${owner}/${repo}".`);
+			return false;
+		}
+
+		const { account } = route;
+		const active = this.accountManager.getActive();
+		if (parsed.protocol === 'ssh') {
+			await this._offerSshRewrite(parsed, account, remote);
+			return false;
+		}
+		if (account.id === active?.id || behavior !== 'warn') return false;
+		this._warned.add(key);
+
+		const action = await vscode.window.showInformationMessage(
+			`Macide: Git will use "${account.alias}" (@${account.githubUsername}) for "${owner}/${repo}"` +
+			(active ? `; Copilot stays on "${active.alias}".` : '.'),
+			'Switch Copilot Too'
 		);
+		if (action !== 'Switch Copilot Too') return false;
 
-		if (!candidates.length) return false;
+		await this.accountManager.setActive(account);
+		this.notifications.info(`Switched to ${account.alias} (@${account.githubUsername}) for ${owner}/${repo}.`);
+		return true;
+	}
 
-		// Prefer the first matching candidate
-		const candidate = candidates[0];
+	/**
+	 * An SSH remote signs in as whoever owns the key: the account its Macide
+	 * Host alias belongs to, else presumably the active one. When that is not
+	 * the routed account, offers HTTPS (so Macide picks the account) or the
+	 * routed account's SSH key. Rewrites are always confirmed, never automatic.
+	 */
+	private async _offerSshRewrite(parsed: GitHubRemote, account: MacideAccount, remote?: RepoRemote): Promise<void> {
+		const all = this.accountManager.getAll();
+		const keyOwner = parsed.sshAlias
+			? all.find(a => sshHostAlias(a) === parsed.sshAlias)
+			: this.accountManager.getActive();
+		if (keyOwner?.id === account.id) return;
+		this._warned.add(routeKey(parsed.host, parsed.owner, parsed.repo));
 
+		const useHttps = 'Use HTTPS';
+		const useKey = `Use @${account.githubUsername}'s SSH Key`;
+		const actions = remote ? [useHttps, ...(account.sshKeyPath ? [useKey] : [])] : [];
 		const action = await vscode.window.showInformationMessage(
-			`Macide: The remote "${owner}/${repo}" is accessible via account "${candidate.alias}" (@${candidate.githubUsername}). Switch to it now?`,
-			'Switch', 'Keep Current'
+			`Macide: "${parsed.owner}/${parsed.repo}" uses SSH, so Git signs in with an SSH key rather than ` +
+			`"${account.alias}" (@${account.githubUsername}), the account that can push to it.`,
+			...actions
 		);
+		if (!remote || (action !== useHttps && action !== useKey)) return;
 
-		if (action !== 'Switch') return false;
+		const url = action === useHttps
+			? formatRemoteUrl(parsed, 'https')
+			: formatRemoteUrl(parsed, 'ssh', sshHostAlias(account));
+		await this._rewrite(remote, url);
+	}
 
-		await this.accountManager.setActive(candidate);
-		this.notifications.info(`Switched to ${candidate.alias} (@${candidate.githubUsername}) for ${owner}/${repo}.`);
-		return true;
+	/**
+	 * Quick-pick flow behind macide.rewriteRemote: switches a remote of the
+	 * active repository between HTTPS and SSH (plain, or through an account's
+	 * SSH Host alias).
+	 */
+	async promptRewriteRemote(): Promise<void> {
+		const repo = getActiveRepo();
+		const hosts = knownHosts(this.accountManager.getAll());
+		const remotes = (repo?.state.remotes ?? [])
+			.map(r => ({ name: r.name, url: r.fetchUrl ?? r.pushUrl ?? '' }))
+			.map(r => ({ ...r, parsed: parseGitHubRemote(r.url, hosts) }))
+			.filter((r): r is { name: string; url: string; parsed: GitHubRemote } => !!r.parsed);
+		if (!repo || !remotes.length) {
+			vscode.window.showInformationMessage('Macide: No GitHub remotes in the active repository.');
+			return;
+		}
+
+		const picked = remotes.length === 1 ? remotes[0] : await vscode.window.showQuickPick(
+			remotes.map(r => ({ label: r.name, description: r.url, remote: r })),
+			{ placeHolder: 'Select the remote to rewrite' }
+		).then(p => p?.remote);
+		if (!picked) return;
+
+		const { parsed } = picked;
+		const targets = [
+			{ label: '$(lock) HTTPS', description: 'Macide picks the account per repository', url: formatRemoteUrl(parsed, 'https') },
+			{ label: '$(key) SSH', description: 'Default SSH key', url: formatRemoteUrl(parsed, 'ssh') },
+			...this.accountManager.getAll()
+				.filter(a => a.sshKeyPath && accountHost(a) === parsed.host)
+				.map(a => ({ label: `$(key) SSH as @${a.githubUsername}`, description: sshHostAlias(a), url: formatRemoteUrl(parsed, 'ssh', sshHostAlias(a)) }))
+		].filter(t => t.url !== picked.url);
+
+		const target = await vscode.window.showQuickPick(targets, { placeHolder: `Rewrite ${picked.name} (${picked.url}) to…` });
+		if (!target) return;
+		await this._rewrite({ root: repo.rootUri.fsPath, name: picked.name }, target.url);
+	}
+
+	private async _rewrite(remote: RepoRemote, url: string): Promise<void> {
+		try {
+			await setRemoteUrl(remote, url);
+			this.notifications.info(`Remote "${remote.name}" now points to ${url}.`);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : String(err);
+			this.notifications.error(`Could not rewrite remote "${remote.name}": ${msg}`);
+		}
+	}
+
+	/** Active account when it is on `host`, else the first account there. Revoked accounts have no token to offer. */
+	private _defaultAccount(host: string): MacideAccount | undefined {
+		const onHost = this.accountManager.getAll().filter(a => accountHost(a) === host && a.token);
+		const active = this.accountManager.getActive();
+		return onHost.find(a => a.id === active?.id) ?? onHost[0];
+	}
+
+	/**
+	 * Probes the default account first and the others on the host in parallel
+	 * only if it cannot push. `access` is the best level found ('none' when no
+	 * probe succeeded, in which case `account` is the default account).
+	 */
+	private async _route(host: string, owner: string, repo: string): Promise<{ account: MacideAccount; access: RepoAccess } | undefined> {
+		const fallback = this._defaultAccount(host);
+		if (!fallback) return undefined;
+
+		const own = await this._accessOf(fallback, host, owner, repo);
+		if (own === 'write') return { account: fallback, access: own };
+
+		const others = this.accountManager.getAll().filter(a => accountHost(a) === host && a.token && a.id !== fallback.id);
+		const access = await Promise.all(others.map(a => this._accessOf(a, host, owner, repo)));
+		const writer = others.find((_, i) => access[i] === 'write');
+		if (writer) return { account: writer, access: 'write' };
+		if (own === 'read') return { account: fallback, access: own };
+		const reader = others.find((_, i) => access[i] === 'read');
+		return reader ? { account: reader, access: 'read' } : { account: fallback, access: 'none' };
+	}
+
+	/** Cached per account and repo for ACCESS_TTL_MS; inconclusive probes are not cached. */
+	private async _accessOf(account: MacideAccount, host: string, owner: string, repo: string): Promise<RepoAccess> {
+		const key = `${account.id} ${routeKey(host, owner, repo)}`;
+		const cached = this._access.get(key);
+		if (cached && Date.now() - cached.checkedAt < ACCESS_TTL_MS) return cached.access;
+
+		const access = await repoAccess(account.token, endpointsFor(host), owner, repo);
+		if (access === undefined) return 'none';
+		this._access.set(key, { access, checkedAt: Date.now() });
+		return access;
+	}
+
+	/** Root of the open repository at `dir` when one of its remotes is owner/repo on `host`. */
+	private _openRepositoryAt(dir: string, host: string, owner: string, repo: string): string | undefined {
+		const hosts = knownHosts(this.accountManager.getAll());
+		const key = routeKey(host, owner, repo);
+		const match = getGitApi()?.repositories.find(r =>
+			path.resolve(r.rootUri.fsPath) === path.resolve(dir) &&
+			remoteUrls(r).some(url => {
+				const remote = parseGitHubRemote(url, hosts);
+				return !!remote && routeKey(remote.host, remote.owner, remote.repo) === key;
+			})
+		);
+		return match?.rootUri.fsPath;
+	}
+
+	private _checkRepository(repo: Repository): void {
+		const root = repo.rootUri.fsPath;
+		this._stopAwaitingRemotes(root);
+		const check = () => {
+			const [url] = remoteUrls(repo);
+			const remote = repo.state.remotes.find(r => r.fetchUrl === url || r.pushUrl === url);
+			if (remote && url) {
+				this.checkCrossAccountRemote(url, { root: repo.rootUri.fsPath, name: remote.name }).catch(() => { /* best effort */ });
+			}
+			return !!url;
+		};
+		if (check()) return;
+		// Remotes are filled in by the first status refresh
+		this._awaitingRemotes.set(root, repo.state.onDidChange(() => {
+			if (check()) this._stopAwaitingRemotes(root);
+		}));
+	}
+
+	private _stopAwaitingRemotes(root: string): void {
+		this._awaitingRemotes.get(root)?.dispose();
+		this._awaitingRemotes.delete(root);
 	}
 
 	dispose(): void {
+		this._awaitingRemotes.forEach(d => d.dispose());
+		this._onDidRouteRepository.dispose();
 		this._disposables.forEach(d => d.dispose());
 	}
 }
+
+function routeKey(host: string, owner: string, repo: string): string {
+	return `${host}/${owner}/${repo}`.toLowerCase();
+}
@@ -0,0 +1,221 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Credential Server — answers git-credential-macide over a local IPC socket.
+ *
+ * While `macide.git.credentialBridge` is on, the server listens on a Unix
+ * socket in a private temp directory (a named pipe on Windows) and registers
+ * the helper for every known GitHub host in Macide terminals, through the
+ * terminal environment:
+ *   PATH                       the directory holding the git-credential-macide shim
+ *                              (a .cmd batch file on Windows, named by path in the
+ *                              helper setting, since Git for Windows runs no .cmd
+ *                              from a bare helper name)
+ *   MACIDE_GIT_IPC_HANDLE      socket path
+ *   MACIDE_GIT_IPC_TOKEN       per-session secret the helper must present
+ *   GIT_CONFIG_COUNT / _KEY_n / _VALUE_n   (after any entries the user already has)
+ *     credential.https://<host>.helper       '' (drops other helpers), then 'macide'
+ *     credential.https://<host>.useHttpPath  true, so Git sends owner/repo
+ *
+ * `get` resolves through CredentialBridge.resolveCredentials (account by
+ * owner/repo, falling back to the active account); the helper's working
+ * directory tells the bridge which open repository asked. `store` is a no-op — the
+ * vault already holds the token — and `erase`, which Git sends after the
+ * server rejected a credential, re-checks that account's token.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { AccountManager } from '../accounts/manager';
+import type { CredentialBridge } from './credentialBridge';
+import type { TokenValidator } from './tokenValidator';
+import { accountHost, knownHosts } from './githubHost';
+import { IPC_HANDLE_ENV, IPC_TOKEN_ENV } from './gitCredentialHelper';
+import type { CredentialFields, CredentialRequest, CredentialResponse } from './gitCredentialHelper';
+
+const HELPER_NAME        = 'git-credential-macide';
+const MAX_REQUEST_BYTES  = 64 * 1024;
+
+export class CredentialServer implements vscode.Disposable {
+	private _server: net.Server | undefined;
+	private _handle: string | undefined;
+	private _socketDir: string | undefined;
+	private readonly _token = crypto.randomBytes(32).toString('hex');
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private readonly context: vscode.ExtensionContext,
+		private readonly accountManager: AccountManager,
+		private readonly bridge: CredentialBridge,
+		private readonly tokenValidator: TokenValidator
+	) {
+		// Values belong to this session's socket; never restore them into a new window
+		context.environmentVariableCollection.persistent = false;
+		this._disposables.push(
+			accountManager.onDidChangeAccounts(() => { if (this._server) this._applyEnvironment(); })
+		);
+	}
+
+	/** Socket path or pipe name while listening. */
+	get handle(): string | undefined {
+		return this._handle;
+	}
+
+	/** Starts or stops the server to match the `macide.git.credentialBridge` setting. */
+	async setEnabled(enabled: boolean): Promise<void> {
+		if (enabled && !this._server) await this._start();
+		else if (!enabled && this._server) this._stop();
+	}
+
+	private async _start(): Promise<void> {
+		this._writeShim();
+		if (process.platform === 'win32') {
+			this._handle = `\\\\.\\pipe\\macide-git-${crypto.randomBytes(8).toString('hex')}`;
+		} else {
+			// mkdtemp creates the directory 0700, so only this user can reach the socket
+			this._socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'macide-git-'));
+			this._handle = path.join(this._socketDir, 'credential.sock');
+		}
+
+		const server = net.createServer(socket => this._onConnection(socket));
+		try {
+			await new Promise<void>((resolve, reject) => {
+				server.once('error', reject);
+				server.listen(this._handle, () => {
+					server.off('error', reject);
+					resolve();
+				});
+			});
+		} catch (err: unknown) {
+			// Leave no socket directory behind for a server that never started
+			this._stop();
+			throw err;
+		}
+		this._server = server;
+		this._applyEnvironment();
+	}
+
+	private _stop(): void {
+		this._server?.close();
+		this._server = undefined;
+		if (this._socketDir) fs.rmSync(this._socketDir, { recursive: true, force: true });
+		this._socketDir = undefined;
+		this._handle = undefined;
+		this.context.environmentVariableCollection.clear();
+	}
+
+	/** Directory holding the shim; put on PATH in Macide terminals. */
+	get binDir(): string {
+		return path.join(this.context.globalStorageUri.fsPath, 'bin');
+	}
+
+	/** The shim Git runs: a `#!/bin/sh` script, or a batch file on Windows. */
+	get shimPath(): string {
+		return path.join(this.binDir, process.platform === 'win32' ? `${HELPER_NAME}.cmd` : HELPER_NAME);
+	}
+
+	/**
+	 * Writes the `git-credential-macide` shim, which runs the compiled helper
+	 * with this editor's own Node runtime.
+	 */
+	private _writeShim(): void {
+		fs.mkdirSync(this.binDir, { recursive: true });
+		const helper = path.join(__dirname, 'gitCredentialHelper.js');
+		const script = process.platform === 'win32'
+			? `@echo off\r\nset ELECTRON_RUN_AS_NODE=1\r\n"${process.execPath}" "${helper}" %*\r\n`
+			: `#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "${process.execPath}" "${helper}" "$@"\n`;
+		fs.writeFileSync(this.shimPath, script, { mode: 0o755 });
+	}
+
+	/** The `credential.helper` value: Git resolves the name on PATH, except a .cmd on Windows. */
+	private _helperSetting(): string {
+		return process.platform === 'win32' ? `!"${this.shimPath.replace(/\\/g, '/')}"` : 'macide';
+	}
+
+	private _applyEnvironment(): void {
+		const env = this.context.environmentVariableCollection;
+		env.clear();
+		env.prepend('PATH', this.binDir + path.delimiter);
+		env.replace(IPC_HANDLE_ENV, this._handle!);
+		env.replace(IPC_TOKEN_ENV, this._token);
+
+		const config: [string, string][] = [];
+		for (const host of knownHosts(this.accountManager.getAll())) {
+			config.push(
+				[`credential.https://${host}.helper`, ''],
+				[`credential.https://${host}.helper`, this._helperSetting()],
+				[`credential.https://${host}.useHttpPath`, 'true']
+			);
+		}
+		// Entries the user set up themselves keep their slots; ours follow
+		const base = Math.max(0, Number.parseInt(process.env.GIT_CONFIG_COUNT ?? '', 10) || 0);
+		env.replace('GIT_CONFIG_COUNT', String(base + config.length));
+		config.forEach(([key, value], i) => {
+			env.replace(`GIT_CONFIG_KEY_${base + i}`, key);
+			env.replace(`GIT_CONFIG_VALUE_${base + i}`, value);
+		});
+	}
+
+	private _onConnection(socket: net.Socket): void {
+		let buffer = '';
+		let answered = false;
+		socket.setEncoding('utf-8');
+		socket.on('error', () => { /* helper went away */ });
+		socket.on('data', chunk => {
+			if (answered) return;
+			buffer += chunk;
+			if (buffer.length > MAX_REQUEST_BYTES) {
+				socket.destroy();
+				return;
+			}
+			const newline = buffer.indexOf('\n');
+			if (newline < 0) return;
+			answered = true;
+			this._respond(buffer.slice(0, newline)).then(
+				response => socket.end(JSON.stringify(response)),
+				() => socket.end(JSON.stringify({ fields: {} }))
+			);
+		});
+	}
+
+	private async _respond(line: string): Promise<CredentialResponse> {
+		const request = JSON.parse(line) as CredentialRequest;
+		const token = Buffer.from(String(request.token));
+		const expected = Buffer.from(this._token);
+		if (token.length !== expected.length || !crypto.timingSafeEqual(token, expected)) {
+			return { fields: {} };
+		}
+
+		const fields = request.fields ?? {};
+		if (fields.protocol !== 'https' || !fields.host) return { fields: {} };
+
+		switch (request.action) {
+			case 'get':   return { fields: await this._get(fields, request.cwd) };
+			case 'erase': this._erase(fields); return { fields: {} };
+			default:      return { fields: {} };
+		}
+	}
+
+	private async _get(fields: CredentialFields, cwd?: string): Promise<CredentialFields> {
+		const remote = `https://${fields.host}/${fields.path ?? ''}`;
+		const credentials = await this.bridge.resolveCredentials(remote, typeof cwd === 'string' ? cwd : undefined);
+		if (!credentials) return {};
+		return { protocol: 'https', host: fields.host, username: credentials.username, password: credentials.password };
+	}
+
+	/** Git rejected the token: let the validator decide whether it was revoked. */
+	private _erase(fields: CredentialFields): void {
+		const host = fields.host.toLowerCase();
+		const account = this.accountManager.getAll()
+			.find(a => accountHost(a) === host && a.token && a.token === fields.password);
+		if (account) this.tokenValidator.validate(account).then(undefined, () => { /* inconclusive */ });
+	}
+
+	dispose(): void {
+		this._stop();
+		this._disposables.forEach(d => d.dispose());
+	}
+}
@@ -0,0 +1,219 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Copilot Entitlement — does this GitHub account actually have a Copilot seat?
+ *
+ * GitHub decides Copilot access server-side, so an account can sign in fine
+ * and still fail every Copilot request. The checker asks the endpoint Copilot
+ * itself uses (GET copilot_internal/v2/token on the account's API host):
+ *   200       → entitled; plan read from `sku`, expiry from `limited_user_reset_date`
+ *               (the reply's `expires_at` belongs to the ~30-minute session token,
+ *               not to the seat, so it is not used)
+ *   403 / 404 → no Copilot seat
+ *   other     → inconclusive, previous result kept (401 is the token validator's job)
+ *
+ * Accounts are checked when first seen (i.e. right after sign-in), on startup
+ * and every CHECK_INTERVAL_MS. Rotation skips accounts without a seat.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import type { MacideAccount } from './provider';
+import type { AccountManager } from '../accounts/manager';
+import type { AccountRotator } from './rotator';
+import type { NotificationService } from '../ui/notifications/notificationService';
+import { unpatchedRequest } from './httpInterceptor';
+import { accountHost, endpointsFor } from './githubHost';
+import type { GitHubEndpoints } from './githubHost';
+
+const CHECK_PATH        = '/copilot_internal/v2/token';
+const CHECK_TIMEOUT     = 10_000;
+const CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000;
+const STARTUP_DELAY_MS  = 8_000;
+
+export type CopilotPlan = 'individual' | 'business' | 'enterprise' | 'free' | 'unknown';
+
+export interface CopilotEntitlement {
+	/** 'entitled' = has a seat, 'none' = no Copilot access. */
+	status:     'entitled' | 'none';
+	plan?:      CopilotPlan;
+	/** Raw SKU reported by GitHub, e.g. "copilot_for_business_seat". */
+	sku?:       string;
+	/**
+	 * ISO time the current entitlement ends: when a limited (Free) allowance
+	 * resets. GitHub reports none for paid seats, which last until removed.
+	 */
+	expiresAt?: string;
+	/** ISO time of the last conclusive check. */
+	checkedAt:  string;
+}
+
+/** Maps a Copilot SKU string onto a coarse plan type. */
+export function planFromSku(sku: string | undefined): CopilotPlan {
+	const s = (sku ?? '').toLowerCase();
+	if (s.includes('free'))                              return 'free';
+	if (s.includes('enterprise'))                        return 'enterprise';
+	if (s.includes('business'))                          return 'business';
+	if (s.includes('individual') || s.includes('subscriber') || s.includes('edu')) return 'individual';
+	return 'unknown';
+}
+
+/** Short label for the account panel / status bar, e.g. "Copilot Business". */
+export function describeEntitlement(entitlement: CopilotEntitlement | undefined): string | undefined {
+	if (!entitlement) return undefined;
+	if (entitlement.status === 'none') return 'No Copilot access';
+	switch (entitlement.plan) {
+		case 'individual': return 'Copilot Individual';
+		case 'business':   return 'Copilot Business';
+		case 'enterprise': return 'Copilot Enterprise';
+		case 'free':       return 'Copilot Free';
+		default:           return 'Copilot';
+	}
+}
+
+interface CopilotTokenReply {
+	statusCode?: number;
+	data?: { token?: string; sku?: string; expires_at?: number; limited_user_reset_date?: number | string };
+}
+
+/** `limited_user_reset_date` as ISO time; GitHub sends epoch seconds or a date string. */
+function resetDate(value: number | string | undefined): string | undefined {
+	const ms = typeof value === 'number' ? value * 1000 : typeof value === 'string' ? Date.parse(value) : NaN;
+	return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+/** GET copilot_internal/v2/token. Resolves with no statusCode on network errors. */
+function requestCopilotToken(token: string, endpoints: GitHubEndpoints): Promise<CopilotTokenReply> {
+	return new Promise(resolve => {
+		const req = unpatchedRequest({
+			hostname: endpoints.apiHost,
+			path:     endpoints.apiPrefix + CHECK_PATH,
+			method:   'GET',
+			headers:  {
+				'Authorization': `token ${token}`,
+				'Accept':        'application/json',
+				'User-Agent':    'Macide/1.0'
+			}
+		}, res => {
+			const statusCode = res.statusCode;
+			let body = '';
+			res.on('data', (chunk: Buffer) => (body += chunk));
+			res.on('end', () => {
+				try {
+					resolve({ statusCode, data: statusCode === 200 ? JSON.parse(body) : undefined });
+				} catch {
+					resolve({ statusCode });
+				}
+			});
+		});
+		req.on('error', () => resolve({}));
+		req.setTimeout(CHECK_TIMEOUT, () => { req.destroy(); resolve({}); });
+		req.end();
+	});
+}
+
+/** Queries the entitlement for one token. Resolves undefined when the answer is inconclusive. */
+export async function checkEntitlement(
+	token: string,
+	endpoints: GitHubEndpoints = endpointsFor()
+): Promise<CopilotEntitlement | undefined> {
+	const { statusCode, data } = await requestCopilotToken(token, endpoints);
+	const checkedAt = new Date().toISOString();
+	if (statusCode === 403 || statusCode === 404) return { status: 'none', checkedAt };
+	if (statusCode !== 200 || !data) return undefined;
+	return {
+		status:    'entitled',
+		plan:      planFromSku(data.sku),
+		sku:       data.sku,
+		expiresAt: resetDate(data.limited_user_reset_date),
+		checkedAt
+	};
+}
+
+/**
+ * Exchanges an OAuth token for the short-lived Copilot session token the
+ * Copilot endpoints expect. Resolves undefined when the exchange fails.
+ */
+export async function fetchCopilotToken(
+	token: string,
+	endpoints: GitHubEndpoints = endpointsFor()
+): Promise<{ token: string; expiresAt: number } | undefined> {
+	const { data } = await requestCopilotToken(token, endpoints);
+	if (!data?.token) return undefined;
+	return {
+		token:     data.token,
+		expiresAt: typeof data.expires_at === 'number' ? data.expires_at * 1000 : Date.now() + 10 * 60 * 1000
+	};
+}
+
+export class EntitlementChecker implements vscode.Disposable {
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _interval: ReturnType<typeof setInterval> | undefined;
+	private _startup: ReturnType<typeof setTimeout> | undefined;
+	/** Account ids with a check in flight, so sign-in events do not double up. */
+	private readonly _pending = new Set<string>();
+	/** Account ids already auto-checked on sign-in this session; failures wait for the next pass. */
+	private readonly _seen = new Set<string>();
+
+	constructor(
+		private readonly _accounts:      AccountManager,
+		private readonly _rotator:       AccountRotator,
+		private readonly _notifications: NotificationService
+	) {
+		// Newly signed-in accounts have never been checked
+		this._disposables.push(
+			_accounts.onDidChangeAccounts(accounts => {
+				for (const account of accounts) {
+					if (account.copilot || this._seen.has(account.id)) continue;
+					this._seen.add(account.id);
+					this.check(account).catch(() => { /* silent */ });
+				}
+			})
+		);
+	}
+
+	/** Checks all accounts shortly after startup and then periodically. */
+	start(): void {
+		this._startup = setTimeout(() => this.checkAll(), STARTUP_DELAY_MS);
+		this._interval = setInterval(() => this.checkAll(), CHECK_INTERVAL_MS);
+	}
+
+	async checkAll(): Promise<void> {
+		for (const account of this._accounts.getAll()) {
+			await this.check(account);
+		}
+	}
+
+	/** Refreshes one account's entitlement. Returns the stored result. */
+	async check(account: MacideAccount): Promise<CopilotEntitlement | undefined> {
+		if (this._pending.has(account.id)) return account.copilot;
+		this._pending.add(account.id);
+		try {
+			const result = await checkEntitlement(account.token, endpointsFor(accountHost(account)));
+			if (!result) return account.copilot;
+
+			const lostAccess = result.status === 'none' && account.copilot?.status !== 'none';
+			if (lostAccess && this._accounts.getActive()?.id === account.id) {
+				const next = this._rotator.selectNext();
+				if (next) await this._accounts.setActive(next, 'rotation');
+			}
+
+			account.copilot = result;
+			await this._accounts.updateAccount(account);
+
+			if (lostAccess) {
+				this._notifications.warning(
+					`"${account.alias}" (@${account.githubUsername}) has no Copilot access. Rotation will skip it.`,
+					{ label: 'Open Account Panel', action: () => this._accounts.openAccountPanel() }
+				);
+			}
+			return result;
+		} finally {
+			this._pending.delete(account.id);
+		}
+	}
+
+	dispose(): void {
+		clearTimeout(this._startup);
+		clearInterval(this._interval);
+		this._disposables.forEach(d => d.dispose());
+	}
+}
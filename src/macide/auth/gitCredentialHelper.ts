@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * git-credential-macide — Git credential helper backed by the running Macide.
+ *
+ * Git runs `git-credential-macide <get|store|erase>` with the credential
+ * description on stdin (key=value lines, ended by a blank line; see
+ * gitcredentials(7)). The helper forwards it over the local IPC socket named in
+ * MACIDE_GIT_IPC_HANDLE to CredentialServer and prints what comes back.
+ *
+ * Runs as a plain Node script outside the extension host, so it must not import
+ * `vscode`. Any failure prints nothing and exits 0: Git then falls through to
+ * its next helper or its own prompt.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as net from 'net';
+
+export const IPC_HANDLE_ENV = 'MACIDE_GIT_IPC_HANDLE';
+export const IPC_TOKEN_ENV  = 'MACIDE_GIT_IPC_TOKEN';
+
+const IPC_TIMEOUT_MS = 15_000;
+
+export type CredentialAction = 'get' | 'store' | 'erase';
+
+/** Credential description fields as Git sends them (protocol, host, path, username, password…). */
+export type CredentialFields = Record<string, string>;
+
+/** One request per connection: a single JSON line each way. */
+export interface CredentialRequest {
+	token:  string;
+	action: CredentialAction;
+	fields: CredentialFields;
+	/** Working directory Git ran the helper in (the repository, for fetch and push). */
+	cwd?:   string;
+}
+
+export interface CredentialResponse {
+	fields: CredentialFields;
+}
+
+export function parseCredentialFields(input: string): CredentialFields {
+	const fields: CredentialFields = {};
+	for (const line of input.split(/\r?\n/)) {
+		if (!line) break;
+		const eq = line.indexOf('=');
+		if (eq > 0) fields[line.slice(0, eq)] = line.slice(eq + 1);
+	}
+	return fields;
+}
+
+export function formatCredentialFields(fields: CredentialFields): string {
+	return Object.entries(fields)
+		// A newline would end the description early
+		.filter(([, value]) => !/[\r\n\0]/.test(value))
+		.map(([key, value]) => `${key}=${value}\n`)
+		.join('');
+}
+
+export function requestCredential(handle: string, request: CredentialRequest): Promise<CredentialResponse> {
+	return new Promise((resolve, reject) => {
+		const socket = net.connect(handle);
+		let buffer = '';
+		socket.setEncoding('utf-8');
+		socket.setTimeout(IPC_TIMEOUT_MS, () => socket.destroy(new Error('Macide did not answer in time.')));
+		socket.on('connect', () => socket.write(JSON.stringify(request) + '\n'));
+		socket.on('data', chunk => { buffer += chunk; });
+		socket.on('end', () => {
+			try {
+				resolve(JSON.parse(buffer) as CredentialResponse);
+			} catch (err) {
+				reject(err);
+			}
+		});
+		socket.on('error', reject);
+	});
+}
+
+function readStdin(): Promise<string> {
+	return new Promise(resolve => {
+		let input = '';
+		process.stdin.setEncoding('utf-8');
+		process.stdin.on('data', chunk => { input += chunk; });
+		process.stdin.on('end', () => resolve(input));
+	});
+}
+
+async function main(): Promise<void> {
+	const action = process.argv[2] as CredentialAction;
+	const handle = process.env[IPC_HANDLE_ENV];
+	const input = await readStdin();
+	if (!handle || !['get', 'store', 'erase'].includes(action)) return;
+
+	try {
+		const response = await requestCredential(handle, {
+			token:  process.env[IPC_TOKEN_ENV] ?? '',
+			action,
+			fields: parseCredentialFields(input),
+			cwd:    process.cwd()
+		});
+		if (action === 'get') process.stdout.write(formatCredentialFields(response.fields));
+	} catch {
+		// Macide closed or unreachable — let Git try its other helpers
+	}
+}
+
+if (require.main === module) {
+	main().then(() => process.exit(0), () => process.exit(0));
+}
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * GitHub Hosts — endpoints for github.com, GHE.com and GitHub Enterprise Server.
+ *
+ * Every MacideAccount belongs to one host. The host decides where the device
+ * flow runs, which REST API its token is valid for and which domains carry
+ * its Copilot traffic:
+ *
+ *   github.com         web github.com        API api.github.com
+ *   GHE.com (*.ghe.com) web acme.ghe.com     API api.acme.ghe.com
+ *   GHES               web ghes.acme.corp    API ghes.acme.corp/api/v3
+ *--------------------------------------------------------------------------------------------*/
+
+import type { MacideAccount } from './provider';
+
+export const DEFAULT_GITHUB_HOST = 'github.com';
+
+/** Copilot endpoints used by github.com accounts. */
+const GITHUB_COM_COPILOT_DOMAINS = [
+	'copilot-proxy.githubusercontent.com',
+	'api.github.com',
+	'githubcopilot.com'
+];
+
+export interface GitHubEndpoints {
+	/** Web host, e.g. "github.com" or "ghes.acme.corp". */
+	host:      string;
+	/** Host serving the REST API. */
+	apiHost:   string;
+	/** Path prefix for REST calls ("" or "/api/v3" on GHES). */
+	apiPrefix: string;
+}
+
+/**
+ * Normalises user input such as "https://GHES.acme.corp/" to "ghes.acme.corp".
+ * Returns undefined for empty or malformed input.
+ */
+export function normalizeHost(input: string | undefined): string | undefined {
+	const trimmed = (input ?? '').trim();
+	if (!trimmed) return undefined;
+	try {
+		const url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+		return url.host.toLowerCase() || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Host an account belongs to. Accounts stored before hosts were tracked are github.com. */
+export function accountHost(account: Pick<MacideAccount, 'host'>): string {
+	return account.host ?? DEFAULT_GITHUB_HOST;
+}
+
+export function isDefaultHost(host: string): boolean {
+	return host === DEFAULT_GITHUB_HOST;
+}
+
+export function endpointsFor(host: string = DEFAULT_GITHUB_HOST): GitHubEndpoints {
+	if (isDefaultHost(host))      return { host, apiHost: 'api.github.com', apiPrefix: '' };
+	if (host.endsWith('.ghe.com')) return { host, apiHost: `api.${host}`,    apiPrefix: '' };
+	return { host, apiHost: host, apiPrefix: '/api/v3' };
+}
+
+/** Hosts of the given accounts, github.com always included. */
+export function knownHosts(accounts: readonly Pick<MacideAccount, 'host'>[]): string[] {
+	return [...new Set([DEFAULT_GITHUB_HOST, ...accounts.map(accountHost)])];
+}
+
+/** True when `hostname` carries Copilot (or GitHub API) traffic for accounts on `host`. */
+export function isCopilotDomainFor(hostname: string, host: string): boolean {
+	const domains = isDefaultHost(host) ? GITHUB_COM_COPILOT_DOMAINS : [host];
+	return domains.some(d => hostname === d || hostname.endsWith(`.${d}`));
+}
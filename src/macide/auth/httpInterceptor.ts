@@ -1,75 +1,503 @@
 /*---------------------------------------------------------------------------------------------
  * Macide — Multi-Account Copilot IDE
  * HTTP Interceptor for Copilot rate-limit detection.
- * Patches Node's https.request at the process level to watch Copilot API domains.
- * On 429: triggers account rotation. On success: increments usage counter.
+ * Watches Copilot API domains for the active account's host (github.com, GHE.com
+ * or GHES; see githubHost.ts) on every transport the extension host offers:
+ *   https.request / https.get   patched at the process level
+ *   global fetch                 wrapped; the Response is observed
+ *   undici dispatchers           the global dispatcher (and any passed to fetch)
+ *                                is patched for direct undici.request() callers
+ *   http2.connect                each session's request() streams are observed
+ * Each request is classified (see requestClassifier.ts); only Copilot categories
+ * count toward quota, REST and telemetry traffic is tallied separately.
+ * On 429 from Copilot: triggers account rotation. On success: records the request.
+ * Rate-limit headers on Copilot responses are recorded as the account's quota.
+ * With macide.accounts.retryOnRateLimit, https.request and fetch callers get a
+ * 429'd request replayed once on the next account (see rateLimitReplay.ts).
  *--------------------------------------------------------------------------------------------*/
 
-import * as https from 'https';
-import type { MacideAccount } from '../auth/provider';
+// `import = require` binds the real module objects; a namespace import would
+// give a read-only copy and the patches below would not take effect.
+import https = require('https');
+import http2 = require('http2');
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IncomingHttpHeaders } from 'http';
+import type { MacideAccount } from './provider';
 import type { AccountManager } from '../accounts/manager';
 import type { AccountTracker } from '../accounts/tracker';
 import type { AccountRotator } from './rotator';
+import { parseQuotaHeaders } from './quota';
+import { accountHost, isCopilotDomainFor } from './githubHost';
+import { classifyRequest } from './requestClassifier';
+import { MAX_REPLAY_BODY_BYTES, ReplayPolicy } from './rateLimitReplay';
 
-const COPILOT_DOMAINS = [
-	'copilot-proxy.githubusercontent.com',
-	'api.github.com',
-	'githubcopilot.com'
-];
+/** Where undici (and Node's built-in fetch) keep the process-wide dispatcher. */
+const GLOBAL_DISPATCHER = Symbol.for('undici.globalDispatcher.1');
 
-function isCopilotDomain(hostname: string): boolean {
-	return COPILOT_DOMAINS.some(d => hostname === d || hostname.endsWith(`.${d}`));
+/** The parts of an undici Dispatcher the interceptor touches. */
+interface UndiciDispatcher {
+	dispatch(opts: { origin?: string | URL; path?: string; headers?: unknown }, handler: UndiciHandler): boolean;
 }
 
-let _interceptInstalled = false;
+interface UndiciHandler {
+	/** undici ≤ 6 */
+	onHeaders?(statusCode: number, rawHeaders: Buffer[], ...rest: unknown[]): boolean;
+	/** undici ≥ 7 */
+	onResponseStart?(controller: unknown, statusCode: number, headers: IncomingHttpHeaders, ...rest: unknown[]): void;
+}
+
+/** A request to a watched domain, captured when it was sent. */
+interface WatchedRequest {
+	hostname: string;
+	path:     string;
+	/** Host of the account that was active when the request went out. */
+	host:     string;
+	/** The account that was active when the request went out. */
+	account:  MacideAccount;
+}
+
+interface InterceptorDeps {
+	accountManager: AccountManager;
+	tracker:        AccountTracker;
+	rotator:        AccountRotator;
+}
+
+let _deps: InterceptorDeps | undefined;
 const _originalRequest = https.request.bind(https);
+const _originalGet = https.get;
+const _originalConnect = http2.connect;
+const _originalFetch: typeof fetch | undefined = globalThis.fetch;
+/** Patched dispatchers → their original dispatch, for uninstall. */
+const _patchedDispatchers = new Map<UndiciDispatcher, UndiciDispatcher['dispatch']>();
+/** Set while a wrapped fetch runs, so its dispatcher call is not counted twice. */
+const _inFetch = new AsyncLocalStorage<boolean>();
+const _replay = new ReplayPolicy();
+
+/**
+ * The unpatched https.request. Use it for Macide's own calls on behalf of a
+ * non-active account (e.g. cooldown probes) so they are not counted against
+ * or rotated away from the active account.
+ */
+export const unpatchedRequest: typeof https.request = _originalRequest;
 
 export function installHttpInterceptor(
 	accountManager: AccountManager,
 	tracker: AccountTracker,
 	rotator: AccountRotator
 ): void {
-	if (_interceptInstalled) return;
-	_interceptInstalled = true;
+	if (_deps) return;
+	_deps = { accountManager, tracker, rotator };
+
+	_patchHttps();
+	_patchHttp2();
+	_patchFetch();
+}
 
-	// @ts-expect-error — patching https.request
+/** Turns transparent replay of 429'd requests on or off (macide.accounts.retryOnRateLimit). */
+export function configureRateLimitReplay(enabled: boolean, budgetPerHour: number): void {
+	_replay.configure(enabled, budgetPerHour);
+}
+
+export function uninstallHttpInterceptor(): void {
+	if (!_deps) return;
+	https.request = _originalRequest;
+	https.get = _originalGet;
+	http2.connect = _originalConnect;
+	if (_originalFetch) globalThis.fetch = _originalFetch;
+	for (const [dispatcher, dispatch] of _patchedDispatchers) dispatcher.dispatch = dispatch;
+	_patchedDispatchers.clear();
+	_deps = undefined;
+}
+
+// ── Shared bookkeeping ────────────────────────────────────────────────────────
+
+/** Returns the request if it goes to a Copilot domain of the active account's host. */
+function _watch(hostname: string, requestPath: string): WatchedRequest | undefined {
+	// Only traffic to the active account's host is attributed to it
+	const active = _deps?.accountManager.getActive();
+	const host = active ? accountHost(active) : undefined;
+	if (!active || !host || !isCopilotDomainFor(hostname, host)) return undefined;
+	return { hostname, path: requestPath, host, account: active };
+}
+
+/**
+ * Feeds one response to the tracker and rotator, whichever transport carried it.
+ * The outcome belongs to the account that sent the request, not whichever is
+ * active by the time the response arrives: the rest of a 429 burst must not
+ * exhaust the accounts rotation has moved on to.
+ * Returns the rotation a Copilot 429 started, so the caller may replay the request.
+ */
+function _complete(
+	target: WatchedRequest,
+	requestHeaders: Record<string, unknown> | undefined,
+	statusCode: number | undefined,
+	responseHeaders: IncomingHttpHeaders
+): Promise<MacideAccount | undefined> | undefined {
+	if (!_deps) return undefined;
+	const { accountManager, tracker, rotator } = _deps;
+	// The stored copy, in case the account was updated while the request ran
+	const account = accountManager.getAll().find(a => a.id === target.account.id);
+	if (!account) return undefined;
+
+	const category = classifyRequest(target.hostname, target.path, requestHeaders, target.host);
+	// REST and telemetry report their own limits, not Copilot quota
+	const copilotTraffic = category !== 'rest' && category !== 'telemetry';
+
+	const quota = copilotTraffic ? parseQuotaHeaders(responseHeaders) : undefined;
+	if (quota) tracker.recordQuota(account, quota);
+
+	if (statusCode === 429 && copilotTraffic) {
+		tracker.recordRateLimit(account);
+		// Already rotated away (earlier in the burst, or by hand): nothing to switch from
+		if (accountManager.getActive()?.id !== account.id) {
+			accountManager.updateUsage(account);
+			return undefined;
+		}
+		return rotator.onRateLimitDetected(account);
+	}
+	if (statusCode && statusCode >= 200 && statusCode < 300) {
+		tracker.recordRequest(account, category).catch(() => { /* silent */ });
+	} else if (quota) {
+		accountManager.updateUsage(account);
+	}
+	return undefined;
+}
+
+/**
+ * Waits for the rotation a 429 started and returns the Authorization header to
+ * replay with, or undefined when the request should fail through to the caller.
+ * `rotation` is always away from `target.account` (see _complete and
+ * onRateLimitDetected); the replay is dropped if rotation has since moved on.
+ */
+async function _replayAuthorization(
+	target: WatchedRequest,
+	requestHeaders: Record<string, unknown>,
+	rotation: Promise<MacideAccount | undefined>
+): Promise<{ account: MacideAccount; authorization: string } | undefined> {
+	const next = await rotation;
+	if (!next || _deps?.accountManager.getActive()?.id !== next.id) return undefined;
+	const authorization = await _replay.authorizationFor(
+		requestHeaders['authorization'] !== undefined ? String(requestHeaders['authorization']) : undefined,
+		target.account,
+		next
+	);
+	if (!authorization || !_replay.tryConsume()) return undefined;
+	return { account: next, authorization };
+}
+
+/** Lower-cased header record from the shapes fetch and undici hand around. */
+function _headerRecord(headers: unknown): Record<string, string> {
+	const record: Record<string, string> = {};
+	const add = (name: unknown, value: unknown) => {
+		if (name === undefined || value === undefined) return;
+		const key = String(name).toLowerCase();
+		record[key] = record[key] !== undefined ? `${record[key]}, ${value}` : String(value);
+	};
+
+	if (!headers) return record;
+	if (Array.isArray(headers)) {
+		// undici raw form: [name, value, name, value, …] (strings or Buffers)
+		if (headers.length && !Array.isArray(headers[0])) {
+			for (let i = 0; i + 1 < headers.length; i += 2) add(headers[i], headers[i + 1]);
+			return record;
+		}
+		for (const [name, value] of headers as unknown[][]) add(name, value);
+		return record;
+	}
+	if (typeof (headers as Headers).forEach === 'function' && typeof (headers as Headers).get === 'function') {
+		(headers as Headers).forEach((value, name) => add(name, value));
+		return record;
+	}
+	if (typeof headers === 'object') {
+		for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+			add(name, Array.isArray(value) ? value.join(', ') : value);
+		}
+	}
+	return record;
+}
+
+// ── https.request / https.get ─────────────────────────────────────────────────
+
+function _patchHttps(): void {
 	https.request = function macideInterceptedRequest(
 		urlOrOptions: string | URL | https.RequestOptions,
 		optionsOrCallback?: https.RequestOptions | ((res: any) => void),
 		callback?: (res: any) => void
 	): ReturnType<typeof https.request> {
-		const options: https.RequestOptions = typeof urlOrOptions === 'string' || urlOrOptions instanceof URL
-			? (optionsOrCallback as https.RequestOptions ?? {})
-			: urlOrOptions;
-
-		const hostname = options.hostname ?? options.host ?? '';
-
-		if (!isCopilotDomain(hostname)) {
-			// @ts-expect-error
-			return _originalRequest(urlOrOptions, optionsOrCallback, callback);
+		let target: WatchedRequest | undefined;
+		if (typeof urlOrOptions === 'string' || urlOrOptions instanceof URL) {
+			try {
+				const url = new URL(String(urlOrOptions));
+				target = _watch(url.hostname, url.pathname + url.search);
+			} catch {
+				target = undefined;
+			}
+		} else {
+			target = _watch(urlOrOptions.hostname ?? urlOrOptions.host ?? '', urlOrOptions.path ?? '');
 		}
 
 		// @ts-expect-error
 		const req: ReturnType<typeof https.request> = _originalRequest(urlOrOptions, optionsOrCallback, callback);
+		if (!target) return req;
+		if (_replay.enabled) {
+			_makeReplayable(req, target, urlOrOptions, optionsOrCallback);
+			return req;
+		}
 
 		req.on('response', (res: any) => {
-			const account = accountManager.getActive();
-			if (!account) return;
+			_complete(target, req.getHeaders(), res.statusCode, res.headers ?? {});
+		});
+		return req;
+	};
 
-			if (res.statusCode === 429) {
-				rotator.onRateLimitDetected(account);
-			} else if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-				tracker.increment(account).catch(() => { /* silent */ });
+	// Node's own https.get calls its module-internal request, not the export
+	https.get = function macideInterceptedGet(...args: unknown[]): ReturnType<typeof https.get> {
+		// @ts-expect-error — forwarding whichever overload the caller used
+		const req: ReturnType<typeof https.get> = https.request(...args);
+		req.end();
+		return req;
+	} as typeof https.get;
+}
+
+/**
+ * Buffers the request body and takes over `emit` so a 429 response can be
+ * swallowed and answered by a replay on the next account. While the replay
+ * runs, the original exchange is silent; the replay's response, error and
+ * close events are re-emitted on the caller's request object.
+ */
+function _makeReplayable(
+	req: ReturnType<typeof https.request>,
+	target: WatchedRequest,
+	urlOrOptions: string | URL | https.RequestOptions,
+	optionsOrCallback: https.RequestOptions | ((res: any) => void) | undefined
+): void {
+	let chunks: Buffer[] | undefined = [];
+	let size = 0;
+	const capture = (chunk: unknown, encoding?: unknown) => {
+		if (!chunks || chunk === undefined || chunk === null || typeof chunk === 'function') return;
+		const buf = typeof chunk === 'string'
+			? Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8')
+			: Buffer.from(chunk as Uint8Array);
+		size += buf.length;
+		if (size > MAX_REPLAY_BODY_BYTES) chunks = undefined;
+		else chunks.push(buf);
+	};
+
+	const write = req.write;
+	req.write = function (this: typeof req, chunk: any, ...rest: any[]) {
+		capture(chunk, rest[0]);
+		return (write as any).call(this, chunk, ...rest);
+	} as typeof req.write;
+	const end = req.end;
+	req.end = function (this: typeof req, chunk?: any, ...rest: any[]) {
+		capture(chunk, rest[0]);
+		return (end as any).call(this, chunk, ...rest);
+	} as typeof req.end;
+
+	let replay: ReturnType<typeof https.request> | undefined;
+	let replaying = false;
+	const destroy = req.destroy;
+	req.destroy = function (this: typeof req, error?: Error) {
+		replay?.destroy(error);
+		return destroy.call(this, error);
+	};
+
+	const emit = req.emit;
+	req.emit = function (this: typeof req, event: string | symbol, ...args: any[]): boolean {
+		// The original exchange is over; the replay speaks for this request now
+		if (replaying) return false;
+		if (event !== 'response') return emit.call(this, event, ...args);
+
+		const res = args[0];
+		const requestHeaders = req.getHeaders();
+		const rotation = _complete(target, requestHeaders, res.statusCode, res.headers ?? {});
+		const body = chunks;
+		if (!rotation || !body || !_replay.isReplayable(req.method, target.hostname, target.path, requestHeaders, target.host)) {
+			return emit.call(this, event, ...args);
+		}
+
+		replaying = true;
+		_replayAuthorization(target, requestHeaders, rotation).then(next => {
+			if (!next || req.destroyed) {
+				replaying = false;
+				emit.call(req, 'response', res);
+				return;
 			}
+			res.resume(); // discard the 429
+
+			const payload = Buffer.concat(body);
+			const headers = { ...requestHeaders, authorization: next.authorization } as Record<string, any>;
+			if (payload.length) headers['content-length'] = payload.length;
+			const replayTarget: WatchedRequest = { ...target, account: next.account };
+			const base = typeof urlOrOptions === 'string' || urlOrOptions instanceof URL
+				? (typeof optionsOrCallback === 'object' ? optionsOrCallback : {})
+				: urlOrOptions;
+			const options: https.RequestOptions = { ...base, method: req.method, headers };
+
+			replay = typeof urlOrOptions === 'string' || urlOrOptions instanceof URL
+				? _originalRequest(urlOrOptions, options)
+				: _originalRequest(options);
+			replay.on('response', replayRes => {
+				// No second replay: a 429 here reaches the caller
+				_complete(replayTarget, headers, replayRes.statusCode, replayRes.headers);
+				emit.call(req, 'response', replayRes);
+			});
+			replay.on('error', err => emit.call(req, 'error', err));
+			replay.on('close', () => emit.call(req, 'close'));
+			replay.end(payload);
+		}).catch(() => {
+			replaying = false;
+			emit.call(req, 'response', res);
 		});
+		return true;
+	};
+}
 
-		return req;
+// ── http2 ─────────────────────────────────────────────────────────────────────
+
+function _patchHttp2(): void {
+	http2.connect = function macideInterceptedConnect(
+		authority: string | URL,
+		...rest: unknown[]
+	): http2.ClientHttp2Session {
+		// @ts-expect-error — forwarding whichever overload the caller used
+		const session: http2.ClientHttp2Session = _originalConnect(authority, ...rest);
+		let hostname: string;
+		try {
+			hostname = new URL(String(authority)).hostname;
+		} catch {
+			return session;
+		}
+
+		const originalSessionRequest = session.request.bind(session);
+		session.request = function macideInterceptedStream(
+			headers?: http2.OutgoingHttpHeaders,
+			options?: http2.ClientSessionRequestOptions
+		): http2.ClientHttp2Stream {
+			const stream = originalSessionRequest(headers, options);
+			const target = _watch(hostname, String(headers?.[':path'] ?? '/'));
+			if (target) {
+				stream.on('response', responseHeaders => {
+					_complete(target, headers, Number(responseHeaders[':status']), responseHeaders);
+				});
+			}
+			return stream;
+		};
+		return session;
 	};
 }
 
-export function uninstallHttpInterceptor(): void {
-	if (!_interceptInstalled) return;
-	// @ts-expect-error
-	https.request = _originalRequest;
-	_interceptInstalled = false;
+// ── fetch / undici ────────────────────────────────────────────────────────────
+
+function _patchFetch(): void {
+	if (!_originalFetch) return;
+	const originalFetch = _originalFetch;
+
+	// Node creates its dispatcher on the first fetch; create it now (no network
+	// for data: URLs) so direct undici callers are covered from the start.
+	if (!(globalThis as any)[GLOBAL_DISPATCHER]) {
+		originalFetch('data:,').catch(() => { /* silent */ });
+	}
+	_patchGlobalDispatcher();
+
+	globalThis.fetch = async function macideInterceptedFetch(
+		input: string | URL | Request,
+		init?: RequestInit
+	): Promise<Response> {
+		// A replaced global dispatcher or one passed per call is patched on first sight
+		_patchGlobalDispatcher();
+		const dispatcher = (init as { dispatcher?: UndiciDispatcher } | undefined)?.dispatcher;
+		if (dispatcher) _patchDispatcher(dispatcher);
+
+		let target: WatchedRequest | undefined;
+		let requestHeaders: Record<string, string> | undefined;
+		try {
+			const url = new URL(input instanceof Request ? input.url : String(input));
+			target = _watch(url.hostname, url.pathname + url.search);
+			if (target) {
+				requestHeaders = _headerRecord(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+			}
+		} catch {
+			target = undefined;
+		}
+
+		const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+		const replayable = !!target && _replay.isReplayable(method, target.hostname, target.path, requestHeaders, target.host)
+			&& _isReplayableBody(init?.body);
+		// A Request's body can be read once; keep a copy for the replay
+		const replayInput = replayable && input instanceof Request ? input.clone() : input;
+
+		const response = await _inFetch.run(true, () => originalFetch(input, init));
+		if (!target) return response;
+
+		const rotation = _complete(target, requestHeaders, response.status, _headerRecord(response.headers));
+		if (!rotation || !replayable || !requestHeaders) return response;
+
+		const next = await _replayAuthorization(target, requestHeaders, rotation).catch(() => undefined);
+		if (!next) return response;
+
+		const headers = new Headers(init?.headers ?? (replayInput instanceof Request ? replayInput.headers : undefined));
+		headers.set('authorization', next.authorization);
+		try {
+			const replayed = await _inFetch.run(true, () => originalFetch(replayInput, { ...init, headers }));
+			response.body?.cancel().catch(() => { /* silent */ });
+			// No second replay: a 429 here reaches the caller
+			_complete({ ...target, account: next.account }, _headerRecord(headers), replayed.status, _headerRecord(replayed.headers));
+			return replayed;
+		} catch {
+			return response;
+		}
+	};
+}
+
+/** Bodies fetch can send twice: none, strings, byte buffers, form data and blobs — not streams. */
+function _isReplayableBody(body: unknown): boolean {
+	if (body === undefined || body === null) return true;
+	if (typeof body === 'string') return Buffer.byteLength(body) <= MAX_REPLAY_BODY_BYTES;
+	if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength <= MAX_REPLAY_BODY_BYTES;
+	if (body instanceof Blob) return body.size <= MAX_REPLAY_BODY_BYTES;
+	return body instanceof URLSearchParams || body instanceof FormData;
+}
+
+function _patchGlobalDispatcher(): void {
+	const dispatcher = (globalThis as any)[GLOBAL_DISPATCHER] as UndiciDispatcher | undefined;
+	if (dispatcher) _patchDispatcher(dispatcher);
+}
+
+function _patchDispatcher(dispatcher: UndiciDispatcher): void {
+	if (_patchedDispatchers.has(dispatcher) || typeof dispatcher.dispatch !== 'function') return;
+	const originalDispatch = dispatcher.dispatch;
+	_patchedDispatchers.set(dispatcher, originalDispatch);
+
+	dispatcher.dispatch = function macideInterceptedDispatch(opts, handler) {
+		// fetch observes its own Response
+		if (_inFetch.getStore()) return originalDispatch.call(this, opts, handler);
+
+		let target: WatchedRequest | undefined;
+		try {
+			target = opts.origin ? _watch(new URL(String(opts.origin)).hostname, opts.path ?? '/') : undefined;
+		} catch {
+			target = undefined;
+		}
+		if (target) _observeHandler(handler, target, _headerRecord(opts.headers));
+		return originalDispatch.call(this, opts, handler);
+	};
+}
+
+/** Hooks the response-start callback of an undici handler in place (keeps `this` and private fields intact). */
+function _observeHandler(handler: UndiciHandler, target: WatchedRequest, requestHeaders: Record<string, string>): void {
+	const onHeaders = handler.onHeaders;
+	const onResponseStart = handler.onResponseStart;
+
+	if (typeof onResponseStart === 'function') {
+		handler.onResponseStart = function (controller, statusCode, headers, ...rest) {
+			_complete(target, requestHeaders, statusCode, _headerRecord(headers));
+			return onResponseStart.call(this, controller, statusCode, headers, ...rest);
+		};
+	} else if (typeof onHeaders === 'function') {
+		handler.onHeaders = function (statusCode, rawHeaders, ...rest) {
+			_complete(target, requestHeaders, statusCode, _headerRecord(rawHeaders));
+			return onHeaders.call(this, statusCode, rawHeaders, ...rest);
+		};
+	}
 }
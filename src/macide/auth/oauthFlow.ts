@@ -7,8 +7,11 @@
  *   - Callback URL: not needed for Device Flow
  *   - Paste the resulting Client ID into the `macide.githubClientId` setting
  *     (or set MACIDE_GITHUB_CLIENT_ID env var at build time).
+ *   - For GHE.com / GitHub Enterprise Server, register an OAuth App on that host
+ *     and map host → Client ID in `macide.enterpriseClientIds`.
  *
  * Flow:
+ * Every step runs against the account's host (see githubHost.ts).
  *   1. POST /login/device/code   → device_code + user_code
  *   2. Open verification_uri in browser, show user_code in notification
  *   3. Poll /login/oauth/access_token every `interval` seconds
@@ -20,24 +23,24 @@ import * as https from 'https';
 import * as crypto from 'crypto';
 import * as vscode from 'vscode';
 import type { MacideAccount } from './provider';
+import { DEFAULT_GITHUB_HOST, endpointsFor, isDefaultHost } from './githubHost';
+import type { GitHubEndpoints } from './githubHost';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const GITHUB_API_HOST = 'github.com';
-const GITHUB_API_HOST_API = 'api.github.com';
-
 /**
  * Scopes requested from GitHub.
  * `read:user`  — profile info (id, login, avatar_url)
  * `repo`       — credential bridge for HTTPS git operations
+ * `user:email` — noreply address for the account's commit identity
  *
  * Note: "copilot" is NOT a real GitHub OAuth scope. Copilot access is
  * determined server-side by whether the account has an active subscription.
  * We map any request for ["copilot"] scope to our standard scope set.
  */
-const DEFAULT_SCOPES = ['read:user', 'repo'];
+export const DEFAULT_SCOPES = ['read:user', 'user:email', 'repo'];
 
 // ---------------------------------------------------------------------------
 // Types
@@ -71,14 +74,14 @@ interface GitHubUser {
 // ---------------------------------------------------------------------------
 
 /** Simple promisified HTTPS POST that sends/receives application/x-www-form-urlencoded. */
-function githubPost(path: string, body: Record<string, string>): Promise<Record<string, string>> {
+function githubPost(host: string, path: string, body: Record<string, string>): Promise<Record<string, string>> {
 	return new Promise((resolve, reject) => {
 		const encoded = Object.entries(body)
 			.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
 			.join('&');
 
 		const options: https.RequestOptions = {
-			hostname: GITHUB_API_HOST,
+			hostname: host,
 			path,
 			method: 'POST',
 			headers: {
@@ -107,12 +110,12 @@ function githubPost(path: string, body: Record<string, string>): Promise<Record<
 	});
 }
 
-/** GET from api.github.com with Bearer auth. */
-function githubGet<T>(apiPath: string, token: string): Promise<T> {
+/** GET from the host's REST API with Bearer auth. */
+function githubGet<T>(endpoints: GitHubEndpoints, apiPath: string, token: string): Promise<T> {
 	return new Promise((resolve, reject) => {
 		const options: https.RequestOptions = {
-			hostname: GITHUB_API_HOST_API,
-			path: apiPath,
+			hostname: endpoints.apiHost,
+			path: endpoints.apiPrefix + apiPath,
 			method: 'GET',
 			headers: {
 				'Authorization': `Bearer ${token}`,
@@ -159,10 +162,22 @@ export class OAuthFlow {
 	 * Reads the GitHub OAuth App Client ID from (in priority order):
 	 *   1. `MACIDE_GITHUB_CLIENT_ID` environment variable (set at build time)
 	 *   2. `macide.githubClientId` VS Code setting
+	 * Other hosts use their entry in `macide.enterpriseClientIds`.
 	 *
-	 * Throws if neither is configured, prompting the user to set it up.
+	 * Throws if nothing is configured, prompting the user to set it up.
 	 */
-	static resolveClientId(): string {
+	static resolveClientId(host: string = DEFAULT_GITHUB_HOST): string {
+		if (!isDefaultHost(host)) {
+			const ids = vscode.workspace.getConfiguration('macide').get<Record<string, string>>('enterpriseClientIds', {});
+			const forHost = ids[host];
+			if (forHost) return forHost;
+			throw new Error(
+				`Macide: No OAuth Client ID configured for ${host}.\n\n` +
+				`1. Register an OAuth App at https://${host}/settings/developers (enable Device Flow)\n` +
+				`2. Add "${host}": "<client id>" to the "macide.enterpriseClientIds" setting.`
+			);
+		}
+
 		// Build-time injection via product.json → process.env
 		const fromEnv = process.env['MACIDE_GITHUB_CLIENT_ID'];
 		if (fromEnv) return fromEnv;
@@ -185,11 +200,17 @@ export class OAuthFlow {
 	 * @param requestedScopes  Scopes originally requested by the caller (e.g. ["copilot"]).
 	 *                         These are normalised to real GitHub OAuth scopes internally.
 	 * @param alias            User-supplied label for the account (e.g. "Work", "Personal").
+	 * @param host             GitHub host to sign in to (github.com, *.ghe.com or a GHES hostname).
 	 */
-	async authorize(requestedScopes: readonly string[], alias?: string): Promise<MacideAccount> {
+	async authorize(
+		requestedScopes: readonly string[],
+		alias?: string,
+		host: string = DEFAULT_GITHUB_HOST
+	): Promise<MacideAccount> {
 		this._cancelled = false;
 
-		const clientId = OAuthFlow.resolveClientId();
+		const clientId = OAuthFlow.resolveClientId(host);
+		const endpoints = endpointsFor(host);
 
 		// Normalise: map any "copilot" pseudo-scope to real scopes
 		const scopes = requestedScopes.some(s => s === 'copilot')
@@ -199,7 +220,7 @@ export class OAuthFlow {
 		// -----------------------------------------------------------------------
 		// Step 1 — Request device code
 		// -----------------------------------------------------------------------
-		const deviceResp = (await githubPost('/login/device/code', {
+		const deviceResp = (await githubPost(host, '/login/device/code', {
 			client_id: clientId,
 			scope: scopes.join(' ')
 		})) as unknown as DeviceCodeResponse;
@@ -253,7 +274,7 @@ export class OAuthFlow {
 
 					await sleep(pollInterval);
 
-					const tokenResp = (await githubPost('/login/oauth/access_token', {
+					const tokenResp = (await githubPost(host, '/login/oauth/access_token', {
 						client_id: clientId,
 						device_code,
 						grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
@@ -263,7 +284,7 @@ export class OAuthFlow {
 						// -----------------------------------------------------------
 						// Step 4 — Fetch user info
 						// -----------------------------------------------------------
-						const user = await githubGet<GitHubUser>('/user', tokenResp.access_token);
+						const user = await githubGet<GitHubUser>(endpoints, '/user', tokenResp.access_token);
 
 						// -----------------------------------------------------------
 						// Step 5 — Build MacideAccount
@@ -277,6 +298,7 @@ export class OAuthFlow {
 							alias: alias ?? `Account ${user.login}`,
 							githubId: String(user.id),
 							githubUsername: user.login,
+							host,
 							avatarUrl: user.avatar_url,
 							token: tokenResp.access_token,
 							scopes: grantedScopes,
@@ -7,22 +7,35 @@
 import * as vscode from 'vscode';
 import { removeAccount } from './vault';
 import { AccountManager } from '../accounts/manager';
-import { OAuthFlow } from './oauthFlow';
+import { DEFAULT_SCOPES, OAuthFlow } from './oauthFlow';
+import type { AccountQuota } from './quota';
+import type { CopilotEntitlement } from './entitlement';
+import type { RequestCategory } from './requestClassifier';
+import type { CommitIdentity } from '../git/commitIdentity';
+import { accountHost, DEFAULT_GITHUB_HOST } from './githubHost';
 
 export interface MacideAccount {
 	id: string;               // UUID
 	alias: string;            // User-defined name e.g. "Account A"
 	githubId: string;
 	githubUsername: string;
+	host?: string;            // GitHub host (github.com, *.ghe.com, GHES); absent = github.com
 	avatarUrl: string;
 	token: string;            // OAuth access token
 	refreshToken?: string;
 	scopes: string[];
 	requestCount: number;     // Client-side daily count
 	requestCountDate: string; // ISO date of current count window
-	status: 'healthy' | 'warning' | 'exhausted' | 'idle';
+	requestsByCategory?: Partial<Record<RequestCategory, number>>; // Today's intercepted requests by kind
+	status: 'healthy' | 'warning' | 'exhausted' | 'idle' | 'revoked' | 'invalid';
 	addedAt: string;
 	lastUsedAt: string;
+	quota?: AccountQuota;     // Server-reported rate-limit state, when headers were seen
+	cooldownUntil?: string;   // ISO time the account may be probed again after a 429
+	rateLimitStrikes?: number; // Consecutive 429s without recovery (drives backoff)
+	copilot?: CopilotEntitlement; // Copilot seat / plan, once checked (see entitlement.ts)
+	sshKeyPath?: string;      // Private key for SSH remotes, mapped through ~/.ssh/config (see sshConfig.ts)
+	commitIdentity?: CommitIdentity; // Author name / email / signing key for repos routed here (see commitIdentity.ts)
 }
 
 export class MacideGitHubAuthProvider implements vscode.AuthenticationProvider, vscode.Disposable {
@@ -45,11 +58,20 @@ export class MacideGitHubAuthProvider implements vscode.AuthenticationProvider,
 
 	async getSessions(scopes?: readonly string[]): Promise<vscode.AuthenticationSession[]> {
 		const active = this.accountManager.getActive();
-		if (!active) return [];
+		// Never hand out a token the validator found dead (see tokenValidator.ts)
+		if (!active || active.status === 'revoked' || active.status === 'invalid') return [];
 		return [this._buildSession(active)];
 	}
 
 	async createSession(scopes: readonly string[]): Promise<vscode.AuthenticationSession> {
+		return this.signIn(scopes, DEFAULT_GITHUB_HOST);
+	}
+
+	/**
+	 * Adds an account on `host` via the Device Flow and makes it active.
+	 * createSession uses github.com; macide.addEnterpriseAccount passes its host.
+	 */
+	async signIn(scopes: readonly string[], host: string): Promise<vscode.AuthenticationSession> {
 		// Cancel any previous in-progress flow
 		this._activeFlow?.cancel();
 
@@ -57,7 +79,7 @@ export class MacideGitHubAuthProvider implements vscode.AuthenticationProvider,
 		this._activeFlow = flow;
 
 		try {
-			const account = await flow.authorize(scopes);
+			const account = await flow.authorize(scopes, undefined, host);
 
 			// Persist into vault and register with the account manager
 			await this.accountManager.addAccount(account);
@@ -73,8 +95,43 @@ export class MacideGitHubAuthProvider implements vscode.AuthenticationProvider,
 		}
 	}
 
+	/**
+	 * Runs the Device Flow again for an existing account whose token was revoked
+	 * or invalidated, keeping its id, alias and usage history.
+	 * Throws if the user signs in as a different GitHub user.
+	 */
+	async reauthorize(account: MacideAccount): Promise<void> {
+		this._activeFlow?.cancel();
+
+		const flow = new OAuthFlow();
+		this._activeFlow = flow;
+
+		try {
+			// Accounts signed in before a scope joined the defaults (e.g. user:email) pick it up here
+			const fresh = await flow.authorize([...DEFAULT_SCOPES, ...account.scopes], account.alias, accountHost(account));
+			if (fresh.githubId !== account.githubId) {
+				throw new Error(
+					`Signed in as @${fresh.githubUsername}, but "${account.alias}" belongs to @${account.githubUsername}.`
+				);
+			}
+
+			const isActive = this.accountManager.getActive()?.id === account.id;
+			account.token          = fresh.token;
+			account.scopes         = fresh.scopes;
+			account.githubUsername = fresh.githubUsername;
+			account.avatarUrl      = fresh.avatarUrl;
+			this.accountManager.transition(account, 'idle', 'user', 'Re-authorized via Device Flow');
+			if (isActive) this.accountManager.transition(account, 'healthy', 'user', 'Re-authorized via Device Flow');
+			await this.accountManager.updateAccount(account);
+
+			if (isActive) this.notifySessionChanged(account);
+		} finally {
+			this._activeFlow = undefined;
+		}
+	}
+
 	async removeSession(sessionId: string): Promise<void> {
-		await removeAccount(this.context.secrets, sessionId);
+		await removeAccount(this.context, sessionId);
 		this._sessionChangeEmitter.fire({ added: [], removed: [{ id: sessionId, accessToken: '', account: { id: sessionId, label: '' }, scopes: [] }], changed: [] });
 	}
 
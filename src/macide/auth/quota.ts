@@ -0,0 +1,164 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Server-reported quota — parses rate-limit headers into per-account quota state.
+ *
+ * Recognised headers:
+ *   Retry-After                  — seconds or HTTP-date (sent with 429 / 403)
+ *   x-ratelimit-limit            — requests allowed in the current window
+ *   x-ratelimit-remaining        — requests left in the current window
+ *   x-ratelimit-reset            — epoch seconds (GitHub REST) or seconds from now
+ *   x-quota-snapshot-<category>  — Copilot quota snapshot, URL-encoded pairs:
+ *                                  ent (entitlement, -1 = unlimited),
+ *                                  rem (percent remaining), rst (reset timestamp)
+ *
+ * The assumed daily limit in AccountTracker is only used when none of these
+ * headers have been seen for an account.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { IncomingHttpHeaders } from 'http';
+
+export interface AccountQuota {
+	/** Requests allowed in the current window, when the server reports it. */
+	limit?:      number;
+	/** Requests left in the current window. */
+	remaining?:  number;
+	/** ISO timestamp at which the server says the window resets. */
+	resetAt?:    string;
+	/** ISO timestamp before which the server asked us not to retry (Retry-After). */
+	retryAfter?: string;
+	/** ISO timestamp of the response the values were read from. */
+	updatedAt:   string;
+}
+
+/** Epoch seconds are ~1.7e9 today; anything smaller is treated as a relative delta. */
+const EPOCH_SECONDS_MIN = 1_000_000_000;
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+	const value = headers[name];
+	return Array.isArray(value) ? value[0] : value;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+	if (value === undefined || value.trim() === '') return undefined;
+	const n = Number(value);
+	return Number.isFinite(n) ? n : undefined;
+}
+
+/** Parses a Retry-After value (delta seconds or HTTP-date) into an absolute time. */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): Date | undefined {
+	if (!value) return undefined;
+	const seconds = toNumber(value);
+	if (seconds !== undefined) return new Date(now + Math.max(0, seconds) * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : new Date(date);
+}
+
+/** Parses an x-ratelimit-reset value (epoch seconds or delta seconds) into an absolute time. */
+function parseReset(value: string | undefined, now: number): Date | undefined {
+	const n = toNumber(value);
+	if (n === undefined) return undefined;
+	return n >= EPOCH_SECONDS_MIN ? new Date(n * 1000) : new Date(now + n * 1000);
+}
+
+/**
+ * Reads the tightest Copilot quota snapshot from `x-quota-snapshot-*` headers.
+ * Unlimited entitlements (ent = -1) are ignored.
+ */
+function parseQuotaSnapshots(headers: IncomingHttpHeaders): Partial<AccountQuota> | undefined {
+	let tightest: Partial<AccountQuota> | undefined;
+	for (const name of Object.keys(headers)) {
+		if (!name.startsWith('x-quota-snapshot-')) continue;
+		const params = new URLSearchParams(header(headers, name) ?? '');
+		const ent = toNumber(params.get('ent') ?? undefined);
+		const rem = toNumber(params.get('rem') ?? undefined);
+		if (ent === undefined || ent < 0 || rem === undefined) continue;
+
+		const remaining = Math.max(0, Math.floor(ent * rem / 100));
+		if (tightest?.remaining !== undefined && tightest.remaining <= remaining) continue;
+
+		const rst = params.get('rst');
+		const resetMs = rst ? Date.parse(rst) : NaN;
+		tightest = {
+			limit: ent,
+			remaining,
+			resetAt: Number.isNaN(resetMs) ? undefined : new Date(resetMs).toISOString()
+		};
+	}
+	return tightest;
+}
+
+/**
+ * Extracts quota information from a response's headers.
+ * Returns undefined when the response carries no rate-limit headers at all.
+ */
+export function parseQuotaHeaders(headers: IncomingHttpHeaders, now: number = Date.now()): AccountQuota | undefined {
+	const snapshot   = parseQuotaSnapshots(headers);
+	const limit      = toNumber(header(headers, 'x-ratelimit-limit'));
+	const remaining  = toNumber(header(headers, 'x-ratelimit-remaining'));
+	const reset      = parseReset(header(headers, 'x-ratelimit-reset'), now);
+	const retryAfter = parseRetryAfter(header(headers, 'retry-after'), now);
+
+	if (!snapshot && limit === undefined && remaining === undefined && !reset && !retryAfter) {
+		return undefined;
+	}
+
+	// Copilot snapshots describe the Copilot quota itself, so they win over the
+	// generic x-ratelimit-* headers when both are present.
+	return {
+		limit:      snapshot?.limit ?? limit,
+		remaining:  snapshot?.remaining ?? remaining,
+		resetAt:    snapshot?.resetAt ?? reset?.toISOString(),
+		retryAfter: retryAfter?.toISOString(),
+		updatedAt:  new Date(now).toISOString()
+	};
+}
+
+/** Merges freshly parsed values over the previous quota, keeping fields the new response omitted. */
+export function mergeQuota(previous: AccountQuota | undefined, next: AccountQuota): AccountQuota {
+	return {
+		limit:      next.limit      ?? previous?.limit,
+		remaining:  next.remaining  ?? previous?.remaining,
+		resetAt:    next.resetAt    ?? previous?.resetAt,
+		retryAfter: next.retryAfter ?? previous?.retryAfter,
+		updatedAt:  next.updatedAt
+	};
+}
+
+/** Time the server says the account can be used again, if it told us and it is still ahead. */
+export function quotaRecoveryTime(quota: AccountQuota | undefined, now: number = Date.now()): Date | undefined {
+	if (!quota) return undefined;
+	const candidates = [quota.retryAfter, quota.remaining === 0 ? quota.resetAt : undefined]
+		.map(t => (t ? Date.parse(t) : NaN))
+		.filter(t => !Number.isNaN(t) && t > now);
+	return candidates.length ? new Date(Math.max(...candidates)) : undefined;
+}
+
+/** True when the server-reported quota says the account is unusable right now. */
+export function isQuotaExhausted(quota: AccountQuota | undefined, now: number = Date.now()): boolean {
+	return quotaRecoveryTime(quota, now) !== undefined;
+}
+
+/**
+ * Fraction (0–1) of the server-reported quota already used, or undefined when
+ * the server has not reported both a limit and a remaining count.
+ */
+export function quotaUsedFraction(quota: AccountQuota | undefined, now: number = Date.now()): number | undefined {
+	if (!quota || quota.limit === undefined || quota.remaining === undefined || quota.limit <= 0) return undefined;
+	// A reset time in the past means the window rolled over since the last response
+	if (quota.resetAt && Date.parse(quota.resetAt) <= now) return 0;
+	return Math.min(1, Math.max(0, (quota.limit - quota.remaining) / quota.limit));
+}
+
+/**
+ * Short human-readable quota summary, e.g. "95/300 remaining · resets 14:05".
+ * Returns undefined when the server has not reported a usable quota.
+ */
+export function describeQuota(quota: AccountQuota | undefined, now: number = Date.now()): string | undefined {
+	if (quotaUsedFraction(quota, now) === undefined || !quota) return undefined;
+	const resetMs = quota.resetAt ? Date.parse(quota.resetAt) : NaN;
+	if (!Number.isNaN(resetMs) && resetMs <= now) return `${quota.limit}/${quota.limit} remaining`;
+	const reset = Number.isNaN(resetMs)
+		? ''
+		: ` · resets ${new Date(resetMs).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+	return `${quota.remaining}/${quota.limit} remaining${reset}`;
+}
@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Rate-Limit Replay — policy for retrying a 429'd Copilot request on the next account.
+ *
+ * Opt-in (macide.accounts.retryOnRateLimit). The interceptor buffers the body
+ * of replayable requests; when one comes back 429 and the rotator switches
+ * accounts, the request is sent again once with the new account's credentials
+ * and the caller only ever sees the replayed response.
+ *
+ * Guards:
+ *   - replayable = idempotent method, or a Copilot generation request (completion,
+ *     chat, edit, embeddings — no server-side effects), with a buffered body
+ *     no larger than MAX_REPLAY_BODY_BYTES
+ *   - each request is replayed at most once, and only onto a different account
+ *     on the same host; a 429 on the replay reaches the caller as-is
+ *   - only the rotation away from the account that sent the request counts:
+ *     a 429 that arrives after rotation already moved on is passed through
+ *   - at most `budget` replays per rolling hour across all requests
+ *--------------------------------------------------------------------------------------------*/
+
+import type { MacideAccount } from './provider';
+import { fetchCopilotToken } from './entitlement';
+import { accountHost, endpointsFor } from './githubHost';
+import { classifyRequest, isCopilotCategory } from './requestClassifier';
+
+export const MAX_REPLAY_BODY_BYTES = 8 * 1024 * 1024;
+
+const BUDGET_WINDOW_MS = 60 * 60 * 1000;
+/** Refresh a cached Copilot session token this long before it expires. */
+const TOKEN_EXPIRY_SLACK_MS = 60_000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export class ReplayPolicy {
+	private _enabled = false;
+	private _budget = 20;
+	/** Times of recent replays, oldest first. */
+	private readonly _recent: number[] = [];
+	/** Copilot session tokens per account id, for rewriting Bearer headers. */
+	private readonly _sessionTokens = new Map<string, { token: string; expiresAt: number }>();
+
+	get enabled(): boolean {
+		return this._enabled;
+	}
+
+	configure(enabled: boolean, budgetPerHour: number): void {
+		this._enabled = enabled;
+		this._budget = Math.max(0, Math.floor(budgetPerHour));
+	}
+
+	/** Whether a request may be buffered for replay, judged when it is sent. */
+	isReplayable(
+		method: string | undefined,
+		hostname: string,
+		requestPath: string,
+		headers: Record<string, unknown> | undefined,
+		host: string
+	): boolean {
+		if (!this._enabled) return false;
+		const m = (method ?? 'GET').toUpperCase();
+		return IDEMPOTENT_METHODS.has(m)
+			|| (m === 'POST' && isCopilotCategory(classifyRequest(hostname, requestPath, headers, host)));
+	}
+
+	/** Takes one replay from the hourly budget. False when it is spent. */
+	tryConsume(now: number = Date.now()): boolean {
+		while (this._recent.length && now - this._recent[0] >= BUDGET_WINDOW_MS) this._recent.shift();
+		if (this._recent.length >= this._budget) return false;
+		this._recent.push(now);
+		return true;
+	}
+
+	/**
+	 * The Authorization header to replay with on `to`, or undefined when the
+	 * request cannot be moved to that account.
+	 *   - the old account's OAuth token (REST-style calls) → the new OAuth token
+	 *   - anything else (a Copilot session token)          → a fresh session token for `to`
+	 */
+	async authorizationFor(
+		original: string | undefined,
+		from: MacideAccount,
+		to: MacideAccount
+	): Promise<string | undefined> {
+		if (to.id === from.id || accountHost(to) !== accountHost(from)) return undefined;
+		if (!original) return undefined;
+		if (original.includes(from.token)) return original.replace(from.token, to.token);
+
+		const cached = this._sessionTokens.get(to.id);
+		if (cached && cached.expiresAt - TOKEN_EXPIRY_SLACK_MS > Date.now()) {
+			return `Bearer ${cached.token}`;
+		}
+		const fresh = await fetchCopilotToken(to.token, endpointsFor(accountHost(to)));
+		if (!fresh) return undefined;
+		this._sessionTokens.set(to.id, fresh);
+		return `Bearer ${fresh.token}`;
+	}
+}
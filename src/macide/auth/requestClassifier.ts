@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Request Classifier — what kind of traffic did the interceptor just see?
+ *
+ * Copilot and plain GitHub traffic share domains (api.github.com serves both
+ * REST calls such as /user and the Copilot token exchange), so the host alone
+ * says nothing about quota. Classification by host, path and intent header:
+ *
+ *   completion  …/completions (not under /chat/)         counted
+ *   chat        …/chat/completions, …/responses           counted
+ *   edit        chat request with an edit intent          counted
+ *   embeddings  …/embeddings                              counted
+ *   telemetry   telemetry hosts and …/telemetry paths     not counted
+ *   rest        the account's GitHub REST API host        not counted
+ *   other       anything else on a Copilot domain         not counted
+ *--------------------------------------------------------------------------------------------*/
+
+import { endpointsFor } from './githubHost';
+
+/** Categories that consume Copilot quota. */
+export type CopilotCategory = 'completion' | 'chat' | 'edit' | 'embeddings';
+
+export type RequestCategory = CopilotCategory | 'telemetry' | 'rest' | 'other';
+
+export const COPILOT_CATEGORIES: readonly CopilotCategory[] = ['completion', 'chat', 'edit', 'embeddings'];
+
+export const REQUEST_CATEGORIES: readonly RequestCategory[] = [...COPILOT_CATEGORIES, 'telemetry', 'rest', 'other'];
+
+/** Header Copilot Chat uses to say which surface sent the request. */
+const INTENT_HEADER = 'openai-intent';
+
+export function isCopilotCategory(category: RequestCategory): category is CopilotCategory {
+	return (COPILOT_CATEGORIES as readonly RequestCategory[]).includes(category);
+}
+
+function headerValue(headers: Record<string, unknown> | undefined, name: string): string {
+	if (!headers) return '';
+	const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+	const value = key ? headers[key] : undefined;
+	return Array.isArray(value) ? value.join(',') : typeof value === 'string' ? value : '';
+}
+
+/**
+ * Classifies one outgoing request made on behalf of an account on `host`.
+ * `requestPath` may include a query string; it is ignored.
+ */
+export function classifyRequest(
+	hostname: string,
+	requestPath: string,
+	headers: Record<string, unknown> | undefined,
+	host: string
+): RequestCategory {
+	const p = requestPath.split('?')[0].toLowerCase();
+	const h = hostname.toLowerCase();
+
+	if (h.includes('telemetry') || p.includes('/telemetry')) return 'telemetry';
+
+	// The REST host also serves copilot_internal (token exchange) — plumbing, not quota
+	const { apiHost, apiPrefix } = endpointsFor(host);
+	if (h === apiHost && (!apiPrefix || p.startsWith(apiPrefix))) return 'rest';
+
+	if (p.endsWith('/embeddings')) return 'embeddings';
+	if (p.endsWith('/chat/completions') || p.endsWith('/responses')) {
+		return /edit/i.test(headerValue(headers, INTENT_HEADER)) ? 'edit' : 'chat';
+	}
+	if (p.endsWith('/completions')) return 'completion';
+	return 'other';
+}
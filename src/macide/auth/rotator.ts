@@ -2,18 +2,55 @@
  * Macide — Multi-Account Copilot IDE
  * Account Auto-Rotation Logic.
  * Handles rate-limit detection responses and switches to the next available account.
+ * Rate-limited accounts enter a cooldown (server Retry-After / reset time, else
+ * exponential backoff). When it expires the account is probed and restored.
+ * Optional pre-emptive mode rotates away before the limit is hit, with a
+ * sticky margin so two nearly-exhausted accounts do not flap.
  *--------------------------------------------------------------------------------------------*/
 
 import type { MacideAccount } from './provider';
 import type { AccountManager } from '../accounts/manager';
 import type { NotificationService } from '../ui/notifications/notificationService';
+import { isQuotaExhausted, mergeQuota, quotaRecoveryTime } from './quota';
+import { probeCopilotAccess } from './copilotProbe';
+import { needsReauth } from './tokenValidator';
+import type { TokenValidator } from './tokenValidator';
+import { accountHost, endpointsFor } from './githubHost';
 
-export type RotationStrategy = 'round-robin' | 'least-used' | 'manual';
+export type RotationStrategy = 'round-robin' | 'least-used' | 'priority' | 'weighted' | 'manual';
+
+/** First cooldown without a server-provided window; doubles per consecutive 429. */
+const COOLDOWN_BASE_MS = 60 * 1000;
+const COOLDOWN_MAX_MS  = 60 * 60 * 1000;
+
+/**
+ * Weighted strategy: how many requests the active account may run ahead of its
+ * proportional share before it is rotated out. Keeps switches batched.
+ */
+const WEIGHTED_REBALANCE_SLACK = 10;
+
+function backoffDelay(strikes: number): number {
+	return Math.min(COOLDOWN_BASE_MS * 2 ** Math.max(0, strikes - 1), COOLDOWN_MAX_MS);
+}
 
 export class AccountRotator {
 	private _strategy: RotationStrategy = 'round-robin';
+	private _priorityOrder: string[] = [];
+	private _weights: Record<string, number> = {};
+	/** Usage fraction (0–1) at which to rotate pre-emptively; undefined = off. */
+	private _preemptiveThreshold: number | undefined;
+	/** Hysteresis: a pre-emptive target must sit this far (0–1) below the threshold. */
+	private _stickyMargin = 0.1;
+	/** Usage lookup, wired to AccountTracker.getUsagePercent on activation. */
+	private _usageOf: (account: MacideAccount) => number = () => 0;
+	/** Checks tokens the cooldown probe was refused with, wired on activation. */
+	private _tokenValidator: TokenValidator | undefined;
 	/** Prevents multiple simultaneous rotation calls from stacking. */
 	private _rotating = false;
+	/** The in-flight rotation started by a 429, shared by every request caught in the burst. */
+	private _rateLimitRotation: { from: string; rotation: Promise<MacideAccount | undefined> } | undefined;
+	/** Pending cooldown expiries, keyed by account id. */
+	private readonly _cooldownTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
 	constructor(
 		private readonly accountManager: AccountManager,
@@ -28,19 +65,117 @@ export class AccountRotator {
 		this._strategy = value;
 	}
 
+	/** Account ids in preference order, used by the 'priority' strategy. */
+	set priorityOrder(ids: string[]) {
+		this._priorityOrder = [...ids];
+	}
+
+	/** Account id → relative weight, used by the 'weighted' strategy. Missing ids weigh 1. */
+	set weights(weights: Record<string, number>) {
+		this._weights = { ...weights };
+	}
+
+	/** Usage fraction (0–1) at which to rotate before a 429; undefined disables pre-emptive rotation. */
+	set preemptiveThreshold(value: number | undefined) {
+		this._preemptiveThreshold = value === undefined ? undefined : Math.min(1, Math.max(0, value));
+	}
+
+	/** Fraction (0–1) below the pre-emptive threshold an account must be to rotate onto it. */
+	set stickyMargin(value: number) {
+		this._stickyMargin = Math.min(1, Math.max(0, value));
+	}
+
+	set usageOf(fn: (account: MacideAccount) => number) {
+		this._usageOf = fn;
+	}
+
+	set tokenValidator(validator: TokenValidator) {
+		this._tokenValidator = validator;
+	}
+
+	/**
+	 * True when pre-emptive rotation is on and the account is inside the sticky
+	 * band (threshold minus margin). Such accounts are not rotated onto
+	 * pre-emptively and are not scheduled back in.
+	 */
+	isNearLimit(account: MacideAccount): boolean {
+		if (this._preemptiveThreshold === undefined) return false;
+		return this._usageOf(account) >= this._preemptiveThreshold - this._stickyMargin;
+	}
+
+	/**
+	 * Called by the tracker after each counted request. Under the 'weighted'
+	 * strategy, rotates away from the active account once it has run
+	 * WEIGHTED_REBALANCE_SLACK requests ahead of its proportional share.
+	 */
+	onRequestCounted(account: MacideAccount): void {
+		if (this._rotating) return;
+		if (this.accountManager.getActive()?.id !== account.id) return;
+		if (this._rotatePreemptively(account)) return;
+		if (this._strategy !== 'weighted') return;
+		// Bindings, schedules and manual picks are deliberate; only rebalance rotated/restored accounts
+		const source = this.accountManager.activeSource;
+		if (source === 'manual' || source === 'binding' || source === 'schedule') return;
+
+		const next = this.selectNext(candidate => !this.isNearLimit(candidate));
+		// A weight 0 account has no share to compare against
+		if (!next || this._weightOf(next) === 0) return;
+		const fairShare = this._weightOf(account) * (next.requestCount / this._weightOf(next));
+		if (account.requestCount - fairShare < WEIGHTED_REBALANCE_SLACK) return;
+
+		this._rotating = true;
+		this.accountManager.setActive(next, 'rotation')
+			.catch(() => { /* silent */ })
+			.finally(() => { this._rotating = false; });
+	}
+
+	/**
+	 * Pre-emptive mode: once the active account crosses the threshold, move to an
+	 * account with at least the sticky margin of headroom. If none has, stay put
+	 * and let the real 429 trigger normal rotation.
+	 */
+	private _rotatePreemptively(account: MacideAccount): boolean {
+		if (this._preemptiveThreshold === undefined || this._strategy === 'manual') return false;
+		const usage = this._usageOf(account);
+		if (usage < this._preemptiveThreshold) return false;
+
+		const next = this.selectNext(candidate => !this.isNearLimit(candidate));
+		if (!next) return false;
+
+		this._rotating = true;
+		this.accountManager.setActive(next, 'rotation')
+			.then(() => {
+				this.notifications.info(
+					`"${account.alias}" is at ${Math.round(usage * 100)}% of its limit — switched to "${next.alias}" (@${next.githubUsername}).`
+				);
+			})
+			.catch(() => { /* silent */ })
+			.finally(() => { this._rotating = false; });
+		return true;
+	}
+
 	/**
 	 * Called when a 429 or quota exhaustion is detected on a Copilot API domain.
 	 * Marks the current account exhausted and switches to the next available one.
-	 * Safe to call from a synchronous response listener — all async work is fire-and-forget
-	 * with proper error swallowing so it never crashes the interceptor.
+	 * Safe to call from a synchronous response listener — the returned promise
+	 * never rejects. It resolves to the account switched to, or undefined when
+	 * no switch happened (manual strategy, nothing usable, another rotation running).
+	 * A 429 joins the in-flight rotation only if that rotation is away from the
+	 * same account, so a caller replaying on the result never lands on an
+	 * account some other request rotated to.
 	 */
-	onRateLimitDetected(account: MacideAccount): void {
-		if (this._rotating) return;          // debounce burst of 429s
+	onRateLimitDetected(account: MacideAccount): Promise<MacideAccount | undefined> {
+		// debounce burst of 429s
+		if (this._rotating) {
+			const inFlight = this._rateLimitRotation;
+			return inFlight?.from === account.id ? inFlight.rotation : Promise.resolve(undefined);
+		}
 		this._rotating = true;
 
 		const exhaustedAlias = account.alias;
 
-		account.status = 'exhausted';
+		this.accountManager.transition(account, 'exhausted', 'rotator', 'Copilot rate limit hit');
+		this.startCooldown(account);
 		this.accountManager.updateAccount(account).catch(() => { /* silent */ });
 
 		if (this._strategy === 'manual') {
@@ -49,29 +184,33 @@ export class AccountRotator {
 				`"${exhaustedAlias}" hit the Copilot rate limit.`,
 				{ label: 'Switch Account', action: () => this.accountManager.openAccountPanel() }
 			);
-			return;
+			return Promise.resolve(undefined);
 		}
 
 		const next = this.selectNext();
 		if (!next) {
 			this._rotating = false;
 			this.notifications.error(
-				'All accounts exhausted. Add a new account or wait for the daily reset.',
+				'All accounts exhausted. Add a new account or wait for a cooldown to expire.',
 				{ label: 'Open Account Panel', action: () => this.accountManager.openAccountPanel() }
 			);
-			return;
+			return Promise.resolve(undefined);
 		}
 
-		this.accountManager.setActive(next)
+		const rotation = this.accountManager.setActive(next, 'rotation')
 			.then(() => {
 				this.notifications.info(
 					`Rate limit hit on "${exhaustedAlias}" — switched to "${next.alias}" (@${next.githubUsername}).`
 				);
+				return next;
 			})
-			.catch(() => { /* silent */ })
+			.catch(() => undefined)
 			.finally(() => {
 				this._rotating = false;
+				this._rateLimitRotation = undefined;
 			});
+		this._rateLimitRotation = { from: account.id, rotation };
+		return rotation;
 	}
 
 	/**
@@ -93,7 +232,7 @@ export class AccountRotator {
 			return false;
 		}
 
-		await this.accountManager.setActive(next);
+		await this.accountManager.setActive(next, 'rotation');
 		this.notifications.info(`Switched to "${next.alias}" (@${next.githubUsername}).`);
 		return true;
 	}
@@ -114,11 +253,13 @@ export class AccountRotator {
 
 	/**
 	 * Selects the next account based on the current strategy.
+	 * `accept` narrows the candidates further (e.g. enough headroom for pre-emptive rotation).
 	 * Returns null if no healthy account is available.
 	 */
-	selectNext(): MacideAccount | null {
+	selectNext(accept: (account: MacideAccount) => boolean = () => true): MacideAccount | null {
+		const usable = (a: MacideAccount): boolean => this.isUsable(a) && accept(a);
 		const available = this.accountManager.getAll()
-			.filter(a => a.status !== 'exhausted');
+			.filter(usable);
 
 		if (available.length === 0) return null;
 
@@ -132,7 +273,7 @@ export class AccountRotator {
 			// Walk forward from current index, wrapping around
 			for (let i = 1; i <= allAccounts.length; i++) {
 				const candidate = allAccounts[(currentIndex + i) % allAccounts.length];
-				if (candidate.status !== 'exhausted') return candidate;
+				if (usable(candidate)) return candidate;
 			}
 			return null;
 		}
@@ -145,11 +286,159 @@ export class AccountRotator {
 			return [...candidates].sort((a, b) => a.requestCount - b.requestCount)[0];
 		}
 
+		if (this._strategy === 'priority') {
+			// Walk the preference list top-down and take the first usable account
+			const currentId = this.accountManager.getActive()?.id;
+			return this.priorityRanked().find(a => a.id !== currentId && usable(a)) ?? null;
+		}
+
+		if (this._strategy === 'weighted') {
+			// Pick the account furthest below its proportional share; weight 0 is last resort
+			const current = this.accountManager.getActive();
+			const candidates = available.filter(a => a.id !== current?.id);
+			if (candidates.length === 0) return null;
+			const weighted = candidates.filter(a => this._weightOf(a) > 0);
+			// Last resort means nothing else is usable, the current account included
+			const currentUsable = !!current && this._weightOf(current) > 0 && usable(current);
+			if (!weighted.length && currentUsable) return null;
+			const pool = weighted.length ? weighted : candidates;
+			return [...pool].sort((a, b) =>
+				a.requestCount / Math.max(this._weightOf(a), Number.EPSILON) -
+				b.requestCount / Math.max(this._weightOf(b), Number.EPSILON)
+			)[0];
+		}
+
 		return null;
 	}
 
+	/** All accounts in priority order: listed ids first, then the rest in vault order. */
+	priorityRanked(): MacideAccount[] {
+		const all = this.accountManager.getAll();
+		const listed = this._priorityOrder
+			.map(id => all.find(a => a.id === id))
+			.filter((a): a is MacideAccount => !!a);
+		return [...listed, ...all.filter(a => !listed.includes(a))];
+	}
+
+	private _weightOf(account: MacideAccount): number {
+		const weight = this._weights[account.id];
+		return typeof weight === 'number' && weight >= 0 ? weight : 1;
+	}
+
+	/**
+	 * Puts a rate-limited account into cooldown. The window comes from the
+	 * server (Retry-After, or the quota reset when remaining is 0) and falls
+	 * back to exponential backoff on consecutive 429s.
+	 */
+	startCooldown(account: MacideAccount): void {
+		const strikes = (account.rateLimitStrikes ?? 0) + 1;
+		account.rateLimitStrikes = strikes;
+		const until = quotaRecoveryTime(account.quota) ?? new Date(Date.now() + backoffDelay(strikes));
+		account.cooldownUntil = until.toISOString();
+		this._scheduleCooldownEnd(account);
+	}
+
+	/** Re-arms cooldown timers persisted in the vault (call once on activation). */
+	resumeCooldowns(): void {
+		for (const account of this.accountManager.getAll()) {
+			if (account.cooldownUntil) this._scheduleCooldownEnd(account);
+		}
+	}
+
+	private _scheduleCooldownEnd(account: MacideAccount): void {
+		clearTimeout(this._cooldownTimers.get(account.id));
+		const until = account.cooldownUntil ? Date.parse(account.cooldownUntil) : NaN;
+		// Expired while Macide was closed, or unparsable: probe right away.
+		// setTimeout overflows past ~24.8 days; _onCooldownEnd re-arms if it fires early.
+		const delay = Number.isNaN(until) ? 0 : Math.min(Math.max(0, until - Date.now()), 0x7fffffff);
+		this._cooldownTimers.set(account.id, setTimeout(() => this._onCooldownEnd(account.id), delay));
+	}
+
+	/** Cooldown expired: probe the account and restore it if it is no longer rate-limited. */
+	private async _onCooldownEnd(accountId: string): Promise<void> {
+		this._cooldownTimers.delete(accountId);
+		const account = this.accountManager.getAll().find(a => a.id === accountId);
+		// A dead token is not a rate limit: re-authorization, not a probe, brings it back
+		if (!account?.cooldownUntil || needsReauth(account)) return;
+		if (Date.parse(account.cooldownUntil) > Date.now()) {
+			this._scheduleCooldownEnd(account);
+			return;
+		}
+
+		const probe = await probeCopilotAccess(account.token, endpointsFor(accountHost(account)));
+
+		if (probe.outcome === 'error') {
+			// Network trouble says nothing about the rate limit — try again shortly
+			account.cooldownUntil = new Date(Date.now() + COOLDOWN_BASE_MS).toISOString();
+			this._scheduleCooldownEnd(account);
+			return;
+		}
+
+		if (probe.outcome === 'unauthorized') {
+			// Check the token itself; keep probing only if it turns out to be fine
+			account.cooldownUntil = new Date(Date.now() + COOLDOWN_BASE_MS).toISOString();
+			await this._tokenValidator?.validate(account);
+			if (!needsReauth(account)) this._scheduleCooldownEnd(account);
+			this.accountManager.updateAccount(account).catch(() => { /* silent */ });
+			return;
+		}
+
+		if (probe.outcome === 'rate-limited') {
+			if (probe.retryAfter) {
+				account.quota = mergeQuota(account.quota, {
+					retryAfter: probe.retryAfter.toISOString(),
+					updatedAt: new Date().toISOString()
+				});
+			}
+			this.startCooldown(account);
+			this.accountManager.updateAccount(account).catch(() => { /* silent */ });
+			return;
+		}
+
+		account.cooldownUntil = undefined;
+		account.rateLimitStrikes = 0;
+		this.accountManager.transition(account, 'healthy', 'rotator', 'Cooldown ended and Copilot answered again');
+		if (account.quota) {
+			account.quota = { ...account.quota, remaining: account.quota.limit, retryAfter: undefined };
+		}
+		await this.accountManager.updateAccount(account).catch(() => { /* silent */ });
+		this.notifications.info(`"${account.alias}" is available again.`);
+		this._returnToPreferred(account);
+	}
+
+	/**
+	 * Priority strategy: when a recovered account ranks above the one auto-rotation
+	 * fell back to, move back up the list.
+	 */
+	private _returnToPreferred(recovered: MacideAccount): void {
+		if (this._strategy !== 'priority' || this._rotating) return;
+		if (this.accountManager.activeSource !== 'rotation') return;
+		const active = this.accountManager.getActive();
+		if (!active) return;
+
+		const ranked = this.priorityRanked();
+		if (ranked.indexOf(recovered) >= ranked.findIndex(a => a.id === active.id)) return;
+
+		this._rotating = true;
+		this.accountManager.setActive(recovered, 'rotation')
+			.then(() => this.notifications.info(`Switched back to preferred account "${recovered.alias}".`))
+			.catch(() => { /* silent */ })
+			.finally(() => { this._rotating = false; });
+	}
+
+	/**
+	 * An account can be rotated to unless it is exhausted, cooling down, needs
+	 * re-authorization or has no Copilot seat. Unchecked entitlement counts as usable.
+	 */
+	isUsable(account: MacideAccount): boolean {
+		if (account.status === 'exhausted' || isQuotaExhausted(account.quota)) return false;
+		if (needsReauth(account) || account.copilot?.status === 'none') return false;
+		return !account.cooldownUntil || Date.parse(account.cooldownUntil) <= Date.now();
+	}
+
 	/**
 	 * Resets exhausted accounts and daily counts when the calendar date has rolled over.
+	 * Accounts still in cooldown stay exhausted; their cooldown timer restores them.
 	 */
 	resetDailyCountsIfNeeded(): void {
 		const today = new Date().toISOString().split('T')[0];
@@ -160,8 +449,9 @@ export class AccountRotator {
 			if (account.requestCountDate !== today) {
 				account.requestCount = 0;
 				account.requestCountDate = today;
-				if (account.status === 'exhausted' || account.status === 'warning') {
-					account.status = 'healthy';
+				account.requestsByCategory = {};
+				if ((account.status === 'exhausted' && !account.cooldownUntil) || account.status === 'warning') {
+					this.accountManager.transition(account, 'healthy', 'system', 'Daily counts reset');
 				}
 				changed = true;
 			}
@@ -171,4 +461,9 @@ export class AccountRotator {
 			this.accountManager.saveAll(accounts).catch(() => { /* silent */ });
 		}
 	}
+
+	dispose(): void {
+		this._cooldownTimers.forEach(t => clearTimeout(t));
+		this._cooldownTimers.clear();
+	}
 }
@@ -0,0 +1,227 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Account Schedule — time-of-day rules that choose the preferred account.
+ *
+ * Example: "Work 09:00–18:00 Mon–Fri, Personal otherwise" is one rule for the
+ * work account plus Personal as the fallback account.
+ *
+ * Rules are checked top-down; the first one matching the local time wins and
+ * the fallback account (if any) applies when none match. A rule whose end is
+ * before its start runs overnight (e.g. 22:00–06:00). Equal start and end
+ * means the whole day.
+ *
+ * The scheduler reevaluates at every rule boundary, on window focus and when
+ * the schedule config changes. A manual switch overrides the schedule until
+ * the next rule boundary. Workspace bindings always win over the schedule, and
+ * an account that is exhausted, cooling down or (with pre-emptive rotation)
+ * near its limit is never scheduled in.
+ *
+ * Rules are stored in ~/.macide/macide-config.json (MacideConfig `schedule`).
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import type { AccountManager } from '../accounts/manager';
+import type { MacideConfig } from '../config/macideConfig';
+import type { AccountRotator } from './rotator';
+import type { MacideAccount } from './provider';
+
+export interface ScheduleRule {
+	id:        string;
+	accountId: string;
+	/** Days the rule starts on, 0 = Sunday … 6 = Saturday. */
+	days:      number[];
+	/** Local start time, "HH:MM". */
+	start:     string;
+	/** Local end time, "HH:MM" (exclusive). */
+	end:       string;
+}
+
+export interface ScheduleConfig {
+	enabled:           boolean;
+	rules:             ScheduleRule[];
+	/** Account used when no rule matches; '' leaves the active account alone. */
+	fallbackAccountId: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Longest the scheduler sleeps between evaluations, so an account that comes
+ * back from cooldown mid-rule is picked up without waiting for the boundary.
+ */
+const MAX_TICK_MS = 5 * 60 * 1000;
+
+/** Parses "HH:MM" into minutes since midnight, or undefined if malformed. */
+export function parseTimeOfDay(value: string): number | undefined {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+	if (!match) return undefined;
+	const h = Number(match[1]);
+	const m = Number(match[2]);
+	if (h > 24 || m > 59 || (h === 24 && m !== 0)) return undefined;
+	return h * 60 + m;
+}
+
+/** True when `rule` covers the local time of `date`. */
+export function ruleMatches(rule: ScheduleRule, date: Date): boolean {
+	const start = parseTimeOfDay(rule.start);
+	const end   = parseTimeOfDay(rule.end);
+	if (start === undefined || end === undefined) return false;
+
+	const day     = date.getDay();
+	const minutes = date.getHours() * 60 + date.getMinutes();
+	const startsToday = rule.days.includes(day);
+
+	if (start === end) return startsToday;
+	if (start < end) return startsToday && minutes >= start && minutes < end;
+
+	// Overnight: the tail belongs to the rule that started the previous day
+	const startedYesterday = rule.days.includes((day + 6) % 7);
+	return (startsToday && minutes >= start) || (startedYesterday && minutes < end);
+}
+
+/** First rule (in list order) matching `date`. */
+export function activeRule(rules: ScheduleRule[], date: Date): ScheduleRule | undefined {
+	return rules.find(r => ruleMatches(r, date));
+}
+
+/**
+ * The next time after `date` at which any rule starts or ends, or undefined
+ * when there are no valid rules. Looks at most one week ahead.
+ */
+export function nextBoundary(rules: ScheduleRule[], date: Date): Date | undefined {
+	let best: number | undefined;
+	const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+	for (const rule of rules) {
+		const start = parseTimeOfDay(rule.start);
+		const end   = parseTimeOfDay(rule.end);
+		if (start === undefined || end === undefined) continue;
+		// Overnight rules end on the following day; whole-day rules end at midnight
+		const endOffset = end > start ? end : end + MINUTES_PER_DAY;
+
+		// Start one day back so an overnight rule begun yesterday still yields its end
+		for (let offset = -1; offset <= 7; offset++) {
+			const dayStart = new Date(midnight);
+			dayStart.setDate(midnight.getDate() + offset);
+			if (!rule.days.includes(dayStart.getDay())) continue;
+
+			for (const minutes of [start, endOffset]) {
+				const at = new Date(dayStart);
+				at.setMinutes(minutes);
+				const t = at.getTime();
+				if (t > date.getTime() && (best === undefined || t < best)) best = t;
+			}
+		}
+	}
+	return best === undefined ? undefined : new Date(best);
+}
+
+/** Short label for a rule, e.g. "Mon–Fri 09:00–18:00". */
+export function describeRule(rule: ScheduleRule): string {
+	const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+	const days = [...rule.days].sort((a, b) => a - b);
+	let dayLabel: string;
+	if (days.length === 7) {
+		dayLabel = 'Every day';
+	} else if (days.join() === '1,2,3,4,5') {
+		dayLabel = 'Mon–Fri';
+	} else if (days.join() === '0,6') {
+		dayLabel = 'Weekends';
+	} else {
+		dayLabel = days.map(d => names[d]).join(', ');
+	}
+	return rule.start === rule.end ? dayLabel : `${dayLabel} ${rule.start}–${rule.end}`;
+}
+
+export class AccountScheduler implements vscode.Disposable {
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _timer: ReturnType<typeof setTimeout> | undefined;
+	/** A manual switch suppresses the schedule until this time (ms epoch). */
+	private _overrideUntil: number | undefined;
+
+	constructor(
+		private readonly _accounts: AccountManager,
+		private readonly _rotator:  AccountRotator,
+		private readonly _config:   MacideConfig
+	) {
+		this._disposables.push(
+			vscode.window.onDidChangeWindowState(state => {
+				if (state.focused) this.evaluate().catch(() => { /* silent */ });
+			}),
+			_accounts.onDidChangeActive(() => this._onActiveChanged()),
+			_config.onDidChange(section => {
+				if (section === 'schedule') this.evaluate().catch(() => { /* silent */ });
+			})
+		);
+	}
+
+	/** True while a manual switch is holding off the schedule. */
+	get isOverridden(): boolean {
+		return this._overrideUntil !== undefined && this._overrideUntil > Date.now();
+	}
+
+	/** The account the schedule wants right now, if any. */
+	preferredAccount(now: Date = new Date()): { account: MacideAccount; rule?: ScheduleRule } | undefined {
+		const schedule = this._config.get('schedule');
+		if (!schedule.enabled) return undefined;
+
+		const accounts = this._accounts.getAll();
+		const rule = activeRule(schedule.rules, now);
+		const accountId = rule ? rule.accountId : schedule.fallbackAccountId;
+		const account = accounts.find(a => a.id === accountId);
+		return account ? { account, rule } : undefined;
+	}
+
+	/**
+	 * Switches to the scheduled account when allowed, then re-arms the timer.
+	 * Returns true if the active account changed.
+	 */
+	async evaluate(): Promise<boolean> {
+		this._arm();
+
+		if (this.isOverridden) return false;
+		this._overrideUntil = undefined;
+
+		const source = this._accounts.activeSource;
+		if (source === 'binding') return false;
+
+		const preferred = this.preferredAccount();
+		if (!preferred) return false;
+		const { account, rule } = preferred;
+
+		const active = this._accounts.getActive();
+		if (active?.id === account.id) return false;
+		// Leave rate-limited accounts to the rotator's cooldown handling
+		if (!this._rotator.isUsable(account) || this._rotator.isNearLimit(account)) return false;
+
+		await this._accounts.setActive(account, 'schedule', rule ? describeRule(rule) : 'fallback');
+		return true;
+	}
+
+	private _onActiveChanged(): void {
+		if (this._accounts.activeSource !== 'manual') return;
+		const schedule = this._config.get('schedule');
+		if (!schedule.enabled) return;
+		// No rules with a boundary: the manual pick holds indefinitely
+		this._overrideUntil = nextBoundary(schedule.rules, new Date())?.getTime() ?? Infinity;
+	}
+
+	private _arm(): void {
+		clearTimeout(this._timer);
+		const schedule = this._config.get('schedule');
+		if (!schedule.enabled) return;
+
+		const boundary = nextBoundary(schedule.rules, new Date());
+		const delay = boundary
+			? Math.min(Math.max(0, boundary.getTime() - Date.now()), MAX_TICK_MS)
+			: MAX_TICK_MS;
+		this._timer = setTimeout(() => {
+			this.evaluate().catch(() => { /* silent */ });
+		}, delay);
+	}
+
+	dispose(): void {
+		clearTimeout(this._timer);
+		this._disposables.forEach(d => d.dispose());
+	}
+}
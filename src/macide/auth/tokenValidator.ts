@@ -0,0 +1,158 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Token Validator — background health check for every stored OAuth token.
+ *
+ * Calls GET /user on each account's host with its token on startup and every
+ * VALIDATE_INTERVAL_MS afterwards (through the unpatched https.request, so the
+ * checks never count against the active account):
+ *   401                       → 'revoked'  (app revoked on github.com, token expired)
+ *   200 for a different user  → 'invalid'  (token no longer belongs to this account)
+ *   200 for the same user     → clears a previous revoked / invalid status
+ *   anything else             → inconclusive, status unchanged
+ *
+ * Revoked and invalid accounts are skipped by rotation and never handed to
+ * Copilot; the account panel offers one-click re-authorization.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import type { MacideAccount } from './provider';
+import type { AccountManager } from '../accounts/manager';
+import type { AccountRotator } from './rotator';
+import type { NotificationService } from '../ui/notifications/notificationService';
+import { unpatchedRequest } from './httpInterceptor';
+import { accountHost, endpointsFor } from './githubHost';
+import type { GitHubEndpoints } from './githubHost';
+
+const VALIDATE_PATH        = '/user';
+const VALIDATE_TIMEOUT     = 10_000;
+const VALIDATE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+/** Startup check waits a little so it does not compete with activation. */
+const STARTUP_DELAY_MS     = 5_000;
+
+export interface TokenCheck {
+	outcome: 'valid' | 'revoked' | 'error';
+	statusCode?: number;
+	/** GitHub user id the token authenticates as, when valid. */
+	githubId?: string;
+}
+
+/** True for accounts whose token must be re-authorized before use. */
+export function needsReauth(account: MacideAccount): boolean {
+	return account.status === 'revoked' || account.status === 'invalid';
+}
+
+export function checkToken(token: string, endpoints: GitHubEndpoints = endpointsFor()): Promise<TokenCheck> {
+	return new Promise(resolve => {
+		const req = unpatchedRequest({
+			hostname: endpoints.apiHost,
+			path:     endpoints.apiPrefix + VALIDATE_PATH,
+			method:   'GET',
+			headers:  {
+				'Authorization':        `Bearer ${token}`,
+				'Accept':               'application/vnd.github+json',
+				'X-GitHub-Api-Version': '2022-11-28',
+				'User-Agent':           'Macide/1.0'
+			}
+		}, res => {
+			const statusCode = res.statusCode;
+			let body = '';
+			res.on('data', (chunk: Buffer) => (body += chunk));
+			res.on('end', () => {
+				if (statusCode === 401) {
+					resolve({ outcome: 'revoked', statusCode });
+					return;
+				}
+				if (statusCode !== 200) {
+					resolve({ outcome: 'error', statusCode });
+					return;
+				}
+				try {
+					const user = JSON.parse(body) as { id?: number };
+					resolve({ outcome: 'valid', statusCode, githubId: user.id !== undefined ? String(user.id) : undefined });
+				} catch {
+					resolve({ outcome: 'error', statusCode });
+				}
+			});
+		});
+		req.on('error', () => resolve({ outcome: 'error' }));
+		req.setTimeout(VALIDATE_TIMEOUT, () => { req.destroy(); resolve({ outcome: 'error' }); });
+		req.end();
+	});
+}
+
+export class TokenValidator implements vscode.Disposable {
+	private _interval: ReturnType<typeof setInterval> | undefined;
+	private _startup: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(
+		private readonly _accounts:      AccountManager,
+		private readonly _rotator:       AccountRotator,
+		private readonly _notifications: NotificationService
+	) {}
+
+	/** Validates all accounts shortly after startup and then periodically. */
+	start(): void {
+		this._startup = setTimeout(() => this.validateAll(), STARTUP_DELAY_MS);
+		this._interval = setInterval(() => this.validateAll(), VALIDATE_INTERVAL_MS);
+	}
+
+	async validateAll(): Promise<void> {
+		for (const account of this._accounts.getAll()) {
+			await this.validate(account);
+		}
+	}
+
+	/** Checks one account's token and updates its status. Returns the new status. */
+	async validate(account: MacideAccount): Promise<MacideAccount['status']> {
+		const check = await checkToken(account.token, endpointsFor(accountHost(account)));
+		if (check.outcome === 'error') return account.status;
+
+		const status: MacideAccount['status'] | undefined =
+			check.outcome === 'revoked' ? 'revoked' :
+			check.githubId && check.githubId !== account.githubId ? 'invalid' :
+			undefined;
+
+		if (!status) {
+			if (needsReauth(account)) {
+				this._accounts.transition(account, 'idle', 'validator', 'Token validates again');
+				await this._accounts.updateAccount(account);
+			}
+			return account.status;
+		}
+
+		// Already flagged: the user has seen the toast
+		if (account.status === status) return status;
+
+		// Flag first so selectNext skips it and setActive leaves the status alone
+		const reason = status === 'revoked'
+			? `GET ${VALIDATE_PATH} answered 401`
+			: `Token authenticates as GitHub user ${check.githubId}`;
+		this._accounts.transition(account, status, 'validator', reason);
+		if (this._accounts.getActive()?.id === account.id) {
+			const next = this._rotator.selectNext();
+			if (next) await this._accounts.setActive(next, 'rotation');
+		}
+
+		await this._accounts.updateAccount(account);
+		this._report(account);
+		return status;
+	}
+
+	private _report(account: MacideAccount): void {
+		const reason = account.status === 'revoked'
+			? 'its GitHub authorization was revoked or expired'
+			: 'its token now belongs to a different GitHub user';
+		this._notifications.error(
+			`"${account.alias}" can't be used: ${reason}.`,
+			{
+				label: 'Re-authorize',
+				action: () => vscode.commands.executeCommand('macide.reauthorizeAccount', account.id)
+			}
+		);
+	}
+
+	dispose(): void {
+		clearTimeout(this._startup);
+		clearInterval(this._interval);
+	}
+}
@@ -1,59 +1,323 @@
 /*---------------------------------------------------------------------------------------------
  * Macide — Multi-Account Copilot IDE
  * Token Vault: secure storage of GitHub account tokens via OS native keychain (keytar).
+ *
+ * Storage layout:
+ *   SecretStorage  macide.github.token.<id>   { token, refreshToken? } per account
+ *   globalState    macide.accounts            { version, accounts }: metadata in display order
+ *
+ * Only credentials go to the keychain, and a token secret is only rewritten
+ * when the token itself changes. Volatile usage fields (USAGE_FIELDS) are not
+ * stored here at all; AccountManager keeps them in globalState.
+ *
+ * Schema versions:
+ *   0  every account, tokens included, as one JSON array in the secret macide.github.accounts
+ *   1  metadata array in globalState, one token secret per account
+ *   2  metadata wrapped in { version, accounts }; MIGRATIONS fill fields added since
+ *
+ * Older data is upgraded on read and written back at VAULT_VERSION. Data that
+ * cannot be parsed is copied to a backup key and reported to the user rather
+ * than dropped. An account whose token secret is missing or unreadable loads
+ * as 'revoked' with an empty token, so it can be re-authorized instead of
+ * disappearing.
+ *
+ * Every operation runs through one queue per SecretStorage, so a
+ * read-modify-write (upsert, remove) never interleaves with another and drops
+ * its update.
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
 import type { MacideAccount } from './provider';
 
-const SERVICE_NAME = 'macide.github.accounts';
+/** Pre-split vault: the whole account array in one secret. */
+const LEGACY_SERVICE_NAME = 'macide.github.accounts';
+const TOKEN_KEY_PREFIX    = 'macide.github.token.';
+const METADATA_KEY        = 'macide.accounts';
+const BACKUP_KEY_SUFFIX   = '.backup.';
+
+/** Current schema version, see the file header. */
+export const VAULT_VERSION = 2;
+
+/** Where the vault lives; an ExtensionContext satisfies it. */
+export type VaultStorage = Pick<vscode.ExtensionContext, 'secrets' | 'globalState'>;
+
+/** Fields that change on every Copilot response and stay out of the vault. */
+export const USAGE_FIELDS = [
+	'requestCount',
+	'requestCountDate',
+	'requestsByCategory',
+	'lastUsedAt',
+	'quota',
+	'rateLimitStrikes'
+] as const;
+
+export type AccountUsage = Pick<MacideAccount, typeof USAGE_FIELDS[number]>;
+
+/** Fields that live in the account's token secret rather than in metadata. */
+const CREDENTIAL_FIELDS = ['token', 'refreshToken'] as const;
+
+type StoredCredential = Pick<MacideAccount, typeof CREDENTIAL_FIELDS[number]>;
+type StoredMetadata   = Omit<MacideAccount, typeof CREDENTIAL_FIELDS[number] | typeof USAGE_FIELDS[number]>;
+
+interface VaultEnvelope {
+	version:  number;
+	accounts: StoredMetadata[];
+}
+
+type StoredRecord = Record<string, unknown>;
+
+const STATUSES = ['healthy', 'warning', 'exhausted', 'idle', 'revoked', 'invalid'];
 
 /**
- * Reads the JSON array of accounts from the OS keychain.
- * Returns an empty array if nothing is stored yet.
+ * Upgrades one stored account from the keyed version to the next. Add an
+ * entry (and bump VAULT_VERSION) whenever MacideAccount gains a required field.
  */
-export async function readVault(secrets: vscode.SecretStorage): Promise<MacideAccount[]> {
-	const raw = await secrets.get(SERVICE_NAME);
-	if (!raw) return [];
+const MIGRATIONS: Record<number, (account: StoredRecord) => StoredRecord> = {
+	1: account => ({
+		...account,
+		alias:     account.alias ?? account.githubUsername ?? '',
+		avatarUrl: account.avatarUrl ?? '',
+		scopes:    Array.isArray(account.scopes) ? account.scopes : [],
+		status:    STATUSES.includes(account.status as string) ? account.status : 'idle',
+		addedAt:   account.addedAt ?? new Date().toISOString()
+	})
+};
+
+/** Pending vault operations per SecretStorage. */
+const _queues = new WeakMap<vscode.SecretStorage, Promise<unknown>>();
+/** Last credential written or read per account id, to skip unchanged token writes. */
+const _storedCredentials = new WeakMap<vscode.SecretStorage, Map<string, string>>();
+
+function enqueue<T>(secrets: vscode.SecretStorage, op: () => Promise<T>): Promise<T> {
+	const run = (_queues.get(secrets) ?? Promise.resolve()).then(op, op);
+	_queues.set(secrets, run.catch(() => { /* the caller sees the error */ }));
+	return run;
+}
+
+function credentialCache(secrets: vscode.SecretStorage): Map<string, string> {
+	let cache = _storedCredentials.get(secrets);
+	if (!cache) {
+		cache = new Map();
+		_storedCredentials.set(secrets, cache);
+	}
+	return cache;
+}
+
+function tokenKey(accountId: string): string {
+	return TOKEN_KEY_PREFIX + accountId;
+}
+
+export function usageOf(account: MacideAccount): AccountUsage {
+	const usage: Partial<AccountUsage> = {};
+	for (const field of USAGE_FIELDS) {
+		(usage as Record<string, unknown>)[field] = account[field];
+	}
+	return usage as AccountUsage;
+}
+
+function metadataOf(account: MacideAccount): StoredMetadata {
+	const stored: Partial<MacideAccount> = { ...account };
+	for (const field of [...CREDENTIAL_FIELDS, ...USAGE_FIELDS]) delete stored[field];
+	return stored as StoredMetadata;
+}
+
+function parseCredential(raw: string | undefined): StoredCredential | undefined {
+	if (!raw) return undefined;
 	try {
-		return JSON.parse(raw) as MacideAccount[];
+		const parsed = JSON.parse(raw) as Partial<StoredCredential>;
+		return typeof parsed.token === 'string' && parsed.token ? { token: parsed.token, refreshToken: parsed.refreshToken } : undefined;
 	} catch {
+		return undefined;
+	}
+}
+
+async function storeCredential(secrets: vscode.SecretStorage, account: MacideAccount): Promise<void> {
+	const raw = JSON.stringify({ token: account.token, refreshToken: account.refreshToken });
+	const cache = credentialCache(secrets);
+	if (cache.get(account.id) === raw) return;
+	await secrets.store(tokenKey(account.id), raw);
+	cache.set(account.id, raw);
+}
+
+async function deleteCredential(secrets: vscode.SecretStorage, accountId: string): Promise<void> {
+	await secrets.delete(tokenKey(accountId));
+	credentialCache(secrets).delete(accountId);
+}
+
+/**
+ * Moves a pre-split vault into per-account secrets and metadata, then drops it.
+ * Returns the legacy accounts so their counters survive the move.
+ */
+async function migrateLegacy(storage: VaultStorage): Promise<MacideAccount[]> {
+	const raw = await storage.secrets.get(LEGACY_SERVICE_NAME);
+	if (!raw) return [];
+	let accounts: MacideAccount[] | undefined;
+	try {
+		accounts = JSON.parse(raw) as MacideAccount[];
+	} catch { /* reported below */ }
+	if (!Array.isArray(accounts)) {
+		// Holds tokens, so the copy stays in the keychain
+		const backupKey = LEGACY_SERVICE_NAME + BACKUP_KEY_SUFFIX + Date.now();
+		await storage.secrets.store(backupKey, raw);
+		await storage.secrets.delete(LEGACY_SERVICE_NAME);
+		reportUnreadable(`The account vault from an earlier version could not be read. It was copied to the keychain entry "${backupKey}"; add the missing accounts again.`);
 		return [];
 	}
+
+	const { accounts: known } = await readMetadata(storage);
+	for (const account of accounts) {
+		if (account?.token) await storeCredential(storage.secrets, account);
+	}
+	// Moving into secrets + metadata is the 0 → 1 step; the rest of the pipeline follows
+	const migrated = accounts.filter(a => a?.id && !known.some(k => k.id === a.id));
+	await storeMetadata(storage, [...known, ...upgrade(migrated.map(metadataOf) as unknown as StoredRecord[], 1)]);
+	await storage.secrets.delete(LEGACY_SERVICE_NAME);
+	return accounts;
+}
+
+function reportUnreadable(message: string): void {
+	vscode.window.showWarningMessage(`Macide: ${message}`);
+}
+
+async function storeMetadata(storage: VaultStorage, accounts: StoredMetadata[]): Promise<void> {
+	const envelope: VaultEnvelope = { version: VAULT_VERSION, accounts };
+	await storage.globalState.update(METADATA_KEY, envelope);
 }
 
 /**
- * Writes the full accounts array back to the OS keychain.
+ * Reads the metadata envelope and upgrades it to VAULT_VERSION. Anything that
+ * cannot be read is backed up in globalState and reported before it is dropped.
  */
-export async function writeVault(secrets: vscode.SecretStorage, accounts: MacideAccount[]): Promise<void> {
-	await secrets.store(SERVICE_NAME, JSON.stringify(accounts));
+async function readMetadata(storage: VaultStorage): Promise<VaultEnvelope> {
+	const raw = storage.globalState.get<unknown>(METADATA_KEY);
+	if (raw === undefined) return { version: VAULT_VERSION, accounts: [] };
+
+	let version: number | undefined;
+	let records: unknown[] | undefined;
+	if (Array.isArray(raw)) {
+		version = 1;
+		records = raw;
+	} else if (raw && typeof raw === 'object') {
+		const envelope = raw as Partial<VaultEnvelope>;
+		if (Number.isInteger(envelope.version) && envelope.version! >= 1 && Array.isArray(envelope.accounts)) {
+			version = envelope.version!;
+			records = envelope.accounts;
+		}
+	}
+
+	const readable = (records ?? []).filter((r): r is StoredRecord =>
+		!!r && typeof r === 'object' && typeof (r as StoredRecord).id === 'string' && !!(r as StoredRecord).id);
+	const dropped = (records?.length ?? 0) - readable.length;
+
+	if (version === undefined || dropped > 0 || version > VAULT_VERSION) {
+		const backupKey = METADATA_KEY + BACKUP_KEY_SUFFIX + Date.now();
+		await storage.globalState.update(backupKey, raw);
+		reportUnreadable(
+			version === undefined     ? `The saved account list could not be read. It was backed up as "${backupKey}"; add your accounts again.` :
+			version > VAULT_VERSION   ? `The saved account list was written by a newer version of Macide. It was backed up as "${backupKey}" before loading.` :
+			`${dropped} saved account${dropped !== 1 ? 's' : ''} could not be read and ${dropped !== 1 ? 'were' : 'was'} backed up as "${backupKey}".`
+		);
+	}
+
+	// A newer schema is loaded as-is: unknown fields ride along, and the backup has the original
+	const accounts = upgrade(readable, Math.min(version ?? VAULT_VERSION, VAULT_VERSION));
+	if (version !== VAULT_VERSION || dropped > 0) {
+		await storeMetadata(storage, accounts);
+	}
+	return { version: VAULT_VERSION, accounts };
+}
+
+function upgrade(records: StoredRecord[], from: number): StoredMetadata[] {
+	for (let version = from; version < VAULT_VERSION; version++) {
+		records = records.map(MIGRATIONS[version]);
+	}
+	return records as unknown as StoredMetadata[];
+}
+
+async function read(storage: VaultStorage): Promise<MacideAccount[]> {
+	const legacy = await migrateLegacy(storage);
+	const { accounts: metadata } = await readMetadata(storage);
+	const cache = credentialCache(storage.secrets);
+
+	const accounts: MacideAccount[] = [];
+	for (const meta of metadata) {
+		const raw = await storage.secrets.get(tokenKey(meta.id));
+		const credential = parseCredential(raw);
+		const usage = legacy.find(a => a.id === meta.id);
+		if (credential) {
+			cache.set(meta.id, raw!);
+			accounts.push({ ...(usage ? usageOf(usage) : {}), ...meta, ...credential } as MacideAccount);
+		} else {
+			// Token lost or corrupt: keep the account so it can be re-authorized
+			accounts.push({ ...(usage ? usageOf(usage) : {}), ...meta, token: '', status: 'revoked' } as MacideAccount);
+		}
+	}
+	return accounts;
+}
+
+async function write(storage: VaultStorage, accounts: MacideAccount[]): Promise<void> {
+	const { accounts: previous } = await readMetadata(storage);
+	for (const account of accounts) {
+		// A recovered account has no token until it is re-authorized
+		if (account.token) await storeCredential(storage.secrets, account);
+	}
+	await storeMetadata(storage, accounts.map(metadataOf));
+	for (const gone of previous.filter(p => !accounts.some(a => a.id === p.id))) {
+		await deleteCredential(storage.secrets, gone.id);
+	}
+}
+
+/**
+ * Reads all accounts: metadata from globalState joined with each token secret.
+ * Returns an empty array if nothing is stored yet.
+ */
+export function readVault(storage: VaultStorage): Promise<MacideAccount[]> {
+	return enqueue(storage.secrets, () => read(storage));
+}
+
+/**
+ * Writes the full accounts array back, removing secrets of accounts no longer listed.
+ */
+export function writeVault(storage: VaultStorage, accounts: MacideAccount[]): Promise<void> {
+	return enqueue(storage.secrets, () => write(storage, accounts));
 }
 
 /**
  * Adds or updates an account in the vault. Matches on account.id.
  */
-export async function upsertAccount(secrets: vscode.SecretStorage, account: MacideAccount): Promise<void> {
-	const accounts = await readVault(secrets);
-	const idx = accounts.findIndex(a => a.id === account.id);
-	if (idx >= 0) {
-		accounts[idx] = account;
-	} else {
-		accounts.push(account);
-	}
-	await writeVault(secrets, accounts);
+export function upsertAccount(storage: VaultStorage, account: MacideAccount): Promise<void> {
+	return enqueue(storage.secrets, async () => {
+		if (account.token) await storeCredential(storage.secrets, account);
+		const metadata = [...(await readMetadata(storage)).accounts];
+		const idx = metadata.findIndex(m => m.id === account.id);
+		if (idx >= 0) {
+			metadata[idx] = metadataOf(account);
+		} else {
+			metadata.push(metadataOf(account));
+		}
+		await storeMetadata(storage, metadata);
+	});
 }
 
 /**
- * Removes an account from the vault by id.
+ * Removes an account and its token secret by id.
  */
-export async function removeAccount(secrets: vscode.SecretStorage, accountId: string): Promise<void> {
-	const accounts = await readVault(secrets);
-	await writeVault(secrets, accounts.filter(a => a.id !== accountId));
+export function removeAccount(storage: VaultStorage, accountId: string): Promise<void> {
+	return enqueue(storage.secrets, async () => {
+		const { accounts: metadata } = await readMetadata(storage);
+		await storeMetadata(storage, metadata.filter(m => m.id !== accountId));
+		await deleteCredential(storage.secrets, accountId);
+	});
 }
 
 /**
  * Clears the entire vault.
  */
-export async function clearVault(secrets: vscode.SecretStorage): Promise<void> {
-	await secrets.delete(SERVICE_NAME);
+export function clearVault(storage: VaultStorage): Promise<void> {
+	return enqueue(storage.secrets, async () => {
+		const { accounts: metadata } = await readMetadata(storage);
+		for (const meta of metadata) await deleteCredential(storage.secrets, meta.id);
+		await storage.globalState.update(METADATA_KEY, undefined);
+		await storage.secrets.delete(LEGACY_SERVICE_NAME);
+	});
 }
@@ -15,16 +15,34 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
+import type { RotationStrategy } from '../auth/rotator';
+import type { ScheduleConfig } from '../auth/schedule';
 
 const CONFIG_DIR  = path.join(os.homedir(), '.macide');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'macide-config.json');
 
 export interface MacideConfigShape {
 	accounts: {
-		rotationStrategy: 'round-robin' | 'least-used' | 'manual';
+		rotationStrategy: RotationStrategy;
 		autoRotation:     boolean;
 		assumedDailyLimit: number;
+		/** Account ids in preference order for the 'priority' strategy. */
+		priorityOrder:    string[];
+		/** Account id → relative share of requests for the 'weighted' strategy (default 1). */
+		weights:          Record<string, number>;
+		/** Rotate before the limit is hit instead of waiting for a 429. */
+		preemptiveRotation:  boolean;
+		/** Usage percent (50–100) that triggers pre-emptive rotation. */
+		preemptiveThreshold: number;
+		/** Percent of headroom below the threshold a target account needs (hysteresis). */
+		stickyMargin:        number;
+		/** Replay a request that got a 429 once on the next account. */
+		retryOnRateLimit:    boolean;
+		/** Maximum replays per hour across all requests. */
+		retryBudget:         number;
 	};
+	/** Time-of-day account rules. Stored only in macide-config.json. */
+	schedule: ScheduleConfig;
 	appearance: {
 		animationSpeed:            'normal' | 'fast' | 'off';
 		glassmorphismIntensity:    number;
@@ -38,6 +56,7 @@ export interface MacideConfigShape {
 		aiCommitMessages:           boolean;
 		credentialBridge:           boolean;
 		credentialMismatchBehavior: 'warn' | 'auto-switch' | 'ignore';
+		commitIdentity:             'apply' | 'warn' | 'off';
 		commitFormat:               'conventional' | 'freeform';
 	};
 	githubClientId: string;
@@ -47,7 +66,19 @@ const DEFAULTS: MacideConfigShape = {
 	accounts: {
 		rotationStrategy:  'round-robin',
 		autoRotation:      true,
-		assumedDailyLimit: 300
+		assumedDailyLimit: 300,
+		priorityOrder:     [],
+		weights:           {},
+		preemptiveRotation:  false,
+		preemptiveThreshold: 95,
+		stickyMargin:        10,
+		retryOnRateLimit:    false,
+		retryBudget:         20
+	},
+	schedule: {
+		enabled:           false,
+		rules:             [],
+		fallbackAccountId: ''
 	},
 	appearance: {
 		animationSpeed:         'normal',
@@ -62,6 +93,7 @@ const DEFAULTS: MacideConfigShape = {
 		aiCommitMessages:           true,
 		credentialBridge:           true,
 		credentialMismatchBehavior: 'warn',
+		commitIdentity:             'apply',
 		commitFormat:               'conventional'
 	},
 	githubClientId: ''
@@ -70,6 +102,10 @@ const DEFAULTS: MacideConfigShape = {
 export class MacideConfig {
 	private _data: MacideConfigShape;
 
+	private readonly _onDidChange = new vscode.EventEmitter<keyof MacideConfigShape>();
+	/** Fires with the section name after a write through set / setNested. */
+	readonly onDidChange = this._onDidChange.event;
+
 	constructor() {
 		this._data = this._load();
 	}
@@ -92,6 +128,7 @@ export class MacideConfig {
 	): Promise<void> {
 		this._data[section] = value;
 		this._persist();
+		this._onDidChange.fire(section);
 		// Mirror to VS Code configuration so normal settings panel shows the values
 		await this._syncToVsCode(section, value);
 	}
@@ -103,6 +140,7 @@ export class MacideConfig {
 	): Promise<void> {
 		(this._data[section] as Record<string,unknown>)[field as string] = value;
 		this._persist();
+		this._onDidChange.fire(section);
 		const key = `macide.${section.toString()}.${field.toString()}`;
 		try {
 			await vscode.workspace.getConfiguration().update(
@@ -119,6 +157,13 @@ export class MacideConfig {
 		this._data.accounts.rotationStrategy  = cfg.get('accounts.rotationStrategy', DEFAULTS.accounts.rotationStrategy) as any;
 		this._data.accounts.autoRotation      = cfg.get('accounts.autoRotation',      DEFAULTS.accounts.autoRotation);
 		this._data.accounts.assumedDailyLimit = cfg.get('accounts.assumedDailyLimit', DEFAULTS.accounts.assumedDailyLimit);
+		this._data.accounts.priorityOrder     = cfg.get('accounts.priorityOrder',     DEFAULTS.accounts.priorityOrder);
+		this._data.accounts.weights           = cfg.get('accounts.weights',           DEFAULTS.accounts.weights);
+		this._data.accounts.preemptiveRotation  = cfg.get('accounts.preemptiveRotation',  DEFAULTS.accounts.preemptiveRotation);
+		this._data.accounts.preemptiveThreshold = cfg.get('accounts.preemptiveThreshold', DEFAULTS.accounts.preemptiveThreshold);
+		this._data.accounts.stickyMargin        = cfg.get('accounts.stickyMargin',        DEFAULTS.accounts.stickyMargin);
+		this._data.accounts.retryOnRateLimit    = cfg.get('accounts.retryOnRateLimit',    DEFAULTS.accounts.retryOnRateLimit);
+		this._data.accounts.retryBudget         = cfg.get('accounts.retryBudget',         DEFAULTS.accounts.retryBudget);
 
 		this._data.appearance.animationSpeed          = cfg.get('appearance.animationSpeed',          DEFAULTS.appearance.animationSpeed) as any;
 		this._data.appearance.glassmorphismIntensity  = cfg.get('appearance.glassmorphismIntensity',  DEFAULTS.appearance.glassmorphismIntensity);
@@ -131,6 +176,7 @@ export class MacideConfig {
 		this._data.git.aiCommitMessages           = cfg.get('git.aiCommitMessages',           DEFAULTS.git.aiCommitMessages);
 		this._data.git.credentialBridge           = cfg.get('git.credentialBridge',           DEFAULTS.git.credentialBridge);
 		this._data.git.credentialMismatchBehavior = cfg.get('git.credentialMismatchBehavior', DEFAULTS.git.credentialMismatchBehavior) as any;
+		this._data.git.commitIdentity             = cfg.get('git.commitIdentity',             DEFAULTS.git.commitIdentity) as any;
 		this._data.git.commitFormat               = cfg.get('git.commitFormat',               DEFAULTS.git.commitFormat) as any;
 
 		this._data.githubClientId = cfg.get('githubClientId', DEFAULTS.githubClientId);
@@ -155,6 +201,13 @@ export class MacideConfig {
 		data.accounts.rotationStrategy  = cfg.get('accounts.rotationStrategy', DEFAULTS.accounts.rotationStrategy) as any;
 		data.accounts.autoRotation      = cfg.get('accounts.autoRotation',      DEFAULTS.accounts.autoRotation);
 		data.accounts.assumedDailyLimit = cfg.get('accounts.assumedDailyLimit', DEFAULTS.accounts.assumedDailyLimit);
+		data.accounts.priorityOrder     = cfg.get('accounts.priorityOrder',     DEFAULTS.accounts.priorityOrder);
+		data.accounts.weights           = cfg.get('accounts.weights',           DEFAULTS.accounts.weights);
+		data.accounts.preemptiveRotation  = cfg.get('accounts.preemptiveRotation',  DEFAULTS.accounts.preemptiveRotation);
+		data.accounts.preemptiveThreshold = cfg.get('accounts.preemptiveThreshold', DEFAULTS.accounts.preemptiveThreshold);
+		data.accounts.stickyMargin        = cfg.get('accounts.stickyMargin',        DEFAULTS.accounts.stickyMargin);
+		data.accounts.retryOnRateLimit    = cfg.get('accounts.retryOnRateLimit',    DEFAULTS.accounts.retryOnRateLimit);
+		data.accounts.retryBudget         = cfg.get('accounts.retryBudget',         DEFAULTS.accounts.retryBudget);
 		data.appearance.animationSpeed         = cfg.get('appearance.animationSpeed',         DEFAULTS.appearance.animationSpeed) as any;
 		data.appearance.glassmorphismIntensity = cfg.get('appearance.glassmorphismIntensity', DEFAULTS.appearance.glassmorphismIntensity);
 		data.git.inlineBlame      = cfg.get('git.inlineBlame',      DEFAULTS.git.inlineBlame) as any;
@@ -184,13 +237,17 @@ export class MacideConfig {
 		}
 	}
 
-	/** Deep-merge `overrides` onto `base`, ignoring keys not in `base`. */
+	/**
+	 * Deep-merge `overrides` onto `base`, ignoring keys not in `base`.
+	 * Empty-object defaults are open maps (e.g. accounts.weights) and are taken as-is.
+	 */
 	private _merge<T extends object>(base: T, overrides: Partial<T>): T {
 		const result = structuredClone(base);
 		for (const key of Object.keys(base) as (keyof T)[]) {
 			const o = overrides[key];
 			if (o === undefined) continue;
-			if (typeof base[key] === 'object' && base[key] !== null && !Array.isArray(base[key])) {
+			if (typeof base[key] === 'object' && base[key] !== null && !Array.isArray(base[key])
+				&& Object.keys(base[key] as object).length > 0) {
 				(result as any)[key] = this._merge(base[key] as object, (o ?? {}) as object);
 			} else {
 				(result as any)[key] = o;
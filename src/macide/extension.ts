@@ -8,10 +8,21 @@ import * as vscode from 'vscode';
 import { MacideGitHubAuthProvider } from './auth/provider';
 import { AccountManager } from './accounts/manager';
 import { AccountTracker } from './accounts/tracker';
+import { UsageLog } from './accounts/usageLog';
+import { AccountTransfer } from './accounts/accountTransfer';
+import { WorkspaceBindings } from './accounts/bindings';
 import { AccountRotator } from './auth/rotator';
+import type { RotationStrategy } from './auth/rotator';
+import { AccountScheduler } from './auth/schedule';
+import { TokenValidator } from './auth/tokenValidator';
+import { EntitlementChecker } from './auth/entitlement';
+import { normalizeHost } from './auth/githubHost';
+import { DEFAULT_SCOPES } from './auth/oauthFlow';
 import { NotificationService } from './ui/notifications/notificationService';
 import { CredentialBridge } from './auth/credentialBridge';
-import { installHttpInterceptor, uninstallHttpInterceptor } from './auth/httpInterceptor';
+import { CredentialServer } from './auth/credentialServer';
+import { configureRateLimitReplay, installHttpInterceptor, uninstallHttpInterceptor } from './auth/httpInterceptor';
+import { describeQuota } from './auth/quota';
 import { AccountPanelProvider } from './ui/accountPanel/accountPanelProvider';
 import { AccountStatusBar } from './ui/statusbar/accountStatusBar';
 // --- M5 Git Enhancements ---
@@ -20,6 +31,8 @@ import { BlameAnnotationController } from './git/blameAnnotation';
 import { GitHistoryPanel } from './git/historyGraph';
 import { ConflictBarProvider, resolveConflict } from './git/conflictBar';
 import { StashManagerPanel } from './git/stashManager';
+import { SshKeyMapping } from './git/sshConfig';
+import { CommitIdentityManager } from './git/commitIdentity';
 // --- M6 UI Polish ---
 import { ToastService } from './ui/toast/toastService';
 import { BranchPill } from './ui/branchPill/branchPill';
@@ -27,6 +40,7 @@ import { FlowModeController } from './ui/flowMode/flowModeController';
 // --- M8 Settings & Config ---
 import { MacideConfig } from './config/macideConfig';
 import { SettingsPanel } from './ui/settings/settingsPanel';
+import { UsageReportPanel } from './ui/usageReport/usageReportPanel';
 // --- M9 Performance & Distribution ---
 import { AutoUpdater } from './update/autoUpdater';
 import { PerfMonitor, LazyPanel } from './performance/perfMonitor';
@@ -58,17 +72,39 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	notifications.toastService = toastService;
 
 	const rotator = new AccountRotator(accountManager, notifications);
-	const tracker = new AccountTracker(accountManager, rotator, context);
+	const usageLog = new UsageLog(context, accountManager);
+	const tracker = new AccountTracker(accountManager, rotator, usageLog);
 	const credentialBridge = new CredentialBridge(accountManager, notifications);
+	const bindings = new WorkspaceBindings(context, accountManager, rotator);
+	const scheduler = new AccountScheduler(accountManager, rotator, macideConfig);
+	const tokenValidator = new TokenValidator(accountManager, rotator, notifications);
+	const entitlements = new EntitlementChecker(accountManager, rotator, notifications);
+	// Serves git-credential-macide in Macide terminals
+	const credentialServer = new CredentialServer(context, accountManager, credentialBridge, tokenValidator);
 
 	/** Read macide.* settings and apply to rotator + tracker. */
 	function syncSettings(): void {
 		const cfg = vscode.workspace.getConfiguration('macide');
-		const strategy = cfg.get<string>('accounts.rotationStrategy', 'round-robin') as 'round-robin' | 'least-used' | 'manual';
+		const strategy = cfg.get<string>('accounts.rotationStrategy', 'round-robin') as RotationStrategy;
 		const limit    = cfg.get<number>('accounts.assumedDailyLimit', 300);
-		rotator.strategy  = strategy;
+		rotator.strategy      = strategy;
+		rotator.priorityOrder = cfg.get<string[]>('accounts.priorityOrder', []);
+		rotator.weights       = cfg.get<Record<string, number>>('accounts.weights', {});
+		rotator.preemptiveThreshold = cfg.get<boolean>('accounts.preemptiveRotation', false)
+			? cfg.get<number>('accounts.preemptiveThreshold', 95) / 100
+			: undefined;
+		rotator.stickyMargin  = cfg.get<number>('accounts.stickyMargin', 10) / 100;
+		configureRateLimitReplay(
+			cfg.get<boolean>('accounts.retryOnRateLimit', false),
+			cfg.get<number>('accounts.retryBudget', 20)
+		);
 		tracker.dailyLimit = limit;
+		credentialServer.setEnabled(cfg.get<boolean>('git.credentialBridge', true)).catch(err => {
+			notifications.warning(`Git credential helper unavailable: ${err instanceof Error ? err.message : String(err)}`);
+		});
 	}
+	rotator.usageOf = account => tracker.getUsagePercent(account);
+	rotator.tokenValidator = tokenValidator;
 	syncSettings();
 
 	// --- Auth Provider ---
@@ -109,6 +145,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 	// --- Daily reset check ---
 	rotator.resetDailyCountsIfNeeded();
+	rotator.resumeCooldowns();
+	// Catch tokens revoked on github.com while Macide was closed, then re-check periodically
+	tokenValidator.start();
+	entitlements.start();
 	const resetInterval = setInterval(() => rotator.resetDailyCountsIfNeeded(), 60 * 60 * 1000);
 
 	// --- Account Panel (M3 glassmorphic webview) ---
@@ -130,7 +170,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 				acc.alias = alias;
 				await accountManager.updateAccount(acc);
 			}
-		}
+		},
+		/* onBindAccount */   (id) => bindings.promptBind(id),
+		/* onReauthAccount */ (id) => vscode.commands.executeCommand('macide.reauthorizeAccount', id)
 	);
 
 	// --- Status bar account pill ---
@@ -160,6 +202,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			}
 		}),
 
+		/**
+		 * macide.addEnterpriseAccount — same Device Flow, against a GHE.com or
+		 * GitHub Enterprise Server host entered by the user.
+		 */
+		vscode.commands.registerCommand('macide.addEnterpriseAccount', async () => {
+			const input = await vscode.window.showInputBox({
+				prompt: 'GitHub Enterprise host',
+				placeHolder: 'e.g. github.acme.corp or acme.ghe.com',
+				validateInput: value => normalizeHost(value) ? undefined : 'Enter a hostname or https:// URL'
+			});
+			const host = normalizeHost(input);
+			if (!host) return;
+			try {
+				await authProvider.signIn(DEFAULT_SCOPES, host);
+			} catch (err: unknown) {
+				const msg = err instanceof Error ? err.message : String(err);
+				vscode.window.showErrorMessage(`Macide: Failed to add account on ${host} — ${msg}`);
+			}
+		}),
+
 		vscode.commands.registerCommand('macide.openAccountPanel', () => {
 			accountPanel.open();
 		}),
@@ -185,6 +247,38 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			}
 		}),
 
+		/**
+		 * macide.reauthorizeAccount — re-runs the Device Flow for an account whose
+		 * token was revoked or invalidated, keeping the account's id and alias.
+		 */
+		vscode.commands.registerCommand('macide.reauthorizeAccount', async (accountId?: string) => {
+			let account = accountManager.getAll().find(a => a.id === accountId);
+			if (!account) {
+				const candidates = accountManager.getAll();
+				const picked = await vscode.window.showQuickPick(
+					candidates.map(a => ({ label: a.alias, description: `@${a.githubUsername} · ${a.status}`, id: a.id })),
+					{ placeHolder: 'Select the account to re-authorize' }
+				);
+				account = candidates.find(a => a.id === picked?.id);
+			}
+			if (!account) return;
+			try {
+				await authProvider.reauthorize(account);
+				notifications.info(`"${account.alias}" re-authorized.`);
+			} catch (err: unknown) {
+				const msg = err instanceof Error ? err.message : String(err);
+				vscode.window.showErrorMessage(`Macide: Failed to re-authorize "${account.alias}" — ${msg}`);
+			}
+		}),
+
+		vscode.commands.registerCommand('macide.bindWorkspaceAccount', (accountId?: string) => {
+			bindings.promptBind(accountId);
+		}),
+
+		vscode.commands.registerCommand('macide.unbindWorkspaceAccount', () => {
+			bindings.promptUnbind();
+		}),
+
 		vscode.commands.registerCommand('macide.switchAccount', () => {
 			vscode.commands.executeCommand('macide.openAccountPanel');
 		}),
@@ -197,7 +291,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			}
 			const limit = vscode.workspace.getConfiguration('macide').get<number>('accounts.assumedDailyLimit', 300);
 			const pct = Math.round((active.requestCount / limit) * 100);
-			notifications.info(`Active: ${active.alias} (@${active.githubUsername}) — ${active.requestCount} requests today (~${pct}% of limit)`);
+			const usage = describeQuota(active.quota) ?? `${active.requestCount} requests today (~${pct}% of limit)`;
+			notifications.info(`Active: ${active.alias} (@${active.githubUsername}) — ${usage}`);
 		}),
 
 		// --- M4 debug / testing commands ---
@@ -235,6 +330,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		})
 	);
 
+	// --- Usage report ---
+	const usageReport = new UsageReportPanel(accountManager, usageLog);
+	context.subscriptions.push(
+		usageLog,
+		usageReport,
+		vscode.commands.registerCommand('macide.openUsageReport', () => usageReport.open()),
+		vscode.commands.registerCommand('macide.exportUsage', () => usageReport.export())
+	);
+
+	// --- Account export / import (local, passphrase-encrypted) ---
+	const accountTransfer = new AccountTransfer(accountManager, macideConfig);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('macide.exportAccounts', () => accountTransfer.exportAccounts()),
+		vscode.commands.registerCommand('macide.importAccounts', () => accountTransfer.importAccounts())
+	);
+
 	// ── M5: Git Enhancements ──────────────────────────────────────────────────
 
 	// Blame annotations
@@ -249,6 +360,17 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		vscode.languages.registerCodeLensProvider({ scheme: 'file' }, conflictBar)
 	);
 
+	// Per-account SSH keys via ~/.ssh/config Host aliases
+	const sshKeys = new SshKeyMapping(accountManager);
+
+	// Per-account commit identity, applied where the bridge routes a repository
+	const commitIdentities = new CommitIdentityManager(accountManager, notifications);
+	context.subscriptions.push(
+		credentialBridge.onDidRouteRepository(({ root, account }) => {
+			commitIdentities.accountChosen(root, account);
+		})
+	);
+
 	// Stash manager panel
 	const stashPanel = new StashManagerPanel();
 
@@ -295,6 +417,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		// Credential bridge — check cross-account remote when opening a workspace
 		vscode.commands.registerCommand('macide.checkCrossAccountRemote', (remoteUrl: string) => {
 			credentialBridge.checkCrossAccountRemote(remoteUrl);
+		}),
+
+		vscode.commands.registerCommand('macide.rewriteRemote', () => {
+			credentialBridge.promptRewriteRemote();
+		}),
+
+		vscode.commands.registerCommand('macide.setAccountSshKey', (accountId?: string) => {
+			sshKeys.promptSetKey(accountId);
+		}),
+
+		vscode.commands.registerCommand('macide.setCommitIdentity', (accountId?: string) => {
+			commitIdentities.promptEditIdentity(accountId);
 		})
 	);
 
@@ -347,6 +481,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	// Session memory — restore first, save on close
 	const sessionMemory = new SessionMemory(context, accountManager, flowMode, floatingChat);
 	await sessionMemory.restore();
+	// Durable workspace bindings override the short-lived session restore
+	await bindings.apply();
+	// Time-of-day rules apply unless a binding already chose the account
+	await scheduler.evaluate();
 
 	context.subscriptions.push(
 		// ── Inline diff commands ──
@@ -394,6 +532,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		historyPanel,
 		conflictBar,
 		stashPanel,
+		sshKeys,
+		commitIdentities,
 		branchPill,
 		flowMode,
 		toastService,
@@ -403,11 +543,17 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		floatingChat,
 		contextualSurface,
 		sessionMemory,
+		bindings,
+		scheduler,
+		tokenValidator,
+		entitlements,
+		credentialServer,
 		updater,
 		perf,
 		{
 			dispose: () => {
 				clearInterval(resetInterval);
+				rotator.dispose();
 				uninstallHttpInterceptor();
 				authProvider.dispose();
 				accountManager.dispose();
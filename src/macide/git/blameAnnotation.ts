@@ -34,7 +34,7 @@ const BLAME_DECO = vscode.window.createTextEditorDecorationType({
 	isWholeLine: true
 });
 
-interface BlameEntry {
+export interface BlameEntry {
 	hash:    string;
 	author:  string;
 	date:    Date;
@@ -58,58 +58,60 @@ function runBlame(filePath: string, startLine: number, endLine: number): Promise
 		const args = ['blame', '--porcelain', `-L${startLine},${endLine}`, '--', filePath];
 
 		cp.execFile('git', args, { cwd, timeout: 5000 }, (err: Error | null, stdout: string) => {
-			const result = new Map<number, BlameEntry>();
-			if (err || !stdout.trim()) {
-				resolve(result);
-				return;
-			}
-
-			// Porcelain format: each hunk starts with `<hash> <orig_line> <final_line> [group_size]`
-			// followed by tag lines (`author`, `author-time`, `summary`, etc.)
-			const lines = stdout.split('\n');
-			let i = 0;
-			let currentLine = startLine;
-
-			while (i < lines.length) {
-				const header = lines[i];
-				if (!header || header.length < 40) { i++; continue; }
-
-				const parts = header.split(' ');
-				if (parts.length < 3) { i++; continue; }
-
-				const hash         = parts[0];
-				const finalLineNum = parseInt(parts[2], 10);
-
-				let author  = '';
-				let timestamp = 0;
-				let summary = '';
-
-				i++;
-				while (i < lines.length && !lines[i].startsWith('\t')) {
-					const tagLine = lines[i];
-					if (tagLine.startsWith('author '))        author    = tagLine.slice(7).trim();
-					else if (tagLine.startsWith('author-time ')) timestamp = parseInt(tagLine.slice(12).trim(), 10);
-					else if (tagLine.startsWith('summary '))   summary   = tagLine.slice(8).trim();
-					i++;
-				}
-				i++; // skip the `\t<line content>` line
-
-				if (!isNaN(finalLineNum)) {
-					result.set(finalLineNum, {
-						hash:   hash.slice(0, 7),
-						author,
-						date:   new Date(timestamp * 1000),
-						summary
-					});
-				}
-				currentLine = finalLineNum + 1;
-			}
-
-			resolve(result);
+			resolve(err ? new Map() : parseBlamePorcelain(stdout));
 		});
 	});
 }
 
+/**
+ * Parses `git blame --porcelain` output into entries keyed by final line number.
+ *
+ * Porcelain format: each hunk starts with `<hash> <orig_line> <final_line> [group_size]`
+ * followed by tag lines (`author`, `author-time`, `summary`, etc.) and the
+ * `\t<line content>` line.
+ */
+export function parseBlamePorcelain(stdout: string): Map<number, BlameEntry> {
+	const result = new Map<number, BlameEntry>();
+	const lines = stdout.split('\n');
+	let i = 0;
+
+	while (i < lines.length) {
+		const header = lines[i];
+		if (!header || header.length < 40) { i++; continue; }
+
+		const parts = header.split(' ');
+		if (parts.length < 3) { i++; continue; }
+
+		const hash         = parts[0];
+		const finalLineNum = parseInt(parts[2], 10);
+
+		let author    = '';
+		let timestamp = 0;
+		let summary   = '';
+
+		i++;
+		while (i < lines.length && !lines[i].startsWith('\t')) {
+			const tagLine = lines[i];
+			if (tagLine.startsWith('author '))           author    = tagLine.slice(7).trim();
+			else if (tagLine.startsWith('author-time ')) timestamp = parseInt(tagLine.slice(12).trim(), 10);
+			else if (tagLine.startsWith('summary '))     summary   = tagLine.slice(8).trim();
+			i++;
+		}
+		i++; // skip the `\t<line content>` line
+
+		if (!isNaN(finalLineNum)) {
+			result.set(finalLineNum, {
+				hash:   hash.slice(0, 7),
+				author,
+				date:   new Date(timestamp * 1000),
+				summary
+			});
+		}
+	}
+
+	return result;
+}
+
 // ---------------------------------------------------------------------------
 // Controller
 // ---------------------------------------------------------------------------
@@ -0,0 +1,349 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Commit Identity — per-account author name, email and signing key.
+ *
+ * Routing Git to another account does not change who commits are attributed
+ * to: that comes from `user.name` / `user.email`, usually set globally. Each
+ * account therefore carries a commit identity (filled from GET /user and
+ * GET /user/emails on first sight, defaulting to the account's noreply
+ * address), and `macide.git.commitIdentity` decides what happens when an
+ * account is chosen for a repository:
+ *   'apply'  write the identity to the repository's local git config (signing
+ *            keys are only ever unset if Macide wrote them)
+ *   'warn'   leave the config alone, but warn when changes are staged while
+ *            the effective identity is another one
+ *   'off'    do nothing
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import type { AccountManager } from '../accounts/manager';
+import type { MacideAccount } from '../auth/provider';
+import type { NotificationService } from '../ui/notifications/notificationService';
+import { unpatchedRequest } from '../auth/httpInterceptor';
+import { accountHost, endpointsFor, isDefaultHost } from '../auth/githubHost';
+import type { GitHubEndpoints } from '../auth/githubHost';
+import { whenGitApiReady } from './gitApi';
+import type { Repository } from './gitApi';
+
+const REQUEST_TIMEOUT = 10_000;
+const NOREPLY_RE      = /@users\.noreply\./i;
+/** Local config key listing the keys Macide wrote, so only those are ever unset. */
+const MANAGED_KEY     = 'macide.managedkey';
+
+export interface CommitIdentity {
+	name:          string;
+	/** Address commits are authored with. */
+	email:         string;
+	/** The account's noreply address, when known (keeps the real address private). */
+	noreplyEmail?: string;
+	/** `user.signingkey`: a GPG key id, or an SSH public key / key path (signs with gpg.format=ssh). */
+	signingKey?:   string;
+}
+
+export type CommitIdentityMode = 'apply' | 'warn' | 'off';
+
+interface GitHubEmail {
+	email:    string;
+	primary:  boolean;
+	verified: boolean;
+}
+
+/** GET on the account's API host. Resolves undefined on any non-200 answer or network error. */
+function apiGet<T>(token: string, endpoints: GitHubEndpoints, apiPath: string): Promise<T | undefined> {
+	return new Promise(resolve => {
+		const req = unpatchedRequest({
+			hostname: endpoints.apiHost,
+			path:     endpoints.apiPrefix + apiPath,
+			method:   'GET',
+			headers:  {
+				'Authorization':        `Bearer ${token}`,
+				'Accept':               'application/vnd.github+json',
+				'X-GitHub-Api-Version': '2022-11-28',
+				'User-Agent':           'Macide/1.0'
+			}
+		}, res => {
+			const statusCode = res.statusCode;
+			let body = '';
+			res.on('data', (chunk: Buffer) => (body += chunk));
+			res.on('end', () => {
+				try {
+					resolve(statusCode === 200 ? JSON.parse(body) as T : undefined);
+				} catch {
+					resolve(undefined);
+				}
+			});
+		});
+		req.on('error', () => resolve(undefined));
+		req.setTimeout(REQUEST_TIMEOUT, () => { req.destroy(); resolve(undefined); });
+		req.end();
+	});
+}
+
+/**
+ * Builds an account's identity from its profile and email list. /user/emails
+ * needs the `user:email` scope; for older github.com tokens without it the
+ * noreply address is derived from the user id and login instead.
+ * Resolves undefined when the profile cannot be read or no address is known.
+ */
+export async function fetchCommitIdentity(
+	account: Pick<MacideAccount, 'token' | 'host'>,
+	endpoints: GitHubEndpoints = endpointsFor(accountHost(account))
+): Promise<CommitIdentity | undefined> {
+	const user = await apiGet<{ id: number; login: string; name: string | null; email: string | null }>(account.token, endpoints, '/user');
+	if (!user) return undefined;
+	const emails = await apiGet<GitHubEmail[]>(account.token, endpoints, '/user/emails') ?? [];
+
+	const noreplyEmail = emails.find(e => NOREPLY_RE.test(e.email))?.email
+		?? (isDefaultHost(accountHost(account)) ? `${user.id}+${user.login}@users.noreply.github.com` : undefined);
+	const email = noreplyEmail
+		?? emails.find(e => e.primary && e.verified)?.email
+		?? user.email
+		?? undefined;
+	if (!email) return undefined;
+	return { name: user.name || user.login, email, noreplyEmail };
+}
+
+/** Repo-local config for an identity; undefined values are unset. */
+export function identityConfig(identity: CommitIdentity): [string, string | undefined][] {
+	const { signingKey } = identity;
+	const ssh = !!signingKey && /^(ssh-|ecdsa-|sk-|key::)|\.pub$/.test(signingKey);
+	return [
+		['user.name',       identity.name],
+		['user.email',      identity.email],
+		['user.signingkey', signingKey],
+		['commit.gpgsign',  signingKey ? 'true' : undefined],
+		['gpg.format',      ssh ? 'ssh' : undefined]
+	];
+}
+
+function git(root: string, args: string[]): Promise<string> {
+	return new Promise((resolve, reject) => {
+		cp.execFile('git', args, { cwd: root, timeout: 10_000 }, (err, stdout, stderr) => {
+			if (err) reject(Object.assign(new Error(stderr || err.message), { code: err.code }));
+			else resolve(stdout.trim());
+		});
+	});
+}
+
+/** The effective value of `key` in a repository (local, global or system), or undefined when unset. */
+async function effectiveConfig(root: string, key: string): Promise<string | undefined> {
+	try {
+		return await git(root, ['config', '--get', key]) || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** The effective `user.email` in a repository, or undefined when unset. */
+export function effectiveEmail(root: string): Promise<string | undefined> {
+	return effectiveConfig(root, 'user.email');
+}
+
+/** Keys Macide wrote to `root`'s local config. */
+async function managedKeys(root: string): Promise<string[]> {
+	try {
+		return (await git(root, ['config', '--local', '--get-all', MANAGED_KEY])).split('\n').filter(Boolean);
+	} catch {
+		return [];
+	}
+}
+
+async function unsetLocal(root: string, key: string): Promise<void> {
+	// Exit code 5: the key was not set, which is what we want
+	await git(root, ['config', '--local', '--unset-all', key]).catch((err: { code?: unknown }) => {
+		if (err.code !== 5) throw err;
+	});
+}
+
+/**
+ * True when `root` already commits as `identity`: same name, email and signing
+ * key (case-insensitively), and no signing setup left behind by another account.
+ */
+export async function hasCommitIdentity(root: string, identity: CommitIdentity): Promise<boolean> {
+	const managed = await managedKeys(root);
+	for (const [key, value] of identityConfig(identity)) {
+		if (value === undefined && !managed.includes(key)) continue;
+		const current = await effectiveConfig(root, key);
+		if (current?.toLowerCase() !== value?.toLowerCase()) return false;
+	}
+	return true;
+}
+
+/**
+ * Writes an identity to `root`'s local git config. Signing keys the identity
+ * does not use are unset only if Macide wrote them; hand-made setup stays.
+ */
+export async function applyCommitIdentity(root: string, identity: CommitIdentity): Promise<void> {
+	const managed = await managedKeys(root);
+	const written: string[] = [];
+	for (const [key, value] of identityConfig(identity)) {
+		if (value !== undefined) {
+			await git(root, ['config', '--local', key, value]);
+			written.push(key);
+		} else if (managed.includes(key)) {
+			await unsetLocal(root, key);
+		}
+	}
+	await unsetLocal(root, MANAGED_KEY);
+	for (const key of written) {
+		await git(root, ['config', '--local', '--add', MANAGED_KEY, key]);
+	}
+}
+
+export class CommitIdentityManager implements vscode.Disposable {
+	private readonly _disposables: vscode.Disposable[] = [];
+	/** Repository root → id of the account last chosen for it. */
+	private readonly _chosen = new Map<string, string>();
+	/** Roots already warned about in this session. */
+	private readonly _warned = new Set<string>();
+	/** Account ids already fetched this session; failures wait for the next session. */
+	private readonly _seen = new Set<string>();
+
+	constructor(
+		private readonly _accounts:      AccountManager,
+		private readonly _notifications: NotificationService
+	) {
+		// Accounts signed in before identities existed, and new sign-ins, have none yet
+		this._disposables.push(
+			_accounts.onDidChangeAccounts(accounts => this._fillMissing(accounts))
+		);
+		this._fillMissing(_accounts.getAll());
+
+		whenGitApiReady().then(api => {
+			if (!api) return;
+			this._disposables.push(api.onDidOpenRepository(repo => this._watch(repo)));
+			api.repositories.forEach(repo => this._watch(repo));
+		});
+	}
+
+	get mode(): CommitIdentityMode {
+		return vscode.workspace.getConfiguration('macide').get<CommitIdentityMode>('git.commitIdentity', 'apply');
+	}
+
+	/**
+	 * Records `account` as the one chosen for the repository at `root` and, in
+	 * 'apply' mode, writes its identity to the repository's local config.
+	 */
+	async accountChosen(root: string, account: MacideAccount): Promise<void> {
+		const mode = this.mode;
+		if (mode === 'off') return;
+		this._chosen.set(root, account.id);
+		const identity = account.commitIdentity;
+		if (mode !== 'apply' || !identity) return;
+		if (await hasCommitIdentity(root, identity)) return;
+
+		try {
+			await applyCommitIdentity(root, identity);
+			this._warned.delete(root);
+			this._notifications.info(`Commits here are now authored as ${identity.name} <${identity.email}> (@${account.githubUsername}).`);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : String(err);
+			this._notifications.error(`Could not set the commit identity for @${account.githubUsername}: ${msg}`);
+		}
+	}
+
+	/**
+	 * Warns once per repository when changes are staged under an identity
+	 * other than the chosen account's, offering to apply the account's.
+	 * Returns true if the identity was applied.
+	 */
+	async checkBeforeCommit(root: string): Promise<boolean> {
+		if (this.mode === 'off' || this._warned.has(root)) return false;
+		const account = this._accounts.getAll().find(a => a.id === this._chosen.get(root));
+		const identity = account?.commitIdentity;
+		if (!account || !identity) return false;
+
+		if (await hasCommitIdentity(root, identity)) return false;
+		this._warned.add(root);
+
+		const [name, email] = [await effectiveConfig(root, 'user.name'), await effectiveEmail(root)];
+		const current = email ? `${name ?? ''} <${email}>`.trim() : 'no configured email';
+		const apply = `Use @${account.githubUsername}'s Identity`;
+		const action = await vscode.window.showWarningMessage(
+			`Macide: Git uses "${account.alias}" (@${account.githubUsername}) here, but commits will be authored as ` +
+			`${current} instead of ${identity.name} <${identity.email}>${identity.signingKey ? ', signed with its key' : ''}.`,
+			apply
+		);
+		if (action !== apply) return false;
+
+		await applyCommitIdentity(root, identity);
+		this._notifications.info(`Commits here are now authored as ${identity.name} <${identity.email}>.`);
+		return true;
+	}
+
+	/** Input flow behind macide.setCommitIdentity. */
+	async promptEditIdentity(accountId?: string): Promise<void> {
+		const accounts = this._accounts.getAll();
+		let account = accounts.find(a => a.id === accountId);
+		if (!account) {
+			const picked = await vscode.window.showQuickPick(
+				accounts.map(a => ({
+					label: a.alias,
+					description: `@${a.githubUsername}${a.commitIdentity ? ` · ${a.commitIdentity.email}` : ''}`,
+					id: a.id
+				})),
+				{ placeHolder: 'Select the account to set a commit identity for' }
+			);
+			account = accounts.find(a => a.id === picked?.id);
+		}
+		if (!account) return;
+
+		const current = account.commitIdentity ?? await fetchCommitIdentity(account);
+		const name = await vscode.window.showInputBox({
+			prompt: `Commit author name for @${account.githubUsername}`,
+			value: current?.name ?? account.githubUsername,
+			validateInput: v => (v.trim() ? undefined : 'Name cannot be empty.')
+		});
+		if (name === undefined) return;
+		const email = await vscode.window.showInputBox({
+			prompt: current?.noreplyEmail
+				? `Commit email (noreply: ${current.noreplyEmail})`
+				: 'Commit email',
+			value: current?.email ?? '',
+			validateInput: v => (/^[^\s@<>]+@[^\s@<>]+$/.test(v.trim()) ? undefined : 'Enter an email address.')
+		});
+		if (email === undefined) return;
+		const signingKey = await vscode.window.showInputBox({
+			prompt: 'Signing key (GPG key id or SSH public key path); leave empty to not sign',
+			value: current?.signingKey ?? ''
+		});
+		if (signingKey === undefined) return;
+
+		const identity: CommitIdentity = {
+			name: name.trim(),
+			email: email.trim(),
+			noreplyEmail: current?.noreplyEmail,
+			signingKey: signingKey.trim() || undefined
+		};
+		await this._accounts.updateAccount({ ...account, commitIdentity: identity });
+		this._notifications.info(`Commit identity for @${account.githubUsername}: ${identity.name} <${identity.email}>.`);
+	}
+
+	private _fillMissing(accounts: MacideAccount[]): void {
+		for (const account of accounts) {
+			if (account.commitIdentity || !account.token || this._seen.has(account.id)) continue;
+			this._seen.add(account.id);
+			fetchCommitIdentity(account).then(async identity => {
+				// Re-read: the account may have changed or gone while the request ran
+				const latest = this._accounts.getAll().find(a => a.id === account.id);
+				if (!identity || !latest || latest.commitIdentity) return;
+				await this._accounts.updateAccount({ ...latest, commitIdentity: identity });
+			}).catch(() => { /* retried next session */ });
+		}
+	}
+
+	/** Staging is the last step before a commit the git API lets us see. */
+	private _watch(repo: Repository): void {
+		let staged = repo.state.indexChanges.length > 0;
+		this._disposables.push(repo.state.onDidChange(() => {
+			const now = repo.state.indexChanges.length > 0;
+			if (now && !staged) this.checkBeforeCommit(repo.rootUri.fsPath).catch(() => { /* best effort */ });
+			staged = now;
+		}));
+	}
+
+	dispose(): void {
+		this._disposables.forEach(d => d.dispose());
+	}
+}
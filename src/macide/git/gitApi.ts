@@ -144,6 +144,22 @@ export function getGitApi(): GitAPI | undefined {
 	return gitExt.getAPI(1);
 }
 
+/**
+ * Activates the built-in git extension if needed and resolves its API.
+ * Resolves undefined if the extension is missing or disabled.
+ */
+export async function whenGitApiReady(): Promise<GitAPI | undefined> {
+	const ext = vscode.extensions.getExtension<GitExtension>('vscode.git');
+	if (!ext) return undefined;
+	try {
+		const gitExt = ext.isActive ? ext.exports : await ext.activate();
+		if (!gitExt || !gitExt.enabled) return undefined;
+		return gitExt.getAPI(1);
+	} catch {
+		return undefined;
+	}
+}
+
 /**
  * Returns the repository for the currently active file, or the first open
  * repo, or undefined if no repo is open.
@@ -164,6 +180,16 @@ export function getActiveRepo(): Repository | undefined {
 	return api.repositories[0];
 }
 
+/** Remote URLs of a repository, with `origin` first. */
+export function remoteUrls(repo: Repository): string[] {
+	const remotes = [...repo.state.remotes].sort((a, b) =>
+		a.name === 'origin' ? -1 : b.name === 'origin' ? 1 : 0
+	);
+	return remotes
+		.flatMap(r => [r.fetchUrl, r.pushUrl])
+		.filter((u): u is string => !!u);
+}
+
 /** Formats a Date into a human-readable relative string ("3 days ago"). */
 export function relativeTime(date: Date | undefined): string {
 	if (!date) return 'unknown';
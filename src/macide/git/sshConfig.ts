@@ -0,0 +1,162 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * SSH Key Mapping — per-account SSH keys through ~/.ssh/config Host aliases.
+ *
+ * An account with `sshKeyPath` set gets a Host alias in a block Macide owns
+ * inside ~/.ssh/config:
+ *
+ *   # >>> macide managed >>>
+ *   Host github.com-alice
+ *     HostName github.com
+ *     User git
+ *     IdentityFile ~/.ssh/id_alice
+ *     IdentitiesOnly yes
+ *   # <<< macide managed <<<
+ *
+ * A remote of `git@github.com-alice:owner/repo.git` then always uses that key.
+ * Everything outside the markers is left as the user wrote it.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AccountManager } from '../accounts/manager';
+import type { MacideAccount } from '../auth/provider';
+import { accountHost } from '../auth/githubHost';
+
+const BLOCK_START = '# >>> macide managed >>>';
+const BLOCK_END   = '# <<< macide managed <<<';
+
+export function defaultSshConfigPath(): string {
+	return path.join(os.homedir(), '.ssh', 'config');
+}
+
+/** SSH Host alias for an account, e.g. "github.com-alice". */
+export function sshHostAlias(account: Pick<MacideAccount, 'host' | 'githubUsername'>): string {
+	return `${accountHost(account)}-${account.githubUsername.toLowerCase()}`;
+}
+
+/** The managed block for every account with a key, or '' when there are none. */
+export function renderSshConfigBlock(accounts: MacideAccount[]): string {
+	const entries = accounts
+		.filter(a => a.sshKeyPath)
+		.map(a => [
+			`Host ${sshHostAlias(a)}`,
+			`  HostName ${accountHost(a)}`,
+			'  User git',
+			`  IdentityFile "${a.sshKeyPath}"`,
+			'  IdentitiesOnly yes'
+		].join('\n'));
+	return entries.length ? [BLOCK_START, ...entries, BLOCK_END].join('\n') + '\n' : '';
+}
+
+/** `existing` with its managed block replaced by `block` (appended when absent, removed when empty). */
+export function applySshConfigBlock(existing: string, block: string): string {
+	const start = existing.indexOf(BLOCK_START);
+	const end = existing.indexOf(BLOCK_END, start);
+	if (start >= 0 && end >= 0) {
+		const after = existing.slice(end + BLOCK_END.length).replace(/^\r?\n/, '');
+		return existing.slice(0, start) + block + after;
+	}
+	if (!block) return existing;
+	const separator = existing && !existing.endsWith('\n') ? '\n\n' : existing ? '\n' : '';
+	return existing + separator + block;
+}
+
+/** Rewrites the managed block in `file`; resolves true if the file changed. */
+export async function writeSshConfig(accounts: MacideAccount[], file = defaultSshConfigPath()): Promise<boolean> {
+	const existing = await fs.promises.readFile(file, 'utf-8').catch((err: NodeJS.ErrnoException) => {
+		if (err.code === 'ENOENT') return '';
+		throw err;
+	});
+	const next = applySshConfigBlock(existing, renderSshConfigBlock(accounts));
+	if (next === existing) return false;
+	await fs.promises.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+	await fs.promises.writeFile(file, next, { mode: 0o600 });
+	return true;
+}
+
+/** What the managed block depends on; usage counters and status changes leave it alone. */
+function sshSignature(accounts: MacideAccount[]): string {
+	return JSON.stringify(accounts.map(a => [a.id, accountHost(a), a.githubUsername, a.sshKeyPath ?? '']));
+}
+
+export class SshKeyMapping implements vscode.Disposable {
+	private readonly _disposables: vscode.Disposable[] = [];
+	/** sshSignature of the accounts last synced; undefined until the first change. */
+	private _signature: string | undefined;
+	/** Writes run one after another so a slow one cannot overwrite a newer one. */
+	private _writing: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly _accounts: AccountManager,
+		private readonly _configPath = defaultSshConfigPath()
+	) {
+		// Keeps aliases of removed or renamed accounts out of the config. Account
+		// changes fire on every request count, so only key-relevant ones sync.
+		this._disposables.push(_accounts.onDidChangeAccounts(accounts => {
+			const signature = sshSignature(accounts);
+			if (signature === this._signature) return;
+			this._signature = signature;
+			this._writing = this._writing.then(() => this._sync(accounts));
+		}));
+	}
+
+	/** Resolves once queued config writes have finished. */
+	get idle(): Promise<void> {
+		return this._writing;
+	}
+
+	/** Quick-pick flow behind macide.setAccountSshKey. */
+	async promptSetKey(accountId?: string): Promise<void> {
+		const accounts = this._accounts.getAll();
+		let account = accounts.find(a => a.id === accountId);
+		if (!account) {
+			const picked = await vscode.window.showQuickPick(
+				accounts.map(a => ({
+					label: a.alias,
+					description: `@${a.githubUsername}${a.sshKeyPath ? ` · ${path.basename(a.sshKeyPath)}` : ''}`,
+					id: a.id
+				})),
+				{ placeHolder: 'Select the account to set an SSH key for' }
+			);
+			account = accounts.find(a => a.id === picked?.id);
+		}
+		if (!account) return;
+
+		const choice = account.sshKeyPath
+			? await vscode.window.showQuickPick(['Choose Another Key', 'Remove SSH Key'], { placeHolder: account.sshKeyPath })
+			: 'Choose Another Key';
+		if (!choice) return;
+
+		let sshKeyPath: string | undefined;
+		if (choice === 'Choose Another Key') {
+			const [key] = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				defaultUri: vscode.Uri.file(path.dirname(this._configPath)),
+				openLabel: 'Use This Private Key'
+			}) ?? [];
+			if (!key) return;
+			sshKeyPath = key.fsPath;
+		}
+
+		await this._accounts.updateAccount({ ...account, sshKeyPath });
+		vscode.window.showInformationMessage(sshKeyPath
+			? `Macide: SSH remotes using "${sshHostAlias(account)}" now authenticate as @${account.githubUsername}.`
+			: `Macide: Removed the SSH key for @${account.githubUsername}.`);
+	}
+
+	private async _sync(accounts: MacideAccount[]): Promise<void> {
+		try {
+			await writeSshConfig(accounts, this._configPath);
+		} catch (err: unknown) {
+			const msg = err instanceof Error ? err.message : String(err);
+			vscode.window.showWarningMessage(`Macide: Could not update ${this._configPath}: ${msg}`);
+		}
+	}
+
+	dispose(): void {
+		this._disposables.forEach(d => d.dispose());
+	}
+}
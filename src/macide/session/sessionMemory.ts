@@ -68,7 +68,7 @@ export class SessionMemory implements vscode.Disposable {
 			const account = this._accounts.getAll().find((a: MacideAccount) => a.id === accountId);
 			if (account) {
 				// Silently restore — don't trigger notifications
-				await this._accounts.setActive(account);
+				await this._accounts.setActive(account, 'restored');
 			}
 		}
 
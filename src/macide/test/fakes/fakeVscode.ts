@@ -0,0 +1,314 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Fake `vscode` module for tests.
+ *
+ * register.ts maps `require('vscode')` here, so the real macide modules load
+ * under plain Node. Only the API surface those modules touch is implemented.
+ * Tests drive it through `fake`: seed settings, script the answer to the next
+ * message box, and inspect what was shown. createExtensionContext() gives a
+ * context whose SecretStorage and Mementos live in memory.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ExtensionContext } from 'vscode';
+
+// ── Core types ────────────────────────────────────────────────────────────────
+
+export class Disposable {
+	constructor(private readonly _fn: () => void = () => { /* nothing */ }) {}
+
+	static from(...items: { dispose(): unknown }[]): Disposable {
+		return new Disposable(() => items.forEach(i => i.dispose()));
+	}
+
+	dispose(): void {
+		this._fn();
+	}
+}
+
+export class EventEmitter<T> {
+	private _listeners: ((e: T) => unknown)[] = [];
+
+	readonly event = (listener: (e: T) => unknown): Disposable => {
+		this._listeners.push(listener);
+		return new Disposable(() => {
+			this._listeners = this._listeners.filter(l => l !== listener);
+		});
+	};
+
+	fire(data: T): void {
+		[...this._listeners].forEach(l => l(data));
+	}
+
+	dispose(): void {
+		this._listeners = [];
+	}
+}
+
+export class Uri {
+	private constructor(
+		readonly scheme: string,
+		readonly authority: string,
+		readonly path: string,
+		readonly query: string,
+		readonly fragment: string
+	) {}
+
+	static parse(value: string): Uri {
+		const url = new URL(value);
+		return new Uri(url.protocol.replace(/:$/, ''), url.host, url.pathname, url.search.replace(/^\?/, ''), url.hash.replace(/^#/, ''));
+	}
+
+	static file(fsPath: string): Uri {
+		return new Uri('file', '', fsPath, '', '');
+	}
+
+	get fsPath(): string {
+		return this.path;
+	}
+
+	toString(): string {
+		return `${this.scheme}://${this.authority}${this.path}${this.query ? `?${this.query}` : ''}`;
+	}
+}
+
+export class ThemeIcon {
+	constructor(readonly id: string) {}
+}
+
+export class ThemeColor {
+	constructor(readonly id: string) {}
+}
+
+export class Position {
+	constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+	readonly start: Position;
+	readonly end: Position;
+
+	constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+		this.start = new Position(startLine, startCharacter);
+		this.end = new Position(endLine, endCharacter);
+	}
+}
+
+export enum ProgressLocation { SourceControl = 1, Window = 10, Notification = 15 }
+export enum ConfigurationTarget { Global = 1, Workspace = 2, WorkspaceFolder = 3 }
+export enum StatusBarAlignment { Left = 1, Right = 2 }
+export enum ViewColumn { Active = -1, Beside = -2, One = 1, Two = 2 }
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+export class InMemorySecretStorage {
+	private readonly _values = new Map<string, string>();
+	private readonly _onDidChange = new EventEmitter<{ key: string }>();
+	readonly onDidChange = this._onDidChange.event;
+
+	async get(key: string): Promise<string | undefined> {
+		return this._values.get(key);
+	}
+
+	async store(key: string, value: string): Promise<void> {
+		this._values.set(key, value);
+		this._onDidChange.fire({ key });
+	}
+
+	async delete(key: string): Promise<void> {
+		if (this._values.delete(key)) this._onDidChange.fire({ key });
+	}
+
+	keys(): string[] {
+		return [...this._values.keys()];
+	}
+}
+
+export class InMemoryMemento {
+	private readonly _values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this._values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this._values.has(key) ? structuredClone(this._values.get(key)) as T : defaultValue;
+	}
+
+	async update(key: string, value: unknown): Promise<void> {
+		if (value === undefined) this._values.delete(key);
+		else this._values.set(key, structuredClone(value));
+	}
+
+	setKeysForSync(): void { /* no settings sync */ }
+}
+
+export interface EnvironmentMutation {
+	type:  'replace' | 'append' | 'prepend';
+	value: string;
+}
+
+export class InMemoryEnvironmentVariableCollection {
+	persistent = true;
+	private readonly _mutations = new Map<string, EnvironmentMutation>();
+
+	replace(variable: string, value: string): void { this._mutations.set(variable, { type: 'replace', value }); }
+	append(variable: string, value: string): void  { this._mutations.set(variable, { type: 'append', value }); }
+	prepend(variable: string, value: string): void { this._mutations.set(variable, { type: 'prepend', value }); }
+	get(variable: string): EnvironmentMutation | undefined { return this._mutations.get(variable); }
+	delete(variable: string): void { this._mutations.delete(variable); }
+	clear(): void { this._mutations.clear(); }
+
+	forEach(callback: (variable: string, mutation: EnvironmentMutation) => void): void {
+		this._mutations.forEach((mutation, variable) => callback(variable, mutation));
+	}
+
+	/** `base` with the mutations applied, as a new terminal would see it. */
+	applyTo(base: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+		const env = { ...base };
+		this.forEach((variable, { type, value }) => {
+			const current = env[variable] ?? '';
+			env[variable] = type === 'replace' ? value : type === 'append' ? current + value : value + current;
+		});
+		return env;
+	}
+}
+
+/**
+ * An ExtensionContext backed by the in-memory stores above. Storage URIs point
+ * at a fresh temp directory so file-writing modules stay out of the user's profile.
+ */
+export function createExtensionContext(): ExtensionContext {
+	const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'macide-test-'));
+	const context = {
+		subscriptions:    [] as { dispose(): unknown }[],
+		secrets:          new InMemorySecretStorage(),
+		globalState:      new InMemoryMemento(),
+		workspaceState:   new InMemoryMemento(),
+		environmentVariableCollection: new InMemoryEnvironmentVariableCollection(),
+		extensionUri:     Uri.file(storage),
+		extensionPath:    storage,
+		globalStorageUri: Uri.file(path.join(storage, 'global')),
+		storageUri:       Uri.file(path.join(storage, 'workspace')),
+		logUri:           Uri.file(path.join(storage, 'logs'))
+	};
+	return context as unknown as ExtensionContext;
+}
+
+// ── Test controls ─────────────────────────────────────────────────────────────
+
+export interface ShownMessage {
+	severity: 'info' | 'warning' | 'error';
+	message:  string;
+	items:    string[];
+}
+
+/** Test-side handle on the fake: seeded state in, observed calls out. */
+export const fake = {
+	/** `macide.*`-style settings, keyed by full dotted name. */
+	settings:  new Map<string, unknown>(),
+	/** Every message box shown, in order. */
+	messages:  [] as ShownMessage[],
+	/** Answers for upcoming message boxes, consumed in order; undefined = dismissed. */
+	answers:   [] as (string | undefined)[],
+	/** URLs passed to env.openExternal. */
+	opened:    [] as string[],
+	clipboard: '',
+	/** Commands run through commands.executeCommand. */
+	executed:  [] as { command: string; args: unknown[] }[],
+	/** Installed extensions by id, as returned from extensions.getExtension. */
+	extensions: new Map<string, { isActive: boolean; exports: unknown; activate?: () => Promise<unknown> }>(),
+
+	reset(): void {
+		this.settings.clear();
+		this.messages.length = 0;
+		this.answers.length = 0;
+		this.opened.length = 0;
+		this.clipboard = '';
+		this.executed.length = 0;
+		this.extensions.clear();
+	}
+};
+
+const configurationChanged = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+
+function showMessage(severity: ShownMessage['severity'], message: string, rest: unknown[]): Promise<string | undefined> {
+	const items = rest.filter((r): r is string => typeof r === 'string');
+	fake.messages.push({ severity, message, items });
+	return Promise.resolve(fake.answers.shift());
+}
+
+// ── Namespaces ────────────────────────────────────────────────────────────────
+
+export const window = {
+	showInformationMessage: (message: string, ...rest: unknown[]) => showMessage('info', message, rest),
+	showWarningMessage:     (message: string, ...rest: unknown[]) => showMessage('warning', message, rest),
+	showErrorMessage:       (message: string, ...rest: unknown[]) => showMessage('error', message, rest),
+
+	createTextEditorDecorationType(_options: unknown) {
+		return { key: 'fake-decoration', dispose: () => { /* nothing */ } };
+	},
+
+	withProgress<R>(
+		_options: unknown,
+		task: (progress: { report(value: unknown): void }, token: { isCancellationRequested: boolean; onCancellationRequested: (l: () => void) => Disposable }) => Promise<R>
+	): Promise<R> {
+		return task(
+			{ report: () => { /* ignored */ } },
+			{ isCancellationRequested: false, onCancellationRequested: () => new Disposable() }
+		);
+	}
+};
+
+export const env = {
+	clipboard: {
+		writeText: async (text: string) => { fake.clipboard = text; },
+		readText:  async () => fake.clipboard
+	},
+	openExternal: async (uri: Uri) => {
+		fake.opened.push(uri.toString());
+		return true;
+	}
+};
+
+export const workspace = {
+	getConfiguration(section?: string) {
+		const key = (k: string) => (section ? `${section}.${k}` : k);
+		return {
+			get<T>(k: string, defaultValue?: T): T | undefined {
+				return fake.settings.has(key(k)) ? fake.settings.get(key(k)) as T : defaultValue;
+			},
+			has(k: string): boolean {
+				return fake.settings.has(key(k));
+			},
+			async update(k: string, value: unknown): Promise<void> {
+				const changed = key(k);
+				if (value === undefined) fake.settings.delete(changed);
+				else fake.settings.set(changed, value);
+				configurationChanged.fire({
+					affectsConfiguration: (section: string) => changed === section || changed.startsWith(`${section}.`)
+				});
+			}
+		};
+	},
+
+	onDidChangeConfiguration: configurationChanged.event
+};
+
+export const extensions = {
+	getExtension(id: string) {
+		return fake.extensions.get(id);
+	}
+};
+
+export const commands = {
+	async executeCommand(command: string, ...args: unknown[]): Promise<unknown> {
+		fake.executed.push({ command, args });
+		return undefined;
+	},
+	registerCommand(): Disposable {
+		return new Disposable();
+	}
+};
@@ -0,0 +1,20 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Test preload — resolves `vscode` to the fake (node --require …/register.js)
+ * and points HOME at a temp directory so MacideConfig never touches the
+ * developer's ~/.macide.
+ *--------------------------------------------------------------------------------------------*/
+
+import Module = require('module');
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+process.env.HOME = process.env.USERPROFILE = fs.mkdtempSync(path.join(os.tmpdir(), 'macide-home-'));
+
+const fakePath = require.resolve('./fakeVscode');
+const resolve = (Module as any)._resolveFilename;
+
+(Module as any)._resolveFilename = function (request: string, ...rest: unknown[]) {
+	return request === 'vscode' ? fakePath : resolve.call(this, request, ...rest);
+};
@@ -0,0 +1,175 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Integration: per-account commit identities, fetched from the mock server and
+ * written to real temporary repositories.
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialBridge } from '../../auth/credentialBridge';
+import { applyCommitIdentity, CommitIdentityManager, effectiveEmail, fetchCommitIdentity, hasCommitIdentity } from '../../git/commitIdentity';
+import type { CommitIdentity } from '../../git/commitIdentity';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import { fake } from '../fakes/fakeVscode';
+import { accountFor, MemoryAccountManager, RecordingNotifications } from './helpers';
+
+const hasGit = (() => {
+	try {
+		execFileSync('git', ['--version']);
+		return true;
+	} catch {
+		return false;
+	}
+})();
+
+function tempRepo(): string {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'macide-identity-'));
+	execFileSync('git', ['init', '-q'], { cwd: root });
+	return root;
+}
+
+function localConfig(root: string, key: string): string | undefined {
+	try {
+		return execFileSync('git', ['config', '--local', '--get', key], { cwd: root, encoding: 'utf-8' }).trim();
+	} catch {
+		return undefined;
+	}
+}
+
+describe('Commit identity', () => {
+	const server = new MockGitHubServer();
+	const personal = server.addUser({
+		id: 1, login: 'me', token: 'gho_me', name: 'Me Myself',
+		emails: ['me@home.example', '1+me@users.noreply.github.com']
+	});
+	const contractor = server.addUser({ id: 3, login: 'contractor', token: 'gho_contract', repos: { 'client/site': 'write' } });
+	const corp = server.addUser({ id: 4, login: 'corp', token: 'gho_corp', emails: ['corp@example.corp'] });
+
+	const contractorIdentity: CommitIdentity = { name: 'Con Tractor', email: '3+contractor@users.noreply.github.com' };
+
+	let accounts: MemoryAccountManager;
+	let notifications: RecordingNotifications;
+	let manager: CommitIdentityManager;
+
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => {
+		fake.reset();
+		accounts = new MemoryAccountManager([
+			accountFor(personal, { commitIdentity: { name: 'Me Myself', email: 'me@home.example' } }),
+			accountFor(contractor, { commitIdentity: contractorIdentity })
+		]);
+		notifications = new RecordingNotifications();
+		manager = new CommitIdentityManager(accounts.asManager, notifications.asService);
+	});
+	afterEach(() => manager.dispose());
+
+	it('defaults to the noreply address from /user/emails', async () => {
+		const identity = await fetchCommitIdentity(accountFor(personal));
+
+		assert.deepEqual(identity, { name: 'Me Myself', email: '1+me@users.noreply.github.com', noreplyEmail: '1+me@users.noreply.github.com' });
+	});
+
+	it('derives the github.com noreply address when the token cannot list emails', async () => {
+		assert.deepEqual(await fetchCommitIdentity(accountFor(contractor)), {
+			name: 'contractor',
+			email: '3+contractor@users.noreply.github.com',
+			noreplyEmail: '3+contractor@users.noreply.github.com'
+		});
+		// Enterprise hosts have no derivable noreply address: the primary one is used
+		assert.equal((await fetchCommitIdentity(accountFor(corp, { host: 'ghes.example.corp' })))?.email, 'corp@example.corp');
+	});
+
+	it('fills in identities for accounts that have none', async () => {
+		await accounts.addAccount(accountFor(corp));
+
+		for (let i = 0; i < 100 && !accounts.getAll()[2].commitIdentity; i++) {
+			await new Promise(resolve => setTimeout(resolve, 10));
+		}
+
+		assert.equal(accounts.getAll()[2].commitIdentity?.email, '4+corp@users.noreply.github.com');
+	});
+
+	it('writes the identity and signing setup to the local config', { skip: !hasGit }, async () => {
+		const root = tempRepo();
+
+		await applyCommitIdentity(root, { ...contractorIdentity, signingKey: '/keys/id_contractor.pub' });
+
+		assert.equal(localConfig(root, 'user.email'), contractorIdentity.email);
+		assert.equal(localConfig(root, 'user.signingkey'), '/keys/id_contractor.pub');
+		assert.equal(localConfig(root, 'commit.gpgsign'), 'true');
+		assert.equal(localConfig(root, 'gpg.format'), 'ssh');
+
+		await applyCommitIdentity(root, contractorIdentity);
+
+		assert.equal(localConfig(root, 'user.signingkey'), undefined);
+		assert.equal(localConfig(root, 'commit.gpgsign'), undefined);
+	});
+
+	it('leaves signing setup it did not write alone', { skip: !hasGit }, async () => {
+		const root = tempRepo();
+		execFileSync('git', ['config', '--local', 'user.signingkey', 'ABCD1234'], { cwd: root });
+		execFileSync('git', ['config', '--local', 'commit.gpgsign', 'true'], { cwd: root });
+
+		await applyCommitIdentity(root, contractorIdentity);
+
+		assert.equal(localConfig(root, 'user.email'), contractorIdentity.email);
+		assert.equal(localConfig(root, 'user.signingkey'), 'ABCD1234');
+		assert.equal(localConfig(root, 'commit.gpgsign'), 'true');
+	});
+
+	it('fixes a name or signing key mismatch, ignoring the case of the email', { skip: !hasGit }, async () => {
+		const root = tempRepo();
+		const contractorAccount = { ...accounts.getAll()[1], commitIdentity: { ...contractorIdentity, signingKey: '/keys/id_contractor.pub' } };
+		execFileSync('git', ['config', '--local', 'user.name', 'Someone Else'], { cwd: root });
+		execFileSync('git', ['config', '--local', 'user.email', contractorIdentity.email.toUpperCase()], { cwd: root });
+
+		await manager.accountChosen(root, contractorAccount);
+
+		assert.equal(localConfig(root, 'user.name'), 'Con Tractor');
+		assert.equal(localConfig(root, 'user.signingkey'), '/keys/id_contractor.pub');
+		assert.equal(await hasCommitIdentity(root, { ...contractorIdentity, email: contractorIdentity.email.toUpperCase() }), false);
+		assert.equal(await hasCommitIdentity(root, { ...contractorAccount.commitIdentity, email: contractorIdentity.email.toUpperCase() }), true);
+		assert.equal(await manager.checkBeforeCommit(root), false);
+	});
+
+	it('applies the identity of the account the bridge routes a repository to', { skip: !hasGit }, async () => {
+		const root = tempRepo();
+		const bridge = new CredentialBridge(accounts.asManager, new RecordingNotifications().asService);
+		let chosen: Promise<void> | undefined;
+		bridge.onDidRouteRepository(({ root, account }) => { chosen = manager.accountChosen(root, account); });
+
+		await bridge.checkCrossAccountRemote('https://github.com/client/site.git', { root, name: 'origin' });
+		await chosen;
+		bridge.dispose();
+
+		assert.equal(localConfig(root, 'user.name'), 'Con Tractor');
+		assert.equal(localConfig(root, 'user.email'), contractorIdentity.email);
+		// Copilot stays where it was
+		assert.equal(accounts.getActive()?.githubUsername, 'me');
+	});
+
+	it('only warns in warn mode, once, and applies on request', { skip: !hasGit }, async () => {
+		fake.settings.set('macide.git.commitIdentity', 'warn');
+		const root = tempRepo();
+		await manager.accountChosen(root, accounts.getAll()[1]);
+		assert.equal(localConfig(root, 'user.email'), undefined);
+		fake.answers.push("Use @contractor's Identity");
+
+		assert.equal(await manager.checkBeforeCommit(root), true);
+		assert.equal(await manager.checkBeforeCommit(root), false);
+
+		assert.equal(fake.messages.length, 1);
+		assert.match(fake.messages[0].message, /"contractor".*instead of Con Tractor <3\+contractor@users\.noreply\.github\.com>/);
+		assert.equal(await effectiveEmail(root), contractorIdentity.email);
+	});
+
+	it('stays quiet for repositories no account was chosen for', { skip: !hasGit }, async () => {
+		assert.equal(await manager.checkBeforeCommit(tempRepo()), false);
+		assert.equal(fake.messages.length, 0);
+	});
+});
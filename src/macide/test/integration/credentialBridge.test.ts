@@ -0,0 +1,328 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Integration: CredentialBridge routing against the mock server's repo access matrix.
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialBridge, formatRemoteUrl, parseGitHubRemote } from '../../auth/credentialBridge';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import { EventEmitter, fake } from '../fakes/fakeVscode';
+import type { Repository } from '../../git/gitApi';
+import { accountFor, MemoryAccountManager, RecordingNotifications, settle } from './helpers';
+
+const hasGit = (() => {
+	try {
+		execFileSync('git', ['--version']);
+		return true;
+	} catch {
+		return false;
+	}
+})();
+
+describe('CredentialBridge', () => {
+	const server = new MockGitHubServer();
+	const personal = server.addUser({ id: 1, login: 'me', token: 'gho_me', repos: { 'me/dotfiles': 'admin' } });
+	const work = server.addUser({ id: 2, login: 'me-at-work', token: 'gho_work', repos: { 'acme/api': 'write' } });
+	const contractor = server.addUser({ id: 3, login: 'contractor', token: 'gho_contract', repos: { 'acme/api': 'read', 'client/site': 'write', 'client/docs': 'read' } });
+	const ghes = server.addUser({ id: 4, login: 'corp', token: 'gho_corp', repos: { 'platform/infra': 'write' } });
+
+	let accounts: MemoryAccountManager;
+	let bridge: CredentialBridge;
+
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => {
+		fake.reset();
+		server.requests.length = 0;
+		accounts = new MemoryAccountManager([
+			accountFor(personal),
+			accountFor(work),
+			accountFor(contractor),
+			accountFor(ghes, { host: 'ghes.example.corp' })
+		]);
+		bridge = new CredentialBridge(accounts.asManager, new RecordingNotifications().asService);
+	});
+	afterEach(() => bridge.dispose());
+
+	it('routes Git to the account that can access the remote without switching Copilot', async () => {
+		const switched = await bridge.checkCrossAccountRemote('https://github.com/client/site.git');
+
+		assert.equal(switched, false);
+		assert.equal(accounts.getActive()?.githubUsername, 'me');
+		assert.match(fake.messages[0].message, /contractor.*client\/site.*Copilot stays on "me"/);
+		assert.deepEqual(await bridge.resolveCredentials('https://github.com/client/site.git'), { username: 'contractor', password: 'gho_contract' });
+	});
+
+	it('switches Copilot too when asked', async () => {
+		fake.answers.push('Switch Copilot Too');
+
+		const switched = await bridge.checkCrossAccountRemote('https://github.com/acme/api');
+
+		assert.equal(switched, true);
+		assert.equal(accounts.getActive()?.githubUsername, 'me-at-work');
+	});
+
+	it('caches probe results per remote and warns once', async () => {
+		await bridge.checkCrossAccountRemote('https://github.com/client/site.git');
+		const probes = server.requests.length;
+
+		await bridge.checkCrossAccountRemote('https://github.com/client/site.git');
+		await bridge.resolveCredentials('https://github.com/client/site');
+
+		assert.equal(server.requests.length, probes);
+		assert.equal(fake.messages.length, 1);
+	});
+
+	it('prefers an account with push rights over a read-only active account', async () => {
+		await accounts.setActive(accounts.getAll()[2]);
+
+		assert.equal((await bridge.routeFor('github.com', 'acme', 'api'))?.githubUsername, 'me-at-work');
+		assert.equal((await bridge.routeFor('github.com', 'client', 'site'))?.githubUsername, 'contractor');
+	});
+
+	it('warns before a push when no stored account can push to the repo', async () => {
+		const switched = await bridge.checkCrossAccountRemote('https://github.com/client/docs.git');
+
+		assert.equal(switched, false);
+		assert.equal(fake.messages[0].severity, 'warning');
+		assert.match(fake.messages[0].message, /No stored account can push to "client\/docs"/);
+		// Still readable, so Git can fetch with the collaborator account
+		assert.equal((await bridge.resolveCredentials('https://github.com/client/docs.git'))?.username, 'contractor');
+	});
+
+	it('probes again once cached access expires', async () => {
+		const now = Date.now;
+		try {
+			await bridge.routeFor('github.com', 'client', 'site');
+			const probes = server.requests.length;
+
+			Date.now = () => now() + 11 * 60 * 1000;
+			await bridge.routeFor('github.com', 'client', 'site');
+
+			assert.ok(server.requests.length > probes);
+		} finally {
+			Date.now = now;
+		}
+	});
+
+	it('routes silently with auto-switch', async () => {
+		fake.settings.set('macide.git.credentialMismatchBehavior', 'auto-switch');
+
+		await bridge.checkCrossAccountRemote('https://github.com/client/site.git');
+
+		assert.equal(fake.messages.length, 0);
+		assert.equal((await bridge.resolveCredentials('https://github.com/client/site.git'))?.username, 'contractor');
+	});
+
+	it('keeps Git on the active account with ignore', async () => {
+		fake.settings.set('macide.git.credentialMismatchBehavior', 'ignore');
+
+		assert.equal(await bridge.checkCrossAccountRemote('https://github.com/client/site.git'), false);
+		assert.equal((await bridge.resolveCredentials('https://github.com/client/site.git'))?.username, 'me');
+		assert.equal(server.requests.length, 0);
+		assert.equal(fake.messages.length, 0);
+	});
+
+	it('checks every repository the git extension opens', async () => {
+		const opened = new EventEmitter<Repository>();
+		const stateChanged = new EventEmitter<void>();
+		const remotes: { name: string; fetchUrl?: string; isReadOnly: boolean }[] = [];
+		fake.extensions.set('vscode.git', {
+			isActive: true,
+			exports:  { enabled: true, getAPI: () => ({ repositories: [], onDidOpenRepository: opened.event, onDidCloseRepository: new EventEmitter<Repository>().event }) }
+		});
+		bridge.dispose();
+		bridge = new CredentialBridge(accounts.asManager, new RecordingNotifications().asService);
+		await settle();
+
+		// Remotes arrive with the first status refresh after the repository opens
+		opened.fire({ rootUri: { fsPath: '/work/site' }, state: { remotes, onDidChange: stateChanged.event } } as unknown as Repository);
+		remotes.push({ name: 'origin', fetchUrl: 'https://github.com/client/site.git', isReadOnly: false });
+		stateChanged.fire();
+		for (let i = 0; i < 5 && !fake.messages.length; i++) await new Promise(resolve => setTimeout(resolve, 20));
+
+		assert.match(fake.messages[0].message, /client\/site/);
+	});
+
+	describe('routed repositories', () => {
+		const site = { root: '/work/site', name: 'origin' };
+		let routed: { root: string; account: string }[];
+
+		function listen(): void {
+			routed = [];
+			bridge.onDidRouteRepository(({ root, account }) => routed.push({ root, account: account.githubUsername }));
+		}
+
+		it('reports the account a repository is routed to', async () => {
+			listen();
+
+			await bridge.checkCrossAccountRemote('https://github.com/client/site.git', site);
+
+			assert.deepEqual(routed, [{ root: '/work/site', account: 'contractor' }]);
+		});
+
+		it('reports the only account without probing', async () => {
+			bridge.dispose();
+			accounts = new MemoryAccountManager([accountFor(personal)]);
+			bridge = new CredentialBridge(accounts.asManager, new RecordingNotifications().asService);
+			listen();
+
+			await bridge.checkCrossAccountRemote('https://github.com/client/site.git', site);
+
+			assert.deepEqual(routed, [{ root: '/work/site', account: 'me' }]);
+			assert.equal(server.requestsTo('/repos/').length, 0);
+		});
+
+		it('reports the active account when mismatches are ignored', async () => {
+			fake.settings.set('macide.git.credentialMismatchBehavior', 'ignore');
+			listen();
+
+			await bridge.checkCrossAccountRemote('https://github.com/client/site.git', site);
+
+			assert.deepEqual(routed, [{ root: '/work/site', account: 'me' }]);
+			assert.equal(fake.messages.length, 0);
+		});
+
+		it('reports repositories the credential helper resolves for', async () => {
+			const repo = {
+				rootUri: { fsPath: '/work/site' },
+				state:   { remotes: [{ name: 'origin', fetchUrl: 'https://github.com/client/site.git', isReadOnly: false }], onDidChange: new EventEmitter<void>().event }
+			};
+			fake.extensions.set('vscode.git', {
+				isActive: true,
+				exports:  { enabled: true, getAPI: () => ({ repositories: [repo], onDidOpenRepository: new EventEmitter<Repository>().event, onDidCloseRepository: new EventEmitter<Repository>().event }) }
+			});
+			listen();
+
+			await bridge.resolveCredentials('https://github.com/client/site.git', '/work/site');
+			// Another directory, or a different remote in the same one, is not this repository
+			await bridge.resolveCredentials('https://github.com/client/site.git', '/work/elsewhere');
+			await bridge.resolveCredentials('https://github.com/acme/api.git', '/work/site');
+
+			assert.deepEqual(routed, [{ root: '/work/site', account: 'contractor' }]);
+		});
+	});
+
+	it('keeps one remotes listener per repository and drops it when the repository closes', async () => {
+		const opened = new EventEmitter<Repository>();
+		const closed = new EventEmitter<Repository>();
+		const changed = new EventEmitter<void>();
+		let listening = 0;
+		const remotes: { name: string; fetchUrl: string; isReadOnly: boolean }[] = [];
+		const repo = {
+			rootUri: { fsPath: '/work/site' },
+			state:   {
+				remotes,
+				onDidChange: (listener: () => unknown) => {
+					listening++;
+					const subscription = changed.event(listener);
+					return { dispose: () => { listening--; subscription.dispose(); } };
+				}
+			}
+		} as unknown as Repository;
+		fake.extensions.set('vscode.git', {
+			isActive: true,
+			exports:  { enabled: true, getAPI: () => ({ repositories: [], onDidOpenRepository: opened.event, onDidCloseRepository: closed.event }) }
+		});
+		bridge.dispose();
+		bridge = new CredentialBridge(accounts.asManager, new RecordingNotifications().asService);
+		await settle();
+
+		opened.fire(repo);
+		opened.fire(repo);
+		changed.fire();
+		assert.equal(listening, 1);
+
+		closed.fire(repo);
+		assert.equal(listening, 0);
+
+		opened.fire(repo);
+		remotes.push({ name: 'origin', fetchUrl: 'https://github.com/client/site.git', isReadOnly: false });
+		const routed = new Promise(resolve => bridge.onDidRouteRepository(resolve));
+		changed.fire();
+		assert.equal(listening, 0);
+		await routed;
+	});
+
+	it('does not prompt when no other account can access the repo', async () => {
+		const switched = await bridge.checkCrossAccountRemote('https://github.com/someone/private');
+
+		assert.equal(switched, false);
+		assert.equal(fake.messages.length, 0);
+		// Every github.com account was asked, the GHES account was not
+		const probed = server.requestsTo('/repos/someone/private').map(r => r.authorization);
+		assert.deepEqual(probed.sort(), ['token gho_contract', 'token gho_me', 'token gho_work']);
+	});
+
+	it('checks GHES remotes only with accounts on that host', async () => {
+		await accounts.setActive(accounts.getAll()[1]);
+		fake.answers.push('Switch Copilot Too');
+
+		const switched = await bridge.checkCrossAccountRemote('https://ghes.example.corp/platform/infra.git');
+
+		assert.equal(switched, true);
+		assert.equal(accounts.getActive()?.githubUsername, 'corp');
+		const probe = server.requestsTo('/repos/platform/infra')[0];
+		assert.equal(probe.host, 'ghes.example.corp');
+		assert.equal(probe.path, '/api/v3/repos/platform/infra');
+	});
+
+	it('resolves credentials from the account on the remote host', async () => {
+		const creds = await bridge.resolveCredentials('https://ghes.example.corp/platform/infra.git');
+
+		assert.deepEqual(creds, { username: 'corp', password: 'gho_corp' });
+		assert.equal(await bridge.resolveCredentials('https://gitlab.com/a/b.git'), null);
+	});
+
+	describe('SSH remotes', () => {
+		const hosts = ['github.com', 'ghes.example.corp'];
+
+		it('parses scp-style, ssh:// and Macide Host alias remotes', () => {
+			assert.deepEqual(parseGitHubRemote('git@github.com:acme/api.git', hosts), { host: 'github.com', owner: 'acme', repo: 'api', protocol: 'ssh' });
+			assert.deepEqual(parseGitHubRemote('ssh://git@ghes.example.corp:2222/platform/infra', hosts), { host: 'ghes.example.corp', owner: 'platform', repo: 'infra', protocol: 'ssh' });
+			assert.deepEqual(parseGitHubRemote('git@github.com-alice:acme/api.git', hosts), { host: 'github.com', owner: 'acme', repo: 'api', protocol: 'ssh', sshAlias: 'github.com-alice' });
+			assert.equal(parseGitHubRemote('https://github.com/acme/api.git', hosts)?.protocol, 'https');
+			assert.equal(parseGitHubRemote('git@gitlab.com:acme/api.git', hosts), null);
+			assert.equal(parseGitHubRemote('git@github.com:acme', hosts), null);
+		});
+
+		it('formats HTTPS and SSH URLs for a remote', () => {
+			const remote = { host: 'github.com', owner: 'acme', repo: 'api' };
+			assert.equal(formatRemoteUrl(remote, 'https'), 'https://github.com/acme/api.git');
+			assert.equal(formatRemoteUrl(remote, 'ssh'), 'git@github.com:acme/api.git');
+			assert.equal(formatRemoteUrl(remote, 'ssh', 'github.com-me-at-work'), 'git@github.com-me-at-work:acme/api.git');
+		});
+
+		it('runs the cross-account check for SSH remotes', async () => {
+			await bridge.checkCrossAccountRemote('git@github.com:client/docs.git');
+
+			assert.match(fake.messages[0].message, /No stored account can push to "client\/docs"/);
+		});
+
+		it('offers to rewrite an SSH remote to HTTPS or the routed account\'s key', { skip: !hasGit }, async () => {
+			const root = fs.mkdtempSync(path.join(os.tmpdir(), 'macide-repo-'));
+			execFileSync('git', ['init', '-q'], { cwd: root });
+			execFileSync('git', ['remote', 'add', 'origin', 'git@github.com:acme/api.git'], { cwd: root });
+			const work = accounts.getAll()[1];
+			await accounts.updateAccount({ ...work, sshKeyPath: '/keys/id_work' });
+			fake.answers.push('Use HTTPS');
+
+			await bridge.checkCrossAccountRemote('git@github.com:acme/api.git', { root, name: 'origin' });
+
+			assert.match(fake.messages[0].message, /uses SSH.*"me-at-work"/);
+			assert.deepEqual(fake.messages[0].items, ['Use HTTPS', "Use @me-at-work's SSH Key"]);
+			assert.equal(execFileSync('git', ['remote', 'get-url', 'origin'], { cwd: root, encoding: 'utf-8' }).trim(), 'https://github.com/acme/api.git');
+		});
+
+		it('stays quiet when the remote already uses the routed account\'s key', async () => {
+			await bridge.checkCrossAccountRemote('git@github.com-me-at-work:acme/api.git');
+
+			assert.equal(fake.messages.length, 0);
+		});
+	});
+});
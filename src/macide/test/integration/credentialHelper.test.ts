@@ -0,0 +1,192 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Integration: git-credential-macide → CredentialServer → CredentialBridge,
+ * driven by the real `git credential fill` with a Macide terminal's environment.
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFile, execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { CredentialBridge } from '../../auth/credentialBridge';
+import { CredentialServer } from '../../auth/credentialServer';
+import type { TokenValidator } from '../../auth/tokenValidator';
+import type { MacideAccount } from '../../auth/provider';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import { createExtensionContext, fake } from '../fakes/fakeVscode';
+import type { InMemoryEnvironmentVariableCollection } from '../fakes/fakeVscode';
+import { accountFor, MemoryAccountManager, RecordingNotifications, settle } from './helpers';
+
+const hasGit = (() => {
+	try {
+		execFileSync('git', ['--version']);
+		return true;
+	} catch {
+		return false;
+	}
+})();
+
+function run(command: string, args: string[], input: string, env: NodeJS.ProcessEnv): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const child = execFile(command, args, { env, timeout: 20_000 }, (err, stdout) => (err ? reject(err) : resolve(stdout)));
+		child.stdin!.end(input);
+	});
+}
+
+function parse(output: string): Record<string, string> {
+	return Object.fromEntries(output.trim().split('\n').filter(Boolean).map(line => line.split(/=(.*)/s).slice(0, 2)));
+}
+
+describe('git-credential-macide', () => {
+	const server = new MockGitHubServer();
+	const personal = server.addUser({ id: 1, login: 'me', token: 'gho_me', repos: { 'me/dotfiles': 'admin' } });
+	const contractor = server.addUser({ id: 3, login: 'contractor', token: 'gho_contract', repos: { 'client/site': 'write' } });
+	const ghes = server.addUser({ id: 4, login: 'corp', token: 'gho_corp', repos: { 'platform/infra': 'write' } });
+
+	let context: vscode.ExtensionContext;
+	let accounts: MemoryAccountManager;
+	let validated: string[];
+	let credentials: CredentialServer;
+
+	const collection = () => context.environmentVariableCollection as unknown as InMemoryEnvironmentVariableCollection;
+
+	/** What a new Macide terminal sees, minus anything from the developer's own git setup. */
+	function terminalEnv(): NodeJS.ProcessEnv {
+		const base: NodeJS.ProcessEnv = { PATH: process.env.PATH, HOME: process.env.HOME, GIT_CONFIG_NOSYSTEM: '1', GIT_TERMINAL_PROMPT: '0' };
+		return collection().applyTo(base);
+	}
+
+	/** The developer's own GIT_CONFIG_* entries, set aside so the terminal environment is predictable. */
+	const gitConfigEnv = Object.entries(process.env).filter(([name]) => name.startsWith('GIT_CONFIG_'));
+
+	before(() => server.start());
+	after(() => {
+		server.stop();
+		Object.assign(process.env, Object.fromEntries(gitConfigEnv));
+	});
+	beforeEach(async () => {
+		fake.reset();
+		for (const name of Object.keys(process.env).filter(n => n.startsWith('GIT_CONFIG_'))) delete process.env[name];
+		context = createExtensionContext();
+		accounts = new MemoryAccountManager([accountFor(personal), accountFor(contractor)]);
+		validated = [];
+		const validator = { validate: async (a: MacideAccount) => { validated.push(a.id); return a.status; } };
+		credentials = new CredentialServer(
+			context,
+			accounts.asManager,
+			new CredentialBridge(accounts.asManager, new RecordingNotifications().asService),
+			validator as unknown as TokenValidator
+		);
+		await credentials.setEnabled(true);
+	});
+	afterEach(() => credentials.dispose());
+
+	it('registers the helper for github.com in the terminal environment', () => {
+		const env = terminalEnv();
+
+		assert.equal(collection().persistent, false);
+		assert.ok(env.PATH!.startsWith(credentials.binDir + path.delimiter));
+		assert.ok(fs.existsSync(path.join(credentials.binDir, 'git-credential-macide')));
+		assert.equal(env.MACIDE_GIT_IPC_HANDLE, credentials.handle);
+		assert.deepEqual(
+			Array.from({ length: Number(env.GIT_CONFIG_COUNT) }, (_, i) => [env[`GIT_CONFIG_KEY_${i}`], env[`GIT_CONFIG_VALUE_${i}`]]),
+			[
+				['credential.https://github.com.helper', ''],
+				['credential.https://github.com.helper', 'macide'],
+				['credential.https://github.com.useHttpPath', 'true']
+			]
+		);
+	});
+
+	it('appends to GIT_CONFIG_* entries the user already has', async () => {
+		const own = { GIT_CONFIG_COUNT: '1', GIT_CONFIG_KEY_0: 'core.autocrlf', GIT_CONFIG_VALUE_0: 'input' };
+		Object.assign(process.env, own);
+
+		await accounts.addAccount(accountFor(ghes, { host: 'ghes.example.corp' }));
+		const env = collection().applyTo({ ...own });
+
+		assert.equal(env.GIT_CONFIG_COUNT, '7');
+		assert.equal(env.GIT_CONFIG_KEY_0, 'core.autocrlf');
+		assert.equal(env.GIT_CONFIG_VALUE_0, 'input');
+		assert.equal(env.GIT_CONFIG_KEY_1, 'credential.https://github.com.helper');
+	});
+
+	it('answers git credential fill with the account that can access the repo', { skip: !hasGit }, async () => {
+		const output = await run('git', ['credential', 'fill'], 'url=https://github.com/client/site.git\n\n', terminalEnv());
+
+		const filled = parse(output);
+		assert.equal(filled.username, 'contractor');
+		assert.equal(filled.password, 'gho_contract');
+		// Routing the credential does not switch the Copilot account
+		assert.equal(accounts.getActive()?.githubUsername, 'me');
+	});
+
+	it('falls back to the active account when no account can access the repo', { skip: !hasGit }, async () => {
+		const output = await run('git', ['credential', 'fill'], 'url=https://github.com/someone/private.git\n\n', terminalEnv());
+
+		assert.equal(parse(output).username, 'me');
+	});
+
+	it('picks up hosts of accounts added later', async () => {
+		await accounts.addAccount(accountFor(ghes, { host: 'ghes.example.corp' }));
+
+		const output = await run(
+			credentials.shimPath, ['get'],
+			'protocol=https\nhost=ghes.example.corp\npath=platform/infra.git\n\n', terminalEnv()
+		);
+
+		assert.deepEqual(parse(output), { protocol: 'https', host: 'ghes.example.corp', username: 'corp', password: 'gho_corp' });
+		assert.match(terminalEnv().GIT_CONFIG_KEY_4!, /ghes\.example\.corp/);
+	});
+
+	it('ignores requests without the session token', async () => {
+		const env = { ...terminalEnv(), MACIDE_GIT_IPC_TOKEN: 'guess' };
+
+		const output = await run(credentials.shimPath, ['get'], 'protocol=https\nhost=github.com\n\n', env);
+
+		assert.equal(output, '');
+	});
+
+	it('re-checks the token Git reports as rejected', async () => {
+		await run(
+			credentials.shimPath, ['erase'],
+			'protocol=https\nhost=github.com\nusername=contractor\npassword=gho_contract\n\n', terminalEnv()
+		);
+		await settle();
+
+		assert.deepEqual(validated, ['id-contractor']);
+	});
+
+	it('removes its socket directory when the server cannot listen', async () => {
+		const socketDirs = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('macide-git-')).sort();
+		await credentials.setEnabled(false);
+		const before = socketDirs();
+		const listen = net.Server.prototype.listen;
+		net.Server.prototype.listen = function (this: net.Server) {
+			process.nextTick(() => this.emit('error', new Error('listen EACCES')));
+			return this;
+		} as typeof listen;
+		try {
+			await assert.rejects(credentials.setEnabled(true), /EACCES/);
+		} finally {
+			net.Server.prototype.listen = listen;
+		}
+
+		assert.deepEqual(socketDirs(), before);
+		assert.equal(credentials.handle, undefined);
+	});
+
+	it('removes the socket and terminal registration when disabled', async () => {
+		const handle = credentials.handle!;
+
+		await credentials.setEnabled(false);
+
+		assert.equal(fs.existsSync(handle), false);
+		assert.equal(terminalEnv().MACIDE_GIT_IPC_HANDLE, undefined);
+		assert.equal(terminalEnv().GIT_CONFIG_COUNT, undefined);
+	});
+});
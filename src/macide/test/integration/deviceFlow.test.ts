@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Integration: OAuthFlow device flow against the mock GitHub server.
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OAuthFlow } from '../../auth/oauthFlow';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import { fake } from '../fakes/fakeVscode';
+
+describe('OAuthFlow device flow', () => {
+	const server = new MockGitHubServer();
+	server.addUser({ id: 101, login: 'octo-work', token: 'gho_work' });
+
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => {
+		fake.reset();
+		fake.settings.set('macide.githubClientId', 'mock-client');
+		server.requests.length = 0;
+		server.deviceFlowLogin = 'octo-work';
+	});
+
+	it('keeps polling through authorization_pending and builds the account', async () => {
+		server.deviceFlowSteps = ['authorization_pending', 'authorization_pending', 'grant'];
+
+		const account = await new OAuthFlow().authorize(['copilot'], 'Work');
+
+		assert.equal(account.githubUsername, 'octo-work');
+		assert.equal(account.githubId, '101');
+		assert.equal(account.token, 'gho_work');
+		assert.equal(account.alias, 'Work');
+		assert.equal(account.host, 'github.com');
+		assert.deepEqual(account.scopes, ['read:user', 'repo']);
+		assert.equal(server.requestsTo('/login/oauth/access_token').length, 3);
+		assert.match(fake.messages[0].message, /MOCK-0000/);
+	});
+
+	it('backs off on slow_down and still completes', async () => {
+		server.deviceFlowSteps = ['slow_down', 'grant'];
+
+		const started = Date.now();
+		const account = await new OAuthFlow().authorize(['copilot']);
+
+		assert.equal(account.githubUsername, 'octo-work');
+		// slow_down adds five seconds to the polling interval
+		assert.ok(Date.now() - started >= 5000);
+	});
+
+	it('fails on expired_token', async () => {
+		server.deviceFlowSteps = ['authorization_pending', 'expired_token'];
+
+		await assert.rejects(new OAuthFlow().authorize(['copilot']), /expired/);
+	});
+
+	it('fails when the user denies access', async () => {
+		server.deviceFlowSteps = ['access_denied'];
+
+		await assert.rejects(new OAuthFlow().authorize(['copilot']), /denied/);
+	});
+
+	it('runs against a GitHub Enterprise Server host', async () => {
+		fake.settings.set('macide.enterpriseClientIds', { 'ghes.example.corp': 'ghes-client' });
+		server.deviceFlowSteps = ['grant'];
+
+		const account = await new OAuthFlow().authorize(['read:user', 'repo'], undefined, 'ghes.example.corp');
+
+		assert.equal(account.host, 'ghes.example.corp');
+		// user:email is requested even when the caller asked for less
+		assert.match(server.requestsTo('/login/device/code')[0].body, /user(:|%3A)email/);
+		const profile = server.requestsTo('/user').at(-1)!;
+		assert.equal(profile.host, 'ghes.example.corp');
+		assert.equal(profile.path, '/api/v3/user');
+	});
+});
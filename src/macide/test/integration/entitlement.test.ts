@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Integration: Copilot entitlement checks against the mock token endpoint.
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { checkEntitlement, EntitlementChecker } from '../../auth/entitlement';
+import { AccountRotator } from '../../auth/rotator';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import { fake } from '../fakes/fakeVscode';
+import { accountFor, MemoryAccountManager, RecordingNotifications } from './helpers';
+
+describe('Copilot entitlement', () => {
+	const server = new MockGitHubServer();
+	const business = server.addUser({ id: 1, login: 'work', token: 'gho_work', copilotSku: 'copilot_for_business_seat' });
+	const free = server.addUser({ id: 2, login: 'hobby', token: 'gho_hobby', copilotSku: 'free_limited_copilot' });
+	const seatless = server.addUser({ id: 3, login: 'nobody', token: 'gho_nobody' });
+
+	let accounts: MemoryAccountManager;
+	let rotator: AccountRotator;
+	let checker: EntitlementChecker;
+
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => {
+		fake.reset();
+		accounts = new MemoryAccountManager([accountFor(business), accountFor(free), accountFor(seatless)]);
+		const notifications = new RecordingNotifications();
+		rotator = new AccountRotator(accounts.asManager, notifications.asService);
+		checker = new EntitlementChecker(accounts.asManager, rotator, notifications.asService);
+	});
+	afterEach(() => {
+		checker.dispose();
+		rotator.dispose();
+	});
+
+	it('reads the plan, and no expiry for a paid seat', async () => {
+		const entitlement = await checkEntitlement(business.token);
+
+		assert.equal(entitlement?.status, 'entitled');
+		assert.equal(entitlement?.plan, 'business');
+		// expires_at is the session token's, not the seat's
+		assert.equal(entitlement?.expiresAt, undefined);
+	});
+
+	it('stores when a limited allowance resets as its expiry', async () => {
+		const [, hobby] = accounts.getAll();
+
+		await checker.check(hobby);
+
+		assert.equal(hobby.copilot?.plan, 'free');
+		assert.equal(hobby.copilot?.expiresAt, '2026-12-01T00:00:00.000Z');
+	});
+
+	it('marks accounts without a seat and keeps rotation off them', async () => {
+		const [, , nobody] = accounts.getAll();
+
+		await checker.check(nobody);
+
+		assert.equal(nobody.copilot?.status, 'none');
+		assert.equal(rotator.isUsable(nobody), false);
+	});
+});
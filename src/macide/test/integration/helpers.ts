@@ -0,0 +1,153 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Shared fixtures for the integration suite.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as https from 'https';
+import type { MacideAccount } from '../../auth/provider';
+import { canTransition } from '../../accounts/manager';
+import type { AccountManager, AccountStatus, ActivationSource } from '../../accounts/manager';
+import type { TransitionActor } from '../../accounts/activityLog';
+import type { NotificationService } from '../../ui/notifications/notificationService';
+import type { MockUser } from '../mock/mockGitHubServer';
+import { EventEmitter } from '../fakes/fakeVscode';
+
+export function accountFor(user: MockUser, overrides: Partial<MacideAccount> = {}): MacideAccount {
+	const now = new Date().toISOString();
+	return {
+		id:               `id-${user.login}`,
+		alias:            user.login,
+		githubId:         String(user.id),
+		githubUsername:   user.login,
+		avatarUrl:        '',
+		token:            user.token,
+		scopes:           ['read:user', 'repo'],
+		requestCount:     0,
+		requestCountDate: now.slice(0, 10),
+		status:           'healthy',
+		addedAt:          now,
+		lastUsedAt:       now,
+		...overrides
+	};
+}
+
+/**
+ * In-memory stand-in for AccountManager with the members the auth modules use.
+ * Mirrors the real setActive and transition rules.
+ */
+export class MemoryAccountManager {
+	activeSource: ActivationSource = 'restored';
+	readonly switches: { to: string; source: ActivationSource }[] = [];
+	readonly transitions: { accountId: string; from: AccountStatus; to: AccountStatus; actor: TransitionActor }[] = [];
+	private _activeId: string | undefined;
+
+	private readonly _onDidChangeAccounts = new EventEmitter<MacideAccount[]>();
+	readonly onDidChangeAccounts = this._onDidChangeAccounts.event;
+
+	private readonly _onDidChangeActive = new EventEmitter<MacideAccount | undefined>();
+	readonly onDidChangeActive = this._onDidChangeActive.event;
+
+	constructor(private readonly _accounts: MacideAccount[]) {
+		this._activeId = _accounts[0]?.id;
+	}
+
+	getAll(): MacideAccount[] {
+		return [...this._accounts];
+	}
+
+	getActive(): MacideAccount | undefined {
+		return this._accounts.find(a => a.id === this._activeId);
+	}
+
+	transition(account: MacideAccount, to: AccountStatus, actor: TransitionActor): boolean {
+		const from = account.status;
+		if (!canTransition(from, to)) return false;
+		if (from !== to) {
+			account.status = to;
+			this.transitions.push({ accountId: account.id, from, to, actor });
+		}
+		return true;
+	}
+
+	async setActive(account: MacideAccount, source: ActivationSource = 'manual'): Promise<void> {
+		const prev = this.getActive();
+		if (prev && prev.id !== account.id && (prev.status === 'healthy' || prev.status === 'warning')) {
+			this.transition(prev, 'idle', 'user');
+		}
+		if (account.status === 'idle') this.transition(account, 'healthy', 'user');
+		this._activeId = account.id;
+		this.activeSource = source;
+		this.switches.push({ to: account.id, source });
+		this._onDidChangeActive.fire(account);
+	}
+
+	async updateAccount(account: MacideAccount): Promise<void> {
+		const i = this._accounts.findIndex(a => a.id === account.id);
+		if (i >= 0) this._accounts[i] = account;
+	}
+
+	async addAccount(account: MacideAccount): Promise<void> {
+		this._accounts.push(account);
+		this._onDidChangeAccounts.fire(this.getAll());
+	}
+
+	updateUsage(account: MacideAccount): void {
+		const i = this._accounts.findIndex(a => a.id === account.id);
+		if (i >= 0) this._accounts[i] = account;
+		this._onDidChangeAccounts.fire(this.getAll());
+	}
+
+	async saveAll(): Promise<void> { /* in memory already */ }
+
+	openAccountPanel(): void { /* no UI */ }
+
+	/** Typed view for constructors that take the real AccountManager. */
+	get asManager(): AccountManager {
+		return this as unknown as AccountManager;
+	}
+}
+
+/** Collects notifications instead of showing them. */
+export class RecordingNotifications {
+	readonly shown: { level: 'info' | 'warning' | 'error'; message: string }[] = [];
+
+	info(message: string): void    { this.shown.push({ level: 'info', message }); }
+	warning(message: string): void { this.shown.push({ level: 'warning', message }); }
+	error(message: string): void   { this.shown.push({ level: 'error', message }); }
+
+	get asService(): NotificationService {
+		return this as unknown as NotificationService;
+	}
+}
+
+/** What a Copilot client does: POST a completion and read the whole answer. */
+export function copilotRequest(
+	token: string,
+	path = '/v1/engines/copilot-codex/completions',
+	hostname = 'copilot-proxy.githubusercontent.com'
+): Promise<{ status: number; body: string }> {
+	return new Promise((resolve, reject) => {
+		const payload = JSON.stringify({ prompt: 'def fib(n):', max_tokens: 16 });
+		const req = https.request({
+			hostname,
+			path,
+			method:  'POST',
+			headers: {
+				'Authorization':  `Bearer ${token}`,
+				'Content-Type':   'application/json',
+				'Content-Length': Buffer.byteLength(payload)
+			}
+		}, res => {
+			let body = '';
+			res.on('data', chunk => (body += chunk));
+			res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+		});
+		req.on('error', reject);
+		req.end(payload);
+	});
+}
+
+/** Resolves once pending promise callbacks and I/O callbacks have run. */
+export function settle(): Promise<void> {
+	return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,162 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Integration: interceptor → tracker → rotator, driven by real Copilot-style
+ * requests to the mock server (unlike macide.simulateRateLimit, which calls
+ * the rotator directly).
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as https from 'https';
+import { AccountRotator } from '../../auth/rotator';
+import { AccountTracker } from '../../accounts/tracker';
+import { configureRateLimitReplay, installHttpInterceptor, uninstallHttpInterceptor } from '../../auth/httpInterceptor';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import type { MockUser } from '../mock/mockGitHubServer';
+import { fake } from '../fakes/fakeVscode';
+import { accountFor, copilotRequest, MemoryAccountManager, RecordingNotifications, settle } from './helpers';
+
+describe('Rate-limit rotation through the interceptor', () => {
+	const server = new MockGitHubServer();
+	const alice = server.addUser({ id: 1, login: 'alice', token: 'gho_alice', copilotSku: 'copilot_for_business_seat' });
+	const bob = server.addUser({ id: 2, login: 'bob', token: 'gho_bob', copilotSku: 'copilot_individual' });
+	const carol = server.addUser({ id: 3, login: 'carol', token: 'gho_carol', copilotSku: 'copilot_individual' });
+
+	let accounts: MemoryAccountManager;
+	let notifications: RecordingNotifications;
+	let rotator: AccountRotator;
+	let tracker: AccountTracker;
+
+	function useAccounts(...users: MockUser[]): void {
+		uninstallHttpInterceptor();
+		rotator?.dispose();
+		accounts = new MemoryAccountManager(users.map(u => accountFor(u)));
+		rotator = new AccountRotator(accounts.asManager, notifications.asService);
+		tracker = new AccountTracker(accounts.asManager, rotator);
+		installHttpInterceptor(accounts.asManager, tracker, rotator);
+	}
+
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(() => {
+		fake.reset();
+		server.requests.length = 0;
+		notifications = new RecordingNotifications();
+		useAccounts(alice, bob);
+	});
+	afterEach(() => {
+		configureRateLimitReplay(false, 0);
+		uninstallHttpInterceptor();
+		rotator.dispose();
+	});
+
+	it('counts successful completions on the active account', async () => {
+		const res = await copilotRequest(alice.token);
+		await settle();
+
+		assert.equal(res.status, 200);
+		const active = accounts.getActive()!;
+		assert.equal(active.requestCount, 1);
+		assert.equal(active.requestsByCategory?.completion, 1);
+	});
+
+	it('rotates to the next account on a 429 and starts a cooldown', async () => {
+		server.rateLimit('alice', 1, 120);
+
+		const res = await copilotRequest(alice.token);
+		await settle();
+
+		assert.equal(res.status, 429);
+		assert.equal(accounts.getActive()?.githubUsername, 'bob');
+		assert.deepEqual(accounts.switches, [{ to: 'id-bob', source: 'rotation' }]);
+		const limited = accounts.getAll().find(a => a.id === 'id-alice')!;
+		assert.equal(limited.status, 'exhausted');
+		assert.equal(limited.rateLimitStrikes, 1);
+		assert.ok(Date.parse(limited.cooldownUntil!) > Date.now() + 100_000);
+		assert.match(notifications.shown.at(-1)!.message, /switched to "bob"/);
+	});
+
+	it('reports when every account is rate limited', async () => {
+		server.rateLimit('alice');
+		server.rateLimit('bob');
+
+		await copilotRequest(alice.token);
+		await settle();
+		await copilotRequest(bob.token);
+		await settle();
+
+		assert.equal(notifications.shown.at(-1)!.level, 'error');
+		assert.match(notifications.shown.at(-1)!.message, /All accounts exhausted/);
+	});
+
+	it('does not count GitHub REST calls toward quota', async () => {
+		await new Promise<void>((resolve, reject) => {
+			https.get({ hostname: 'api.github.com', path: '/user', headers: { Authorization: `token ${alice.token}` } }, res => {
+				res.resume();
+				res.on('end', resolve);
+			}).on('error', reject);
+		});
+		await settle();
+
+		const active = accounts.getActive()!;
+		assert.equal(active.requestCount, 0);
+		assert.equal(active.requestsByCategory?.rest, 1);
+	});
+
+	it('replays a 429 on the next account when retry is enabled', async () => {
+		configureRateLimitReplay(true, 5);
+		server.rateLimit('alice');
+
+		const res = await copilotRequest(server.sessionTokenFor(alice), '/chat/completions', 'api.githubcopilot.com');
+		await settle();
+
+		assert.equal(res.status, 200);
+		assert.match(res.body, /completion for bob/);
+		const chats = server.requestsTo('/chat/completions');
+		assert.equal(chats.length, 2);
+		assert.equal(chats[1].authorization, `Bearer ${server.sessionTokenFor(bob)}`);
+		assert.equal(chats[1].body, chats[0].body);
+		assert.equal(accounts.getActive()?.requestsByCategory?.chat, 1);
+	});
+
+	it('passes a second 429 through instead of replaying again', async () => {
+		configureRateLimitReplay(true, 5);
+		server.rateLimit('alice');
+		server.rateLimit('bob');
+
+		const res = await copilotRequest(alice.token);
+		await settle();
+
+		assert.equal(res.status, 429);
+		assert.equal(server.requestsTo('/completions').length, 2);
+	});
+
+	it('charges a burst of concurrent 429s to the account that sent them', async () => {
+		useAccounts(alice, bob, carol);
+		server.rateLimit('alice', 5);
+
+		const responses = await Promise.all(Array.from({ length: 5 }, () => copilotRequest(alice.token)));
+		await settle();
+
+		assert.deepEqual(responses.map(r => r.status), [429, 429, 429, 429, 429]);
+		assert.equal(accounts.getActive()?.githubUsername, 'bob');
+		assert.deepEqual(accounts.switches, [{ to: 'id-bob', source: 'rotation' }]);
+		assert.deepEqual(accounts.getAll().map(a => a.status), ['exhausted', 'healthy', 'healthy']);
+	});
+
+	it('replays a burst of 429s only onto the account rotated to from the sender', async () => {
+		useAccounts(alice, bob, carol);
+		configureRateLimitReplay(true, 10);
+		server.rateLimit('alice', 3);
+
+		const responses = await Promise.all(Array.from({ length: 3 }, () => copilotRequest(alice.token)));
+		await settle();
+
+		// The 429 that caused the switch is replayed on bob; stragglers arriving after it get their 429
+		assert.ok(responses.some(r => /completion for bob/.test(r.body)));
+		for (const res of responses) assert.ok(res.status === 429 || /completion for bob/.test(res.body));
+		assert.equal(accounts.getActive()?.githubUsername, 'bob');
+		assert.equal(server.requests.filter(r => r.authorization === `Bearer ${carol.token}`).length, 0);
+		assert.deepEqual(accounts.getAll().map(a => a.status), ['exhausted', 'healthy', 'healthy']);
+	});
+});
@@ -0,0 +1,212 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Mock GitHub / Copilot server for offline integration tests.
+ *
+ * One local HTTP server stands in for every host the account code talks to.
+ * While it runs, https.globalAgent hands out plain sockets to it, so the real
+ * modules keep requesting https://api.github.com/… unchanged and the server
+ * routes on the Host header and path:
+ *
+ *   web  (github.com, GHES)      POST /login/device/code
+ *                                POST /login/oauth/access_token   scripted device-flow states
+ *   API  (api.github.com,        GET  /user                       401 for unknown tokens
+ *         api.*.ghe.com,         GET  /user/emails                403 unless `emails` is set
+ *         GHES /api/v3/…)        GET  /repos/:owner/:repo         repo access matrix
+ *                                GET  /copilot_internal/v2/token  Copilot session token / 404
+ *   Copilot (copilot-proxy…,     POST …/completions, …/chat/completions, …/embeddings
+ *            *.githubcopilot.com)                                 scriptable 429s
+ *
+ * Every request is logged in `requests` for assertions; `apiOutage` makes the
+ * API answer 503.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+
+export type RepoPermission = 'read' | 'write' | 'admin';
+
+export interface MockUser {
+	id:     number;
+	login:  string;
+	/** OAuth token the user signs in with. */
+	token:  string;
+	/** Copilot SKU; undefined = no Copilot seat. */
+	copilotSku?: string;
+	/** "owner/repo" → permission. Unlisted repos answer 404. */
+	repos?: Record<string, RepoPermission>;
+	/** Profile name; null when unset. */
+	name?:  string;
+	/** Verified addresses, primary first. Undefined = token lacks `user:email`. */
+	emails?: string[];
+}
+
+/** What one poll of /login/oauth/access_token answers. 'grant' issues the token. */
+export type DeviceFlowStep = 'authorization_pending' | 'slow_down' | 'expired_token' | 'access_denied' | 'grant';
+
+export interface LoggedRequest {
+	host:           string;
+	method:         string;
+	path:           string;
+	authorization?: string;
+	body:           string;
+}
+
+const COPILOT_HOST_RE = /(^|\.)copilot-proxy\.githubusercontent\.com$|(^|\.)githubcopilot\.com$/;
+const COPILOT_PATH_RE = /\/(completions|embeddings)$/;
+
+export class MockGitHubServer {
+	readonly users: MockUser[] = [];
+	readonly requests: LoggedRequest[] = [];
+
+	/** Answers for successive token polls; once empty every poll grants. */
+	deviceFlowSteps: DeviceFlowStep[] = [];
+	/** User the device flow signs in as. */
+	deviceFlowLogin = '';
+	/** `interval` reported by /login/device/code, in seconds. */
+	deviceFlowInterval = 0;
+	/** When set, every API request answers 503. */
+	apiOutage = false;
+
+	private readonly _rateLimits = new Map<string, { remaining: number; retryAfter: number }>();
+	private _server: http.Server | undefined;
+	private _originalCreateConnection: typeof https.globalAgent.createConnection | undefined;
+
+	addUser(user: MockUser): MockUser {
+		this.users.push(user);
+		return user;
+	}
+
+	/** The next `count` Copilot requests by `login` answer 429 with Retry-After. */
+	rateLimit(login: string, count = 1, retryAfterSeconds = 60): void {
+		this._rateLimits.set(login, { remaining: count, retryAfter: retryAfterSeconds });
+	}
+
+	/** Copilot session token the server issues for a user. */
+	sessionTokenFor(user: MockUser): string {
+		return `tid=${user.login};exp=9999999999;sku=${user.copilotSku ?? ''}`;
+	}
+
+	requestsTo(pathPart: string): LoggedRequest[] {
+		return this.requests.filter(r => r.path.includes(pathPart));
+	}
+
+	/** Starts listening and routes all https.globalAgent traffic here. */
+	async start(): Promise<void> {
+		this._server = http.createServer((req, res) => this._handle(req, res));
+		await new Promise<void>(resolve => this._server!.listen(0, '127.0.0.1', resolve));
+		const { port } = this._server.address() as net.AddressInfo;
+
+		this._originalCreateConnection = https.globalAgent.createConnection;
+		https.globalAgent.createConnection = (() => net.connect(port, '127.0.0.1')) as typeof https.globalAgent.createConnection;
+	}
+
+	async stop(): Promise<void> {
+		if (this._originalCreateConnection) https.globalAgent.createConnection = this._originalCreateConnection;
+		https.globalAgent.destroy();
+		if (!this._server) return;
+		this._server.closeAllConnections();
+		await new Promise<void>(resolve => this._server!.close(() => resolve()));
+		this._server = undefined;
+	}
+
+	// ── Routing ──────────────────────────────────────────────────────────────
+
+	private _handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+		let body = '';
+		req.on('data', chunk => (body += chunk));
+		req.on('end', () => {
+			const host = (req.headers.host ?? '').replace(/:\d+$/, '');
+			const path = req.url ?? '/';
+			const method = req.method ?? 'GET';
+			const authorization = req.headers.authorization;
+			this.requests.push({ host, method, path, authorization, body });
+
+			if (COPILOT_HOST_RE.test(host) && COPILOT_PATH_RE.test(path.split('?')[0])) {
+				this._copilot(authorization, res);
+			} else if (host.startsWith('api.') || path.startsWith('/api/v3/')) {
+				this._api(method, path.replace(/^\/api\/v3/, ''), authorization, res);
+			} else {
+				this._web(method, path, res);
+			}
+		});
+	}
+
+	private _web(method: string, path: string, res: http.ServerResponse): void {
+		if (method === 'POST' && path === '/login/device/code') {
+			return json(res, 200, {
+				device_code:      'mock-device-code',
+				user_code:        'MOCK-0000',
+				verification_uri: 'https://github.com/login/device',
+				expires_in:       900,
+				interval:         this.deviceFlowInterval
+			});
+		}
+		if (method === 'POST' && path === '/login/oauth/access_token') {
+			const step = this.deviceFlowSteps.shift() ?? 'grant';
+			if (step !== 'grant') return json(res, 200, { error: step });
+			const user = this.users.find(u => u.login === this.deviceFlowLogin);
+			if (!user) return json(res, 200, { error: 'access_denied' });
+			return json(res, 200, { access_token: user.token, token_type: 'bearer', scope: 'read:user,repo' });
+		}
+		json(res, 404, { message: 'Not Found' });
+	}
+
+	private _api(method: string, path: string, authorization: string | undefined, res: http.ServerResponse): void {
+		if (this.apiOutage) return json(res, 503, { message: 'Service Unavailable' });
+		const user = this._userFor(authorization);
+		if (!user) return json(res, 401, { message: 'Bad credentials' });
+
+		if (method === 'GET' && path === '/user') {
+			return json(res, 200, { id: user.id, login: user.login, avatar_url: `https://avatars.example/${user.login}`, name: user.name ?? null, email: null });
+		}
+		if (method === 'GET' && path === '/user/emails') {
+			if (!user.emails) return json(res, 403, { message: 'Resource not accessible by integration' });
+			return json(res, 200, user.emails.map((email, i) => ({ email, primary: i === 0, verified: true, visibility: null })));
+		}
+		if (method === 'GET' && path === '/copilot_internal/v2/token') {
+			if (!user.copilotSku) return json(res, 404, { message: 'Not Found' });
+			return json(res, 200, {
+				token:      this.sessionTokenFor(user),
+				sku:        user.copilotSku,
+				expires_at: Math.floor(Date.now() / 1000) + 30 * 60,
+				// Free plans carry a monthly allowance that resets on the first
+				...(/free/.test(user.copilotSku) ? { limited_user_reset_date: Date.UTC(2026, 11, 1) / 1000 } : {})
+			});
+		}
+		const repo = /^\/repos\/([^/]+)\/([^/?]+)/.exec(path);
+		if (method === 'GET' && repo) {
+			const permission = user.repos?.[`${repo[1]}/${repo[2]}`];
+			if (!permission) return json(res, 404, { message: 'Not Found' });
+			return json(res, 200, {
+				full_name:   `${repo[1]}/${repo[2]}`,
+				permissions: { pull: true, push: permission !== 'read', admin: permission === 'admin' }
+			});
+		}
+		json(res, 404, { message: 'Not Found' });
+	}
+
+	private _copilot(authorization: string | undefined, res: http.ServerResponse): void {
+		const user = this._userFor(authorization);
+		if (!user) return json(res, 401, { message: 'Unauthorized' });
+
+		const limit = this._rateLimits.get(user.login);
+		if (limit && limit.remaining > 0) {
+			limit.remaining -= 1;
+			res.setHeader('retry-after', String(limit.retryAfter));
+			return json(res, 429, { error: { message: 'rate limited' } });
+		}
+		json(res, 200, { choices: [{ text: `completion for ${user.login}` }] });
+	}
+
+	/** Accepts `token <oauth>`, `Bearer <oauth>` and `Bearer <session token>`. */
+	private _userFor(authorization: string | undefined): MockUser | undefined {
+		const credential = (authorization ?? '').replace(/^(token|bearer)\s+/i, '');
+		return this.users.find(u => u.token === credential || this.sessionTokenFor(u) === credential);
+	}
+}
+
+function json(res: http.ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { 'content-type': 'application/json' });
+	res.end(JSON.stringify(body));
+}
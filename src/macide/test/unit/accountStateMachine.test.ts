@@ -0,0 +1,243 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: the account state machine in SPEC §6.4, driven through the real
+ * AccountManager (vault in an in-memory SecretStorage), tracker, rotator and
+ * token validator.
+ *--------------------------------------------------------------------------------------------*/
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as vscode from 'vscode';
+import { AccountManager, canTransition } from '../../accounts/manager';
+import { AccountTracker } from '../../accounts/tracker';
+import { AccountRotator } from '../../auth/rotator';
+import { TokenValidator } from '../../auth/tokenValidator';
+import { readVault, writeVault } from '../../auth/vault';
+import type { MacideAccount } from '../../auth/provider';
+import { createExtensionContext, fake } from '../fakes/fakeVscode';
+import { MockGitHubServer } from '../mock/mockGitHubServer';
+import { accountFor, RecordingNotifications } from '../integration/helpers';
+
+describe('Account state machine (SPEC §6.4)', () => {
+	const server = new MockGitHubServer();
+	const work = server.addUser({ id: 1, login: 'work', token: 'gho_work' });
+	const personal = server.addUser({ id: 2, login: 'personal', token: 'gho_personal' });
+
+	let context: vscode.ExtensionContext;
+	let manager: AccountManager;
+	let notifications: RecordingNotifications;
+	let rotator: AccountRotator;
+	let tracker: AccountTracker;
+
+	const byLogin = (login: string): MacideAccount => manager.getAll().find(a => a.githubUsername === login)!;
+
+	before(() => server.start());
+	after(() => server.stop());
+	beforeEach(async () => {
+		fake.reset();
+		context = createExtensionContext();
+		await writeVault(context, [accountFor(work, { status: 'idle' }), accountFor(personal, { status: 'idle' })]);
+		manager = new AccountManager(context);
+		await manager.load();
+		notifications = new RecordingNotifications();
+		rotator = new AccountRotator(manager, notifications.asService);
+		tracker = new AccountTracker(manager, rotator);
+		tracker.dailyLimit = 5;
+	});
+	afterEach(() => {
+		rotator.dispose();
+		manager.dispose();
+	});
+
+	it('loads the first account as active when none was stored', () => {
+		assert.equal(manager.getActive()?.githubUsername, 'work');
+		assert.equal(manager.activeSource, 'restored');
+	});
+
+	it('IDLE → ACTIVE: selecting an account activates and persists it', async () => {
+		const changes: (string | undefined)[] = [];
+		manager.onDidChangeActive(a => changes.push(a?.githubUsername));
+
+		await manager.setActive(byLogin('personal'));
+
+		assert.equal(manager.getActive()?.githubUsername, 'personal');
+		assert.equal(byLogin('personal').status, 'healthy');
+		assert.equal(manager.activeSource, 'manual');
+		assert.deepEqual(changes, ['personal']);
+		assert.equal(context.globalState.get('macide.activeAccountId'), 'id-personal');
+	});
+
+	it('ACTIVE → WARNING: crossing 80% of the assumed limit', async () => {
+		const active = manager.getActive()!;
+		for (let i = 0; i < 3; i++) await tracker.increment(active, 'completion');
+		assert.equal(active.status, 'healthy');
+
+		await tracker.increment(active, 'completion');
+
+		assert.equal(active.status, 'warning');
+		const [stored] = await readVault(context);
+		assert.equal(stored.status, 'warning');
+	});
+
+	it('ACTIVE → EXHAUSTED: a 429 marks the account and rotates away', async () => {
+		const active = manager.getActive()!;
+
+		const next = await rotator.onRateLimitDetected(active);
+
+		assert.equal(next?.githubUsername, 'personal');
+		assert.equal(manager.getActive()?.githubUsername, 'personal');
+		assert.equal(manager.activeSource, 'rotation');
+		assert.ok(active.cooldownUntil);
+		assert.equal(rotator.isUsable(byLogin('work')), false);
+	});
+
+	it('EXHAUSTED stays exhausted when the next account becomes active', async () => {
+		await rotator.onRateLimitDetected(manager.getActive()!);
+
+		assert.equal(byLogin('work').status, 'exhausted');
+		const [stored] = await readVault(context);
+		assert.equal(stored.status, 'exhausted');
+	});
+
+	it('rejects transitions the state machine does not allow', () => {
+		const account = byLogin('work');
+		account.status = 'exhausted';
+
+		assert.equal(manager.transition(account, 'idle', 'user', 'Deselected'), false);
+		assert.equal(manager.transition(account, 'warning', 'tracker', 'Usage'), false);
+		assert.equal(account.status, 'exhausted');
+		assert.equal(manager.activity.entries().length, 0);
+		assert.equal(canTransition('revoked', 'exhausted'), false);
+		assert.equal(canTransition('exhausted', 'healthy'), true);
+	});
+
+	it('only lets a revoked or invalid account return to idle', () => {
+		const account = byLogin('work');
+		account.status = 'revoked';
+
+		assert.equal(manager.transition(account, 'healthy', 'rotator', 'Cooldown ended'), false);
+		assert.equal(account.status, 'revoked');
+		assert.equal(canTransition('invalid', 'healthy'), false);
+		assert.equal(manager.transition(account, 'idle', 'validator', 'Token validates again'), true);
+	});
+
+	it('records who changed what and why', async () => {
+		await tracker.increment(manager.getActive()!, 'completion');
+		await rotator.onRateLimitDetected(manager.getActive()!);
+
+		const entries = manager.activity.entries('id-work');
+		assert.deepEqual(entries.map(e => [e.from, e.to, e.actor]), [
+			['healthy', 'exhausted', 'rotator'],
+			['idle', 'healthy', 'tracker']
+		]);
+		assert.equal(entries[0].alias, 'work');
+		assert.match(entries[0].reason, /rate limit/);
+		assert.deepEqual(manager.activity.entries('id-personal').map(e => [e.from, e.to, e.actor]), [['idle', 'healthy', 'rotator']]);
+
+		// Survives a reload
+		const reloaded = new AccountManager(context);
+		assert.equal(reloaded.activity.entries().length, 3);
+		reloaded.dispose();
+	});
+
+	it('any → IDLE: switching away idles the previous account', async () => {
+		const active = manager.getActive()!;
+		await tracker.increment(active, 'completion');
+		assert.equal(active.status, 'healthy');
+
+		await manager.setActive(byLogin('personal'));
+
+		assert.equal(byLogin('work').status, 'idle');
+	});
+
+	it('EXHAUSTED → healthy on the next day when no cooldown is pending', async () => {
+		const active = manager.getActive()!;
+		active.status = 'exhausted';
+		active.requestCountDate = '2000-01-01';
+		await manager.updateAccount(active);
+
+		rotator.resetDailyCountsIfNeeded();
+
+		assert.equal(byLogin('work').status, 'healthy');
+		assert.equal(byLogin('work').requestCount, 0);
+	});
+
+	describe('token validation', () => {
+		let validator: TokenValidator;
+
+		beforeEach(() => {
+			validator = new TokenValidator(manager, rotator, notifications.asService);
+		});
+		afterEach(() => validator.dispose());
+
+		it('any → REVOKED: GET /user answers 401, and rotation moves off the account', async () => {
+			const active = manager.getActive()!;
+			active.token = 'gho_revoked';
+
+			assert.equal(await validator.validate(active), 'revoked');
+
+			assert.equal(manager.getActive()?.githubUsername, 'personal');
+			assert.equal(byLogin('work').status, 'revoked');
+			assert.equal(rotator.isUsable(byLogin('work')), false);
+			assert.match(notifications.shown.at(-1)!.message, /revoked/);
+		});
+
+		it('any → INVALID: the token authenticates as a different user', async () => {
+			const account = byLogin('personal');
+			account.token = work.token;
+
+			assert.equal(await validator.validate(account), 'invalid');
+			assert.equal(byLogin('personal').status, 'invalid');
+		});
+
+		it('REVOKED → IDLE: the token validates again', async () => {
+			const account = byLogin('personal');
+			account.status = 'revoked';
+			await manager.updateAccount(account);
+
+			assert.equal(await validator.validate(account), 'idle');
+			assert.equal(rotator.isUsable(byLogin('personal')), true);
+		});
+
+		it('EXHAUSTED → REVOKED: a refused cooldown probe is handed to the validator', async () => {
+			const account = byLogin('personal');
+			account.status = 'exhausted';
+			account.token = 'gho_revoked';
+			account.cooldownUntil = new Date(Date.now() - 1000).toISOString();
+			rotator.tokenValidator = validator;
+
+			rotator.resumeCooldowns();
+			for (let i = 0; i < 100 && account.status === 'exhausted'; i++) {
+				await new Promise(resolve => setTimeout(resolve, 10));
+			}
+
+			assert.equal(account.status, 'revoked');
+			assert.equal(rotator.isUsable(account), false);
+		});
+
+		it('does not probe revoked accounts when their cooldown ends', async () => {
+			const account = byLogin('personal');
+			account.status = 'revoked';
+			account.token = '';
+			account.cooldownUntil = new Date(Date.now() - 1000).toISOString();
+			const probes = server.requestsTo('/copilot_internal/').length;
+
+			rotator.resumeCooldowns();
+			await new Promise(resolve => setTimeout(resolve, 50));
+
+			assert.equal(account.status, 'revoked');
+			assert.equal(server.requestsTo('/copilot_internal/').length, probes);
+		});
+
+		it('keeps the status when the check is inconclusive', async () => {
+			server.apiOutage = true;
+			try {
+				const account = byLogin('personal');
+				account.status = 'warning';
+				assert.equal(await validator.validate(account), 'warning');
+			} finally {
+				server.apiOutage = false;
+			}
+		});
+	});
+});
@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: account export bundle encryption and import matching.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AccountBundleError, exportableAccount, openBundle, planImport, sealBundle } from '../../accounts/accountTransfer';
+import type { AccountBundle } from '../../accounts/accountTransfer';
+import type { MacideAccount } from '../../auth/provider';
+import { accountFor } from '../integration/helpers';
+
+function account(id: number, login: string, overrides: Partial<MacideAccount> = {}): MacideAccount {
+	return accountFor({ id, login, token: `gho_${login}` }, overrides);
+}
+
+describe('Account transfer', () => {
+	const bundle: AccountBundle = {
+		exportedAt:    '2026-01-01T00:00:00.000Z',
+		accounts:      [exportableAccount(account(1, 'alice')), exportableAccount(account(2, 'bob'))],
+		priorityOrder: ['id-bob', 'id-alice']
+	};
+
+	it('round-trips a bundle and keeps tokens out of the file text', async () => {
+		const sealed = await sealBundle(bundle, 'correct horse');
+
+		assert.doesNotMatch(sealed, /gho_alice|alice/);
+		const file = JSON.parse(sealed);
+		assert.equal(file.format, 'macide-accounts');
+		assert.equal(file.kdf.name, 'scrypt');
+		assert.equal(file.cipher.name, 'aes-256-gcm');
+		assert.deepEqual(await openBundle(sealed, 'correct horse'), bundle);
+	});
+
+	it('rejects a wrong passphrase and a tampered file', async () => {
+		const sealed = await sealBundle(bundle, 'correct horse');
+		await assert.rejects(openBundle(sealed, 'wrong horse'), AccountBundleError);
+
+		const file = JSON.parse(sealed);
+		const data = Buffer.from(file.data, 'base64');
+		data[0] ^= 1;
+		file.data = data.toString('base64');
+		await assert.rejects(openBundle(JSON.stringify(file), 'correct horse'), /Wrong passphrase/);
+	});
+
+	it('rejects KDF and cipher parameters it did not write', async () => {
+		const sealed = await sealBundle(bundle, 'correct horse');
+		const tampered = (edit: (file: { kdf: { N: number; p: number }; cipher: { iv: string; tag?: string } }) => void): string => {
+			const file = JSON.parse(sealed);
+			edit(file);
+			return JSON.stringify(file);
+		};
+
+		for (const text of [
+			tampered(f => { f.kdf.N = 2 ** 30; }),
+			tampered(f => { f.kdf.p = 64; }),
+			tampered(f => { f.cipher.iv = Buffer.alloc(4).toString('base64'); }),
+			tampered(f => { f.cipher.tag = Buffer.from(f.cipher.tag!, 'base64').subarray(0, 4).toString('base64'); }),
+			tampered(f => { delete f.cipher.tag; })
+		]) {
+			await assert.rejects(openBundle(text, 'correct horse'), AccountBundleError);
+		}
+	});
+
+	it('rejects files that are not account exports', async () => {
+		await assert.rejects(openBundle('not json', 'x'), /Not a Macide account export/);
+		await assert.rejects(openBundle('{"format":"other"}', 'x'), /Not a Macide account export/);
+	});
+
+	it('leaves machine-local usage, cooldown and entitlement out of the export', () => {
+		const exported = exportableAccount(account(1, 'alice', {
+			requestCount:     12,
+			rateLimitStrikes: 2,
+			cooldownUntil:    '2026-01-01T01:00:00.000Z'
+		})) as Record<string, unknown>;
+
+		for (const field of ['requestCount', 'requestCountDate', 'lastUsedAt', 'rateLimitStrikes', 'cooldownUntil', 'copilot']) {
+			assert.equal(exported[field], undefined, field);
+		}
+		assert.equal(exported.token, 'gho_alice');
+		assert.equal(exported.alias, 'alice');
+	});
+
+	it('matches incoming accounts by host and GitHub id, not by local id', () => {
+		const existing = [account(1, 'alice', { id: 'local-alice' }), account(3, 'carol')];
+		const incoming = [
+			bundle.accounts[0],
+			bundle.accounts[1],
+			exportableAccount(account(1, 'alice-ghes', { id: 'id-ghes', host: 'ghes.example.corp' }))
+		];
+
+		const plan = planImport(existing, incoming);
+
+		assert.deepEqual(plan.conflicts.map(c => [c.existing.id, c.incoming.id]), [['local-alice', 'id-alice']]);
+		assert.deepEqual(plan.added.map(a => a.id), ['id-bob', 'id-ghes']);
+	});
+});
@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: `git blame --porcelain` parsing.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseBlamePorcelain } from '../../git/blameAnnotation';
+
+const FIRST  = 'a1b2c3d4e5f6a7b8c9d0a1b2c3d4e5f6a7b8c9d0';
+const SECOND = '0f9e8d7c6b5a40f9e8d7c6b5a40f9e8d7c6b5a4f';
+
+function commitTags(author: string, time: number, summary: string): string[] {
+	return [
+		`author ${author}`,
+		`author-mail <${author.toLowerCase()}@example.com>`,
+		`author-time ${time}`,
+		'author-tz +0000',
+		`committer ${author}`,
+		`committer-time ${time}`,
+		`summary ${summary}`,
+		'filename src/app.ts'
+	];
+}
+
+describe('parseBlamePorcelain', () => {
+	it('maps each final line to its commit', () => {
+		const output = [
+			`${FIRST} 1 10 1`,
+			...commitTags('Ada', 1_700_000_000, 'Add parser'),
+			'\tconst a = 1;',
+			`${SECOND} 4 11 1`,
+			...commitTags('Grace', 1_710_000_000, 'Fix off-by-one'),
+			'previous 1111111111111111111111111111111111111111 src/app.ts',
+			'\tconst b = 2;',
+			''
+		].join('\n');
+
+		const entries = parseBlamePorcelain(output);
+
+		assert.deepEqual([...entries.keys()], [10, 11]);
+		assert.deepEqual(entries.get(10), { hash: 'a1b2c3d', author: 'Ada', date: new Date(1_700_000_000_000), summary: 'Add parser' });
+		assert.equal(entries.get(11)?.author, 'Grace');
+		assert.equal(entries.get(11)?.summary, 'Fix off-by-one');
+	});
+
+	it('returns an empty map for empty output', () => {
+		assert.equal(parseBlamePorcelain('').size, 0);
+		assert.equal(parseBlamePorcelain('\n').size, 0);
+	});
+});
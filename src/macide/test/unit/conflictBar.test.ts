@@ -0,0 +1,62 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: conflict marker parsing.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as vscode from 'vscode';
+import { findConflictBlocks } from '../../git/conflictBar';
+
+function doc(...lines: string[]): vscode.TextDocument {
+	const text = lines.join('\n');
+	return { getText: () => text } as vscode.TextDocument;
+}
+
+describe('findConflictBlocks', () => {
+	it('returns nothing for a clean file', () => {
+		assert.deepEqual(findConflictBlocks(doc('const a = 1;', '=======', 'const b = 2;')), []);
+	});
+
+	it('locates the markers and both sides of each block', () => {
+		const blocks = findConflictBlocks(doc(
+			'header',
+			'<<<<<<< HEAD',
+			'ours one',
+			'ours two',
+			'=======',
+			'theirs',
+			'>>>>>>> feature',
+			'middle',
+			'<<<<<<< HEAD',
+			'x',
+			'=======',
+			'y',
+			'>>>>>>> other'
+		));
+
+		assert.equal(blocks.length, 2);
+		const [first, second] = blocks;
+		assert.deepEqual([first.oursStart, first.sepLine, first.theirsEnd], [1, 4, 6]);
+		assert.deepEqual([first.oursRange.start.line, first.oursRange.end.line, first.oursRange.end.character], [2, 3, 8]);
+		assert.deepEqual([first.theirsRange.start.line, first.theirsRange.end.line, first.theirsRange.end.character], [5, 5, 6]);
+		assert.deepEqual([second.oursStart, second.sepLine, second.theirsEnd], [8, 10, 12]);
+	});
+
+	it('handles an empty side', () => {
+		const [block] = findConflictBlocks(doc('<<<<<<< HEAD', '=======', 'added', '>>>>>>> b'));
+
+		assert.deepEqual([block.oursStart, block.sepLine, block.theirsEnd], [0, 1, 3]);
+	});
+
+	it('ignores a block with no closing marker', () => {
+		assert.deepEqual(findConflictBlocks(doc('<<<<<<< HEAD', 'a', '=======', 'b')), []);
+	});
+
+	it('skips diff3 base sections up to the separator', () => {
+		const [block] = findConflictBlocks(doc('<<<<<<< HEAD', 'a', '||||||| base', 'o', '=======', 'b', '>>>>>>> x'));
+
+		assert.equal(block.sepLine, 4);
+		assert.equal(block.theirsEnd, 6);
+	});
+});
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: MacideConfig merging of the on-disk file over the defaults.
+ *--------------------------------------------------------------------------------------------*/
+
+import { beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MacideConfig } from '../../config/macideConfig';
+import { fake } from '../fakes/fakeVscode';
+
+describe('MacideConfig._merge', () => {
+	let config: MacideConfig;
+
+	beforeEach(() => {
+		fake.reset();
+		config = new MacideConfig();
+	});
+
+	const merge = (base: object, overrides: object) => config['_merge'](base, overrides);
+
+	it('overrides leaf values and keeps unset defaults', () => {
+		const merged = merge(
+			{ accounts: { autoRotation: true, assumedDailyLimit: 300 }, githubClientId: '' },
+			{ accounts: { assumedDailyLimit: 500 } }
+		);
+
+		assert.deepEqual(merged, { accounts: { autoRotation: true, assumedDailyLimit: 500 }, githubClientId: '' });
+	});
+
+	it('drops keys that are not in the defaults', () => {
+		const merged = merge({ git: { inlineBlame: 'current-line' } }, { git: { inlineBlame: 'off', legacy: 1 }, removed: true });
+
+		assert.deepEqual(merged, { git: { inlineBlame: 'off' } });
+	});
+
+	it('takes arrays and open maps as a whole', () => {
+		const merged = merge(
+			{ accounts: { priorityOrder: ['a', 'b'], weights: {} } },
+			{ accounts: { priorityOrder: ['c'], weights: { 'id-a': 2, 'id-b': 0 } } }
+		);
+
+		assert.deepEqual(merged, { accounts: { priorityOrder: ['c'], weights: { 'id-a': 2, 'id-b': 0 } } });
+	});
+
+	it('does not mutate the defaults', () => {
+		const base = { appearance: { accentColor: '#7c3aed' } };
+
+		merge(base, { appearance: { accentColor: '#000000' } });
+
+		assert.equal(base.appearance.accentColor, '#7c3aed');
+	});
+
+	it('falls back to the defaults for a null section', () => {
+		const merged = merge({ git: { commitFormat: 'conventional' } }, { git: null });
+
+		assert.deepEqual(merged, { git: { commitFormat: 'conventional' } });
+	});
+
+	it('mirrors VS Code settings on first launch', () => {
+		fake.settings.set('macide.accounts.rotationStrategy', 'least-used');
+
+		const fresh = new MacideConfig();
+
+		assert.equal(fresh.get('accounts').rotationStrategy, 'least-used');
+		assert.equal(fresh.get('accounts').assumedDailyLimit, 300);
+	});
+});
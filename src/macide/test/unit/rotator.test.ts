@@ -0,0 +1,151 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: AccountRotator.selectNext across strategies and usability rules.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AccountRotator } from '../../auth/rotator';
+import type { MacideAccount } from '../../auth/provider';
+import { accountFor, MemoryAccountManager, RecordingNotifications } from '../integration/helpers';
+
+function account(login: string, overrides: Partial<MacideAccount> = {}): MacideAccount {
+	return accountFor({ id: login.length, login, token: `gho_${login}` }, overrides);
+}
+
+describe('AccountRotator.selectNext', () => {
+	let rotator: AccountRotator;
+
+	function withAccounts(...accounts: MacideAccount[]): MemoryAccountManager {
+		const manager = new MemoryAccountManager(accounts);
+		rotator = new AccountRotator(manager.asManager, new RecordingNotifications().asService);
+		return manager;
+	}
+
+	afterEach(() => rotator.dispose());
+
+	describe('round-robin', () => {
+		it('walks forward from the active account and wraps around', async () => {
+			const manager = withAccounts(account('a'), account('b'), account('c'));
+
+			assert.equal(rotator.selectNext()?.id, 'id-b');
+			await manager.setActive(manager.getAll()[2]);
+			assert.equal(rotator.selectNext()?.id, 'id-a');
+		});
+
+		it('skips exhausted, cooling down, revoked and seatless accounts', () => {
+			withAccounts(
+				account('a'),
+				account('b', { status: 'exhausted' }),
+				account('c', { cooldownUntil: new Date(Date.now() + 60_000).toISOString() }),
+				account('d', { status: 'revoked' }),
+				account('e', { copilot: { status: 'none', checkedAt: new Date().toISOString() } }),
+				account('f', { status: 'invalid' }),
+				account('g')
+			);
+
+			assert.equal(rotator.selectNext()?.id, 'id-g');
+		});
+
+		it('treats an expired cooldown as usable', () => {
+			withAccounts(account('a'), account('b', { cooldownUntil: new Date(Date.now() - 1000).toISOString() }));
+
+			assert.equal(rotator.selectNext()?.id, 'id-b');
+		});
+
+		it('skips accounts whose server quota says they are exhausted', () => {
+			const resetAt = new Date(Date.now() + 3_600_000).toISOString();
+			withAccounts(account('a'), account('b', { quota: { limit: 300, remaining: 0, resetAt, updatedAt: resetAt } }), account('c'));
+
+			assert.equal(rotator.selectNext()?.id, 'id-c');
+		});
+
+		it('returns null when only the active account is usable', () => {
+			withAccounts(account('a'), account('b', { status: 'exhausted' }));
+
+			assert.equal(rotator.selectNext(), null);
+		});
+	});
+
+	it('least-used picks the lowest daily count other than the active account', () => {
+		withAccounts(account('a', { requestCount: 0 }), account('b', { requestCount: 40 }), account('c', { requestCount: 12 }));
+		rotator.strategy = 'least-used';
+
+		assert.equal(rotator.selectNext()?.id, 'id-c');
+	});
+
+	it('priority follows the configured order, then vault order', () => {
+		withAccounts(account('a'), account('b'), account('c'), account('d', { status: 'exhausted' }));
+		rotator.strategy = 'priority';
+		rotator.priorityOrder = ['id-d', 'id-c'];
+
+		assert.equal(rotator.selectNext()?.id, 'id-c');
+		assert.deepEqual(rotator.priorityRanked().map(a => a.id), ['id-d', 'id-c', 'id-a', 'id-b']);
+	});
+
+	describe('weighted', () => {
+		beforeEach(() => {
+			withAccounts(account('a', { requestCount: 50 }), account('b', { requestCount: 30 }), account('c', { requestCount: 20 }));
+			rotator.strategy = 'weighted';
+		});
+
+		it('picks the account furthest below its proportional share', () => {
+			rotator.weights = { 'id-b': 3, 'id-c': 1 };
+
+			assert.equal(rotator.selectNext()?.id, 'id-b');
+		});
+
+		it('uses weight 0 accounts only as a last resort', () => {
+			rotator.weights = { 'id-b': 0 };
+			assert.equal(rotator.selectNext()?.id, 'id-c');
+
+			// The active account is still usable, so no weight 0 account is picked
+			rotator.weights = { 'id-b': 0, 'id-c': 0 };
+			assert.equal(rotator.selectNext(), null);
+		});
+
+		it('falls back to weight 0 accounts once the active one is unusable', () => {
+			withAccounts(account('a', { status: 'exhausted' }), account('b', { requestCount: 30 }), account('c', { requestCount: 20 }));
+			rotator.strategy = 'weighted';
+			rotator.weights = { 'id-b': 0, 'id-c': 0 };
+
+			assert.equal(rotator.selectNext()?.id, 'id-c');
+		});
+
+		it('does not rebalance onto a weight 0 account', async () => {
+			const manager = withAccounts(account('main', { requestCount: 12 }), account('trial'));
+			rotator.strategy = 'weighted';
+			rotator.weights = { 'id-trial': 0 };
+
+			rotator.onRequestCounted(manager.getActive()!);
+			await Promise.resolve();
+
+			assert.equal(manager.getActive()?.id, 'id-main');
+			assert.deepEqual(manager.switches, []);
+		});
+	});
+
+	it('manual never selects an account', () => {
+		withAccounts(account('a'), account('b'));
+		rotator.strategy = 'manual';
+
+		assert.equal(rotator.selectNext(), null);
+	});
+
+	it('applies the accept filter on top of usability', () => {
+		withAccounts(account('a'), account('b'), account('c'));
+
+		assert.equal(rotator.selectNext(a => a.id !== 'id-b')?.id, 'id-c');
+	});
+
+	it('keeps pre-emptive targets out of the sticky band', () => {
+		const usage: Record<string, number> = { 'id-a': 0.96, 'id-b': 0.9, 'id-c': 0.5 };
+		withAccounts(account('a'), account('b'), account('c'));
+		rotator.preemptiveThreshold = 0.95;
+		rotator.stickyMargin = 0.1;
+		rotator.usageOf = a => usage[a.id];
+
+		assert.equal(rotator.isNearLimit(rotator.priorityRanked()[1]), true);
+		assert.equal(rotator.selectNext(a => !rotator.isNearLimit(a))?.id, 'id-c');
+	});
+});
@@ -0,0 +1,83 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: the Macide-managed block of ~/.ssh/config.
+ *--------------------------------------------------------------------------------------------*/
+
+import { beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applySshConfigBlock, renderSshConfigBlock, SshKeyMapping, sshHostAlias, writeSshConfig } from '../../git/sshConfig';
+import type { MacideAccount } from '../../auth/provider';
+import { accountFor, MemoryAccountManager } from '../integration/helpers';
+
+function account(id: number, login: string, overrides: Partial<MacideAccount> = {}): MacideAccount {
+	return accountFor({ id, login, token: `gho_${login}` }, overrides);
+}
+
+describe('SSH config', () => {
+	const alice = account(1, 'Alice', { sshKeyPath: '/keys/id_alice' });
+	const corp = account(2, 'corp', { host: 'ghes.example.corp', sshKeyPath: '/keys/id corp' });
+	const noKey = account(3, 'bob');
+
+	let file: string;
+
+	beforeEach(() => {
+		file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'macide-ssh-')), '.ssh', 'config');
+	});
+
+	it('names one Host alias per account and host', () => {
+		assert.equal(sshHostAlias(alice), 'github.com-alice');
+		assert.equal(sshHostAlias(corp), 'ghes.example.corp-corp');
+	});
+
+	it('renders only accounts with a key', () => {
+		const block = renderSshConfigBlock([alice, noKey, corp]);
+
+		assert.match(block, /^# >>> macide managed >>>\nHost github\.com-alice\n  HostName github\.com\n  User git\n  IdentityFile "\/keys\/id_alice"\n  IdentitiesOnly yes\n/);
+		assert.match(block, /Host ghes\.example\.corp-corp\n  HostName ghes\.example\.corp\n/);
+		assert.match(block, /IdentityFile "\/keys\/id corp"/);
+		assert.doesNotMatch(block, /bob/);
+		assert.equal(renderSshConfigBlock([noKey]), '');
+	});
+
+	it('replaces its own block and leaves the rest of the file alone', () => {
+		const user = 'Host example\n  User me\n';
+		const first = applySshConfigBlock(user, renderSshConfigBlock([alice]));
+		const second = applySshConfigBlock(first + 'Host later\n  User you\n', renderSshConfigBlock([corp]));
+
+		assert.ok(second.startsWith(user));
+		assert.ok(second.endsWith('Host later\n  User you\n'));
+		assert.doesNotMatch(second, /github\.com-alice/);
+		assert.match(second, /ghes\.example\.corp-corp/);
+		assert.equal(applySshConfigBlock(second, ''), user + '\nHost later\n  User you\n');
+	});
+
+	it('creates the file privately and skips writes that change nothing', async () => {
+		assert.equal(await writeSshConfig([noKey], file), false);
+		assert.equal(fs.existsSync(file), false);
+
+		assert.equal(await writeSshConfig([alice], file), true);
+		assert.equal(await writeSshConfig([alice], file), false);
+		if (process.platform !== 'win32') assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+		assert.match(fs.readFileSync(file, 'utf-8'), /Host github\.com-alice/);
+	});
+
+	it('syncs only when an account\'s key, login or host changes', async () => {
+		const accounts = new MemoryAccountManager([account(1, 'Alice')]);
+		const mapping = new SshKeyMapping(accounts.asManager, file);
+
+		accounts.updateUsage({ ...accounts.getAll()[0], sshKeyPath: '/keys/id_alice' });
+		await mapping.idle;
+		assert.match(fs.readFileSync(file, 'utf-8'), /Host github\.com-alice/);
+
+		// Request counting fires account changes too; those must not touch the file
+		fs.rmSync(file);
+		accounts.updateUsage({ ...accounts.getAll()[0], requestCount: 5 });
+		await mapping.idle;
+		assert.equal(fs.existsSync(file), false);
+
+		mapping.dispose();
+	});
+});
@@ -0,0 +1,98 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: AccountTracker counting, warning threshold and day rollover.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AccountRotator } from '../../auth/rotator';
+import { AccountTracker } from '../../accounts/tracker';
+import type { MacideAccount } from '../../auth/provider';
+import { accountFor, MemoryAccountManager, RecordingNotifications } from '../integration/helpers';
+
+describe('AccountTracker.increment', () => {
+	let account: MacideAccount;
+	let notifications: RecordingNotifications;
+	let rotator: AccountRotator;
+	let tracker: AccountTracker;
+
+	beforeEach(() => {
+		account = accountFor({ id: 1, login: 'a', token: 'gho_a' });
+		const manager = new MemoryAccountManager([account, accountFor({ id: 2, login: 'b', token: 'gho_b' })]);
+		notifications = new RecordingNotifications();
+		rotator = new AccountRotator(manager.asManager, notifications.asService);
+		tracker = new AccountTracker(manager.asManager, rotator);
+		tracker.dailyLimit = 10;
+	});
+
+	afterEach(() => rotator.dispose());
+
+	it('counts the request and its category', async () => {
+		await tracker.increment(account, 'chat');
+		await tracker.increment(account, 'completion');
+
+		assert.equal(account.requestCount, 2);
+		assert.deepEqual(account.requestsByCategory, { chat: 1, completion: 1 });
+		assert.equal(account.status, 'healthy');
+	});
+
+	it('moves to warning at 80% and notifies once', async () => {
+		for (let i = 0; i < 9; i++) await tracker.increment(account, 'completion');
+
+		assert.equal(account.status, 'warning');
+		assert.equal(tracker.getUsagePercent(account), 0.9);
+		const warnings = notifications.shown.filter(n => n.level === 'warning');
+		assert.equal(warnings.length, 1);
+		assert.match(warnings[0].message, /80%/);
+	});
+
+	it('clears the backoff streak on success', async () => {
+		account.rateLimitStrikes = 3;
+
+		await tracker.increment(account, 'completion');
+
+		assert.equal(account.rateLimitStrikes, 0);
+	});
+
+	it('leaves exhausted and revoked accounts in their state', async () => {
+		account.status = 'exhausted';
+		account.cooldownUntil = new Date(Date.now() + 60_000).toISOString();
+		await tracker.increment(account, 'completion');
+		assert.equal(account.status, 'exhausted');
+
+		account.status = 'revoked';
+		await tracker.increment(account, 'completion');
+		assert.equal(account.status, 'revoked');
+	});
+
+	it('starts a new day from zero', async () => {
+		account.requestCount = 9;
+		account.requestCountDate = '2000-01-01';
+		account.requestsByCategory = { chat: 9 };
+		account.status = 'warning';
+
+		await tracker.increment(account, 'edit');
+
+		assert.equal(account.requestCount, 1);
+		assert.equal(account.requestCountDate, new Date().toISOString().slice(0, 10));
+		assert.deepEqual(account.requestsByCategory, { edit: 1 });
+		assert.equal(account.status, 'healthy');
+	});
+
+	it('prefers the server-reported quota over the assumed limit', async () => {
+		account.quota = { limit: 100, remaining: 5, updatedAt: new Date().toISOString() };
+
+		await tracker.increment(account, 'completion');
+
+		assert.equal(tracker.getUsagePercent(account), 0.95);
+		assert.equal(account.status, 'warning');
+	});
+
+	it('tallies non-Copilot traffic without counting it', async () => {
+		await tracker.recordRequest(account, 'telemetry');
+		await tracker.recordRequest(account, 'rest');
+
+		assert.equal(account.requestCount, 0);
+		assert.deepEqual(account.requestsByCategory, { telemetry: 1, rest: 1 });
+	});
+});
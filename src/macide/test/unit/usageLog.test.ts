@@ -0,0 +1,82 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: UsageLog monthly files, retention and the single-file log it replaced.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { localDateKey, UsageLog } from '../../accounts/usageLog';
+import type { UsageEvent } from '../../accounts/usageLog';
+import { createExtensionContext } from '../fakes/fakeVscode';
+import { accountFor, MemoryAccountManager } from '../integration/helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function line(t: Date, kind: UsageEvent['kind'] = 'completion'): string {
+	return JSON.stringify({ t: t.toISOString(), accountId: 'id-a', kind }) + '\n';
+}
+
+describe('UsageLog', () => {
+	let context: vscode.ExtensionContext;
+	let dir: string;
+	let accounts: MemoryAccountManager;
+	let log: UsageLog | undefined;
+
+	const open = async (): Promise<UsageLog> => {
+		log = new UsageLog(context, accounts.asManager);
+		await log.whenReady();
+		return log;
+	};
+
+	beforeEach(() => {
+		context = createExtensionContext();
+		dir = context.globalStorageUri.fsPath;
+		fs.mkdirSync(dir, { recursive: true });
+		accounts = new MemoryAccountManager([accountFor({ id: 1, login: 'a', token: 'gho_a' })]);
+	});
+	afterEach(() => log?.dispose());
+
+	it('appends to the file of the current month', async () => {
+		const usage = await open();
+
+		usage.record('id-a', 'chat');
+		const events = await usage.readEvents();
+
+		assert.deepEqual(fs.readdirSync(dir), [`usage-events-${localDateKey(new Date()).slice(0, 7)}.jsonl`]);
+		assert.deepEqual(events.map(e => e.kind), ['chat']);
+	});
+
+	it('deletes months past retention and skips expired events on load', async () => {
+		const now = new Date();
+		const expired = new Date(now.getTime() - 500 * DAY_MS);
+		const recent = new Date(now.getTime() - DAY_MS);
+		const expiredFile = `usage-events-${localDateKey(expired).slice(0, 7)}.jsonl`;
+		fs.writeFileSync(path.join(dir, expiredFile), line(expired));
+		fs.appendFileSync(path.join(dir, `usage-events-${localDateKey(recent).slice(0, 7)}.jsonl`), line(recent));
+
+		const usage = await open();
+
+		assert.equal(fs.existsSync(path.join(dir, expiredFile)), false);
+		assert.deepEqual((await usage.readEvents()).map(e => e.t), [recent.toISOString()]);
+		assert.equal(usage.dailyRequestTotals('id-a', 2)[1], 1);
+	});
+
+	it('splits the old single-file log into months', async () => {
+		const earlier = new Date(Date.now() - 40 * DAY_MS);
+		const later = new Date(Date.now() - DAY_MS);
+		fs.writeFileSync(path.join(dir, 'usage-events.jsonl'), line(earlier) + line(later, 'rateLimit') + '{"torn\n');
+
+		const usage = await open();
+
+		assert.equal(fs.existsSync(path.join(dir, 'usage-events.jsonl')), false);
+		assert.deepEqual(
+			fs.readdirSync(dir).sort(),
+			[...new Set([earlier, later].map(d => `usage-events-${localDateKey(d).slice(0, 7)}.jsonl`))].sort()
+		);
+		assert.deepEqual((await usage.readEvents()).map(e => e.kind), ['completion', 'rateLimit']);
+		assert.equal(usage.dailyRequestTotals('id-a', 41).reduce((sum, n) => sum + n, 0), 1);
+	});
+});
@@ -0,0 +1,240 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Unit: per-account token secrets, schema migrations and recovery, serialized
+ * writes, and usage fields kept out of the keychain.
+ *--------------------------------------------------------------------------------------------*/
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as vscode from 'vscode';
+import { AccountManager } from '../../accounts/manager';
+import { AccountRotator } from '../../auth/rotator';
+import { AccountTracker } from '../../accounts/tracker';
+import { readVault, removeAccount, upsertAccount, VAULT_VERSION, writeVault } from '../../auth/vault';
+import type { MacideAccount } from '../../auth/provider';
+import { createExtensionContext, fake } from '../fakes/fakeVscode';
+import { accountFor, RecordingNotifications } from '../integration/helpers';
+
+function account(login: string, overrides: Partial<MacideAccount> = {}): MacideAccount {
+	return accountFor({ id: login.length, login, token: `gho_${login}` }, overrides);
+}
+
+describe('Vault', () => {
+	let context: vscode.ExtensionContext;
+	let keychainWrites: number;
+
+	beforeEach(() => {
+		fake.reset();
+		context = createExtensionContext();
+		keychainWrites = 0;
+		const store = context.secrets.store.bind(context.secrets);
+		context.secrets.store = (key, value) => {
+			keychainWrites++;
+			return store(key, value);
+		};
+	});
+
+	const metadata = () => context.globalState.get<{ accounts: Record<string, unknown>[] }>('macide.accounts')!.accounts;
+	const backups = () => context.globalState.keys().filter(k => k.startsWith('macide.accounts.backup.'));
+
+	it('serializes concurrent read-modify-write operations', async () => {
+		await Promise.all(['a', 'b', 'c', 'd'].map(login => upsertAccount(context, account(login))));
+
+		assert.deepEqual((await readVault(context)).map(a => a.id).sort(), ['id-a', 'id-b', 'id-c', 'id-d']);
+	});
+
+	it('stores each token in its own secret and the rest in globalState', async () => {
+		await writeVault(context, [account('a', { requestCount: 42, requestsByCategory: { chat: 42 }, rateLimitStrikes: 2 }), account('b')]);
+
+		assert.deepEqual(JSON.parse((await context.secrets.get('macide.github.token.id-a'))!), { token: 'gho_a' });
+		assert.deepEqual(JSON.parse((await context.secrets.get('macide.github.token.id-b'))!), { token: 'gho_b' });
+		const [stored] = metadata();
+		assert.equal(stored.alias, 'a');
+		for (const field of ['token', 'requestCount', 'requestsByCategory', 'lastUsedAt', 'rateLimitStrikes']) {
+			assert.equal(stored[field], undefined, field);
+		}
+	});
+
+	it('rewrites a token secret only when the token changes', async () => {
+		const a = account('a');
+		await upsertAccount(context, a);
+		keychainWrites = 0;
+
+		a.alias = 'Renamed';
+		a.status = 'warning';
+		await upsertAccount(context, a);
+		assert.equal(keychainWrites, 0);
+
+		a.token = 'gho_new';
+		await upsertAccount(context, a);
+		assert.equal(keychainWrites, 1);
+		assert.equal((await readVault(context))[0].alias, 'Renamed');
+	});
+
+	it('deletes the token secret with the account', async () => {
+		await writeVault(context, [account('a'), account('b')]);
+
+		await removeAccount(context, 'id-a');
+		assert.equal(await context.secrets.get('macide.github.token.id-a'), undefined);
+
+		await writeVault(context, []);
+		assert.equal(await context.secrets.get('macide.github.token.id-b'), undefined);
+	});
+
+	it('migrates a single-secret vault and removes it', async () => {
+		await context.secrets.store('macide.github.accounts', JSON.stringify([account('a', { requestCount: 7 }), account('b')]));
+
+		const accounts = await readVault(context);
+
+		assert.deepEqual(accounts.map(a => [a.id, a.token, a.requestCount]), [['id-a', 'gho_a', 7], ['id-b', 'gho_b', 0]]);
+		assert.equal(await context.secrets.get('macide.github.accounts'), undefined);
+		assert.equal(metadata().length, 2);
+		assert.deepEqual((await readVault(context)).map(a => a.token), ['gho_a', 'gho_b']);
+	});
+
+	it('backs up an unreadable single-secret vault in the keychain and reports it', async () => {
+		await context.secrets.store('macide.github.accounts', '{"not json');
+
+		assert.deepEqual(await readVault(context), []);
+		assert.equal(await context.secrets.get('macide.github.accounts'), undefined);
+		const [backupKey] = (await context.secrets.keys()).filter(k => k.startsWith('macide.github.accounts.backup.'));
+		assert.equal(await context.secrets.get(backupKey), '{"not json');
+		assert.equal(fake.messages.length, 1);
+		assert.match(fake.messages[0].message, /could not be read/);
+		assert.ok(fake.messages[0].message.includes(backupKey));
+	});
+
+	it('wraps metadata in a versioned envelope', async () => {
+		await writeVault(context, [account('a')]);
+
+		assert.equal(context.globalState.get<{ version: number }>('macide.accounts')!.version, VAULT_VERSION);
+	});
+
+	it('upgrades a version 1 metadata array and fills fields added since', async () => {
+		const { alias: _alias, scopes: _scopes, ...old } = account('a', { status: 'bogus' as MacideAccount['status'] });
+		await context.globalState.update('macide.accounts', [old]);
+		await context.secrets.store('macide.github.token.id-a', JSON.stringify({ token: 'gho_a' }));
+
+		const [loaded] = await readVault(context);
+
+		assert.equal(loaded.alias, 'a');
+		assert.deepEqual(loaded.scopes, []);
+		assert.equal(loaded.status, 'idle');
+		assert.equal(loaded.token, 'gho_a');
+		assert.equal(context.globalState.get<{ version: number }>('macide.accounts')!.version, VAULT_VERSION);
+		assert.equal(fake.messages.length, 0);
+	});
+
+	it('backs up and reports metadata it cannot read instead of silently dropping it', async () => {
+		await context.globalState.update('macide.accounts', 'garbage');
+
+		assert.deepEqual(await readVault(context), []);
+		assert.equal(backups().length, 1);
+		assert.equal(context.globalState.get(backups()[0]), 'garbage');
+		assert.match(fake.messages[0].message, /could not be read/);
+
+		// Reported once: the envelope is rewritten, so the next read is clean
+		await readVault(context);
+		assert.equal(fake.messages.length, 1);
+	});
+
+	it('keeps readable accounts when some entries are damaged', async () => {
+		await writeVault(context, [account('a')]);
+		await context.globalState.update('macide.accounts', { version: VAULT_VERSION, accounts: [...metadata(), null, { alias: 'no id' }] });
+
+		assert.deepEqual((await readVault(context)).map(a => a.id), ['id-a']);
+		assert.equal(backups().length, 1);
+		assert.match(fake.messages[0].message, /2 saved accounts could not be read/);
+	});
+
+	it('loads a vault written by a newer version after backing it up', async () => {
+		await writeVault(context, [account('a')]);
+		await context.globalState.update('macide.accounts', { version: VAULT_VERSION + 1, accounts: [{ ...metadata()[0], futureField: 1 }] });
+
+		const [loaded] = await readVault(context);
+
+		assert.equal(loaded.id, 'id-a');
+		assert.equal((loaded as unknown as Record<string, unknown>).futureField, 1);
+		assert.equal(backups().length, 1);
+		assert.match(fake.messages[0].message, /newer version/);
+	});
+
+	it('keeps an account whose token secret is missing or corrupt, flagged for re-authorization', async () => {
+		await writeVault(context, [account('a'), account('b'), account('c')]);
+		await context.secrets.delete('macide.github.token.id-a');
+		await context.secrets.store('macide.github.token.id-b', 'garbage');
+
+		const accounts = await readVault(context);
+
+		assert.deepEqual(accounts.map(a => [a.id, a.status, a.token]), [
+			['id-a', 'revoked', ''],
+			['id-b', 'revoked', ''],
+			['id-c', 'healthy', 'gho_c']
+		]);
+	});
+
+	describe('with AccountManager', () => {
+		let manager: AccountManager;
+		let rotator: AccountRotator;
+		let tracker: AccountTracker;
+
+		beforeEach(async () => {
+			await writeVault(context, [account('a'), account('b')]);
+			manager = new AccountManager(context);
+			await manager.load();
+			rotator = new AccountRotator(manager, new RecordingNotifications().asService);
+			tracker = new AccountTracker(manager, rotator);
+			keychainWrites = 0;
+		});
+		afterEach(() => {
+			rotator.dispose();
+			manager.dispose();
+		});
+
+		it('counts a burst of requests without writing the keychain per request', async () => {
+			const active = manager.getActive()!;
+			await Promise.all(Array.from({ length: 50 }, () => tracker.increment(active, 'completion')));
+
+			assert.equal(active.requestCount, 50);
+			assert.equal(keychainWrites, 0);
+			assert.equal(context.globalState.get('macide.accountUsage'), undefined);
+
+			await manager.flushUsage();
+			assert.equal(context.globalState.get<Record<string, MacideAccount>>('macide.accountUsage')!['id-a'].requestCount, 50);
+		});
+
+		it('restores counters flushed to globalState on reload', async () => {
+			const active = manager.getActive()!;
+			for (let i = 0; i < 3; i++) await tracker.increment(active, 'chat');
+			await manager.flushUsage();
+
+			const reloaded = new AccountManager(context);
+			await reloaded.load();
+
+			assert.equal(reloaded.getActive()?.requestCount, 3);
+			assert.deepEqual(reloaded.getActive()?.requestsByCategory, { chat: 3 });
+			reloaded.dispose();
+		});
+
+		it('flushes pending counters on dispose', async () => {
+			await tracker.increment(manager.getActive()!, 'edit');
+
+			manager.dispose();
+			await new Promise(resolve => setImmediate(resolve));
+
+			const usage = context.globalState.get<Record<string, MacideAccount>>('macide.accountUsage')!;
+			assert.equal(usage['id-a'].requestCount, 1);
+		});
+
+		it('keeps counters from a vault written before they moved out', async () => {
+			await writeVault(context, []);
+			await context.secrets.store('macide.github.accounts', JSON.stringify([account('a', { requestCount: 7 })]));
+
+			const reloaded = new AccountManager(context);
+			await reloaded.load();
+
+			assert.equal(reloaded.getActive()?.requestCount, 7);
+			reloaded.dispose();
+		});
+	});
+});
@@ -4,8 +4,10 @@
  *
  * Spec §5.4: 380px wide, Obsidian Flow glass design.
  * State flows:
- *   extension → webview : { type:'update', accounts, activeId }
+ *   extension → webview : { type:'update', accounts, activeId, activeSource, activeSourceDetail, activity }
  *   webview → extension : { type:'switchAccount', accountId }
+ *                         { type:'bindAccount', accountId }
+ *                         { type:'reauthAccount', accountId }
  *                         { type:'addAccount' }
  *                         { type:'removeAccount', accountId }
  *                         { type:'renameAccount', accountId, alias }
@@ -14,17 +16,31 @@
 import * as vscode from 'vscode';
 import type { MacideAccount } from '../../auth/provider';
 import { AccountManager } from '../../accounts/manager';
+import type { ActivationSource } from '../../accounts/manager';
+import type { AccountActivity } from '../../accounts/activityLog';
+
+/** Newest status transitions shown in the Account Activity timeline. */
+const ACTIVITY_LIMIT = 50;
 
 // ---------------------------------------------------------------------------
 // Message types (extension ↔ webview)
 // ---------------------------------------------------------------------------
 
 export type ToWebview =
-	| { type: 'update'; accounts: MacideAccount[]; activeId: string | undefined }
+	| {
+		type: 'update';
+		accounts: MacideAccount[];
+		activeId: string | undefined;
+		activeSource: ActivationSource;
+		activeSourceDetail: string | undefined;
+		activity: AccountActivity[];
+	}
 	| { type: 'clearAlias'; accountId: string };
 
 export type FromWebview =
 	| { type: 'switchAccount'; accountId: string }
+	| { type: 'bindAccount'; accountId: string }
+	| { type: 'reauthAccount'; accountId: string }
 	| { type: 'addAccount' }
 	| { type: 'removeAccount'; accountId: string }
 	| { type: 'renameAccount'; accountId: string; alias: string };
@@ -43,12 +59,15 @@ export class AccountPanelProvider implements vscode.Disposable {
 		private readonly _onAddAccount: () => void,
 		private readonly _onSwitchAccount: (accountId: string) => void,
 		private readonly _onRemoveAccount: (accountId: string) => void,
-		private readonly _onRenameAccount: (accountId: string, alias: string) => void
+		private readonly _onRenameAccount: (accountId: string, alias: string) => void,
+		private readonly _onBindAccount: (accountId: string) => void,
+		private readonly _onReauthAccount: (accountId: string) => void
 	) {
 		// Keep panel in sync whenever accounts change outside of it
 		this._disposables.push(
 			_accountManager.onDidChangeAccounts(() => this._pushUpdate()),
-			_accountManager.onDidChangeActive(() => this._pushUpdate())
+			_accountManager.onDidChangeActive(() => this._pushUpdate()),
+			_accountManager.activity.onDidRecord(() => this._pushUpdate())
 		);
 	}
 
@@ -103,7 +122,10 @@ export class AccountPanelProvider implements vscode.Disposable {
 		const message: ToWebview = {
 			type: 'update',
 			accounts: this._accountManager.getAll(),
-			activeId: this._accountManager.getActive()?.id
+			activeId: this._accountManager.getActive()?.id,
+			activeSource: this._accountManager.activeSource,
+			activeSourceDetail: this._accountManager.activeSourceDetail,
+			activity: this._accountManager.activity.entries().slice(0, ACTIVITY_LIMIT)
 		};
 		this._panel.webview.postMessage(message);
 	}
@@ -113,6 +135,12 @@ export class AccountPanelProvider implements vscode.Disposable {
 			case 'switchAccount':
 				this._onSwitchAccount(msg.accountId);
 				break;
+			case 'bindAccount':
+				this._onBindAccount(msg.accountId);
+				break;
+			case 'reauthAccount':
+				this._onReauthAccount(msg.accountId);
+				break;
 			case 'addAccount':
 				this._onAddAccount();
 				break;
@@ -322,6 +350,8 @@ html, body {
 .status-dot.warning   { background: var(--warning); }
 .status-dot.exhausted { background: var(--exhausted); }
 .status-dot.idle      { background: var(--idle); }
+.status-dot.revoked,
+.status-dot.invalid   { background: var(--exhausted); }
 
 .card-info {
   flex: 1;
@@ -365,12 +395,14 @@ html, body {
 .status-badge.warning   { background: rgba(245,158,11,0.15); color: var(--warning); }
 .status-badge.exhausted { background: rgba(239,68,68,0.15);  color: var(--exhausted); }
 .status-badge.idle      { background: rgba(74,74,96,0.20);   color: var(--text-muted); }
+.status-badge.revoked,
+.status-badge.invalid   { background: rgba(239,68,68,0.15);  color: var(--exhausted); }
 
 .card-actions {
   display: flex;
   gap: 6px;
 }
-.btn-switch, .btn-active, .btn-remove {
+.btn-switch, .btn-active, .btn-remove, .btn-bind, .btn-reauth {
   padding: 4px 10px;
   border-radius: var(--radius-btn);
   font-size: 11px;
@@ -395,6 +427,24 @@ html, body {
   border: 1px solid rgba(124,58,237,0.3);
   cursor: default;
 }
+.btn-reauth {
+  background: rgba(239,68,68,0.12);
+  color: var(--exhausted);
+  border: 1px solid rgba(239,68,68,0.3);
+}
+.btn-reauth:hover {
+  background: rgba(239,68,68,0.2);
+}
+.btn-bind {
+  background: transparent;
+  color: var(--text-muted);
+  border: 1px solid var(--glass-border);
+  padding: 4px 8px;
+}
+.btn-bind:hover {
+  color: var(--text-primary);
+  border-color: rgba(6,182,212,0.4);
+}
 .btn-remove {
   background: transparent;
   color: var(--text-muted);
@@ -408,6 +458,30 @@ html, body {
   background: rgba(239,68,68,0.08);
 }
 
+/* ── Activation source tag ────────────────────────────────────────────────── */
+.host-tag {
+  font-size: 10px;
+  color: var(--text-muted);
+  margin-left: 4px;
+}
+.host-tag::before { content: '· '; }
+.host-tag.enterprise { color: var(--accent-cyan); }
+.plan-tag {
+  font-size: 10px;
+  color: var(--text-muted);
+  margin-top: 3px;
+  margin-left: 6px;
+  display: inline-block;
+}
+.plan-tag.none { color: var(--exhausted); }
+.source-tag {
+  font-size: 10px;
+  color: var(--accent-cyan);
+  margin-top: 3px;
+  margin-left: 6px;
+  display: inline-block;
+}
+
 /* ── Usage bar ────────────────────────────────────────────────────────────── */
 .usage-row {
   display: flex;
@@ -438,6 +512,51 @@ html, body {
   text-align: right;
 }
 
+.usage-breakdown {
+  font-size: 10px;
+  color: var(--text-muted);
+  margin-top: 4px;
+}
+.usage-breakdown .uncounted { opacity: 0.6; }
+
+/* ── Account Activity timeline ────────────────────────────────────────────── */
+.activity {
+  border-top: 1px solid var(--glass-border);
+  padding: 8px 16px;
+}
+.activity summary {
+  font-size: 11px;
+  font-weight: 500;
+  color: var(--text-secondary);
+  cursor: pointer;
+  list-style: none;
+}
+.activity summary::before { content: '▸ '; }
+.activity[open] summary::before { content: '▾ '; }
+.activity-list {
+  list-style: none;
+  margin-top: 8px;
+  max-height: 180px;
+  overflow-y: auto;
+  scrollbar-width: thin;
+  scrollbar-color: var(--surface-4) transparent;
+}
+.activity-item {
+  display: flex;
+  gap: 8px;
+  font-size: 10px;
+  color: var(--text-muted);
+  padding: 3px 0;
+}
+.activity-time { white-space: nowrap; min-width: 62px; }
+.activity-what { color: var(--text-secondary); }
+.activity-what .to.healthy   { color: var(--healthy); }
+.activity-what .to.warning   { color: var(--warning); }
+.activity-what .to.exhausted,
+.activity-what .to.revoked,
+.activity-what .to.invalid   { color: var(--exhausted); }
+.activity-empty { font-size: 10px; color: var(--text-muted); margin-top: 8px; }
+
 /* ── Inline alias editor ──────────────────────────────────────────────────── */
 .alias-input {
   background: var(--surface-3);
@@ -510,6 +629,10 @@ html, body {
   <div class="account-list" id="account-list">
     <div class="loading"><div class="spinner"></div></div>
   </div>
+  <details class="activity" id="activity">
+    <summary>Account Activity</summary>
+    <ul class="activity-list" id="activity-list"></ul>
+  </details>
   <div class="panel-footer">
     <button class="btn-manage" id="btn-manage">Manage Accounts →</button>
   </div>
@@ -521,14 +644,47 @@ html, body {
 
   const vscode = acquireVsCodeApi();
   const listEl = document.getElementById('account-list');
-
-  let _state = { accounts: [], activeId: undefined };
+  const activityEl = document.getElementById('activity-list');
+
+  let _state = { accounts: [], activeId: undefined, activeSource: 'restored', activeSourceDetail: undefined, activity: [] };
+
+  const ACTOR_LABELS = {
+    user:      'you',
+    binding:   'workspace binding',
+    schedule:  'schedule',
+    rotator:   'auto-rotation',
+    tracker:   'usage tracker',
+    validator: 'token check',
+    system:    'Macide'
+  };
+
+  // ── Activity timeline ───────────────────────────────────────────────────────
+  function renderActivity(entries) {
+    if (!entries.length) {
+      activityEl.innerHTML = '<li class="activity-empty">No status changes yet.</li>';
+      return;
+    }
+    activityEl.innerHTML = entries.map(function(e) {
+      const at = new Date(e.at);
+      const sameDay = at.toDateString() === new Date().toDateString();
+      const time = sameDay
+        ? at.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+        : at.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+      return '<li class="activity-item" title="' + esc(at.toLocaleString()) + '">'
+        + '<span class="activity-time">' + esc(time) + '</span>'
+        + '<span class="activity-what"><strong>' + esc(e.alias) + '</strong> '
+        + esc(e.from) + ' → <span class="to ' + esc(e.to) + '">' + esc(e.to) + '</span>'
+        + ' · ' + esc(e.reason) + ' (' + esc(ACTOR_LABELS[e.actor] || e.actor) + ')</span>'
+        + '</li>';
+    }).join('');
+  }
 
   // ── Render ──────────────────────────────────────────────────────────────────
   function render(state) {
     _state = state;
-    const { accounts, activeId } = state;
+    const { accounts, activeId, activeSource, activeSourceDetail } = state;
     listEl.innerHTML = '';
+    renderActivity(state.activity || []);
 
     if (!accounts.length) {
       listEl.innerHTML = \`
@@ -540,12 +696,51 @@ html, body {
     }
 
     const DAILY_LIMIT = 300;
+    // [category, label, counts toward quota]
+    const CATEGORY_LABELS = [
+      ['completion', 'completions', true],
+      ['chat',       'chat',        true],
+      ['edit',       'edits',       true],
+      ['embeddings', 'embeddings',  true],
+      ['rest',       'REST',        false],
+      ['telemetry',  'telemetry',   false],
+      ['other',      'other',       false]
+    ];
 
     accounts.forEach(function(acc) {
       const isActive = acc.id === activeId;
       const initial = (acc.alias || acc.githubUsername || '?')[0].toUpperCase();
-      const pct = Math.min(100, Math.round((acc.requestCount / DAILY_LIMIT) * 100));
+      // Prefer the server-reported quota over the assumed daily limit
+      const q = acc.quota;
+      const hasQuota = q && q.limit > 0 && q.remaining !== undefined && q.remaining !== null
+        && !(q.resetAt && Date.parse(q.resetAt) <= Date.now());
+      const pct = hasQuota
+        ? Math.min(100, Math.round(((q.limit - q.remaining) / q.limit) * 100))
+        : Math.min(100, Math.round((acc.requestCount / DAILY_LIMIT) * 100));
+      const usageLabel = hasQuota
+        ? q.remaining + ' / ' + q.limit + ' left'
+        : acc.requestCount + ' / ' + DAILY_LIMIT + ' req';
+      const usageTitle = hasQuota && q.resetAt
+        ? 'Server-reported quota · resets ' + new Date(q.resetAt).toLocaleString()
+        : hasQuota ? 'Server-reported quota' : 'Estimated from the assumed daily limit';
       const fillClass = pct < 60 ? 'low' : pct < 85 ? 'medium' : 'high';
+      // Today's traffic by category; REST / telemetry / other do not count toward quota
+      const byCat = acc.requestsByCategory || {};
+      const breakdown = acc.requestCountDate === new Date().toISOString().split('T')[0]
+        ? CATEGORY_LABELS
+            .filter(function(c) { return byCat[c[0]]; })
+            .map(function(c) { return '<span' + (c[2] ? '' : ' class="uncounted" title="Not counted toward quota"') + '>' + byCat[c[0]] + ' ' + c[1] + '</span>'; })
+            .join(' · ')
+        : '';
+      const needsReauth = acc.status === 'revoked' || acc.status === 'invalid';
+      const planLabel = !acc.copilot ? ''
+        : acc.copilot.status === 'none' ? 'no Copilot'
+        : ({ individual: 'Individual', business: 'Business', enterprise: 'Enterprise', free: 'Free' })[acc.copilot.plan] || 'Copilot';
+      const sourceTag = !isActive ? ''
+        : activeSource === 'binding'  ? '📌 bound' + (activeSourceDetail ? ' · ' + activeSourceDetail : '')
+        : activeSource === 'rotation' ? '⟳ auto-rotated'
+        : activeSource === 'schedule' ? '🗓 scheduled' + (activeSourceDetail ? ' · ' + activeSourceDetail : '')
+        : '';
 
       const card = document.createElement('div');
       card.className = 'account-card' + (isActive ? ' active' : '');
@@ -565,13 +760,21 @@ html, body {
                       stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round"/>
               </svg>
             </div>
-            <div class="card-username">@\${esc(acc.githubUsername)}</div>
+            <div class="card-username">@\${esc(acc.githubUsername)}
+              <span class="host-tag\${acc.host && acc.host !== 'github.com' ? ' enterprise' : ''}">\${esc(acc.host || 'github.com')}</span>
+            </div>
             <span class="status-badge \${acc.status}">\${acc.status}</span>
+            \${planLabel ? '<span class="plan-tag ' + (acc.copilot.status === 'none' ? 'none' : '') + '"'
+              + (acc.copilot.sku ? ' title="' + esc(acc.copilot.sku) + '"' : '') + '>' + esc(planLabel) + '</span>' : ''}
+            \${sourceTag ? '<span class="source-tag">' + esc(sourceTag) + '</span>' : ''}
           </div>
           <div class="card-actions" style="align-self:flex-start;margin-top:2px;">
-            \${isActive
+            \${needsReauth
+              ? '<button class="btn-reauth" title="Sign in to GitHub again for this account">Re-authorize</button>'
+              : isActive
               ? '<button class="btn-active">Active</button>'
               : '<button class="btn-switch">Switch</button>'}
+            <button class="btn-bind" title="Always use this account in this workspace">Bind</button>
             <button class="btn-remove" title="Remove account">✕</button>
           </div>
         </div>
@@ -579,8 +782,9 @@ html, body {
           <div class="usage-bar-track">
             <div class="usage-bar-fill \${fillClass}" style="width:\${pct}%"></div>
           </div>
-          <span class="usage-label">\${acc.requestCount} / \${DAILY_LIMIT} req</span>
-        </div>\`;
+          <span class="usage-label" title="\${esc(usageTitle)}">\${esc(usageLabel)}</span>
+        </div>
+        \${breakdown ? '<div class="usage-breakdown">' + breakdown + '</div>' : ''}\`;
 
       // Switch button
       const switchBtn = card.querySelector('.btn-switch');
@@ -590,6 +794,21 @@ html, body {
         });
       }
 
+      // Re-authorize button (revoked / invalid tokens)
+      const reauthBtn = card.querySelector('.btn-reauth');
+      if (reauthBtn) {
+        reauthBtn.addEventListener('click', function(e) {
+          e.stopPropagation();
+          vscode.postMessage({ type: 'reauthAccount', accountId: acc.id });
+        });
+      }
+
+      // Bind button
+      card.querySelector('.btn-bind').addEventListener('click', function(e) {
+        e.stopPropagation();
+        vscode.postMessage({ type: 'bindAccount', accountId: acc.id });
+      });
+
       // Remove button
       card.querySelector('.btn-remove').addEventListener('click', function(e) {
         e.stopPropagation();
@@ -646,7 +865,13 @@ html, body {
   window.addEventListener('message', function(event) {
     const msg = event.data;
     if (msg.type === 'update') {
-      render({ accounts: msg.accounts, activeId: msg.activeId });
+      render({
+        accounts: msg.accounts,
+        activeId: msg.activeId,
+        activeSource: msg.activeSource,
+        activeSourceDetail: msg.activeSourceDetail,
+        activity: msg.activity
+      });
     }
   });
 
@@ -4,7 +4,7 @@
  *
  * Opens with Cmd+, (macide.openSettings).
  * A full-featured 4-tab settings editor:
- *   Accounts  — list + CRUD, usage bars, rotation settings
+ *   Accounts  — list + CRUD, usage bars, rotation settings, priority & weights, schedule
  *   Appearance — theme, glass, animation, accent, fonts, vignette
  *   Git        — blame, AI commit, credential bridge, mismatch, format
  *   Keybindings — all Macide shortcuts displayed, click to edit in VS Code
@@ -238,6 +238,9 @@ export class SettingsPanel implements vscode.Disposable {
 	// ── Live application of setting changes ───────────────────────────────────
 
 	private _applyLive(section: string, field: string, value: unknown): void {
+		// The schedule has no VS Code settings counterpart; MacideConfig already saved it
+		if (section === 'schedule') return;
+
 		try {
 			const key = `macide.${section}.${field}`;
 			vscode.workspace.getConfiguration().update(key, value, vscode.ConfigurationTarget.Global);
@@ -301,12 +304,12 @@ html,body{height:100vh;background:var(--bg);font-family:var(--font-sans);font-si
 .row-control{flex-shrink:0;}
 
 /* ── Controls ─────────────────────────────────────────────────────────────── */
-select,input[type=number],input[type=text]{
+select,input[type=number],input[type=text],input[type=time]{
   background:var(--s3);border:1px solid var(--border);color:var(--text);
   font-family:var(--font-sans);font-size:12px;padding:6px 10px;border-radius:6px;
   outline:none;transition:border-color var(--dur-micro);min-width:160px;
 }
-select:focus,input[type=number]:focus,input[type=text]:focus{border-color:rgba(124,58,237,.55);}
+select:focus,input[type=number]:focus,input[type=text]:focus,input[type=time]:focus{border-color:rgba(124,58,237,.55);}
 select option{background:var(--s2);}
 
 input[type=range]{-webkit-appearance:none;appearance:none;width:180px;height:4px;background:var(--s4);border-radius:2px;outline:none;}
@@ -349,12 +352,30 @@ input[type=color]{width:40px;height:30px;padding:2px 3px;background:var(--s3);bo
 .badge.warning{background:rgba(234,179,8,.12);color:#eab308;}
 .badge.exhausted{background:rgba(239,68,68,.12);color:#ef4444;}
 .badge.idle{background:var(--s4);color:var(--muted);}
+.badge.revoked,.badge.invalid{background:rgba(239,68,68,.12);color:#ef4444;}
 .account-actions{display:flex;gap:6px;margin-left:auto;flex-shrink:0;}
 .usage-row{display:flex;align-items:center;gap:10px;}
 .usage-bar-wrap{flex:1;height:4px;background:var(--s4);border-radius:2px;overflow:hidden;}
 .usage-bar{height:100%;border-radius:2px;transition:width .4s var(--ease);}
 .usage-label{font-size:10px;color:var(--muted);white-space:nowrap;}
 
+/* ── Priority & weights ─────────────────────────────────────────────────── */
+.strategy-list{display:flex;flex-direction:column;gap:6px;}
+.strategy-row{display:flex;align-items:center;gap:10px;background:var(--s2);border:1px solid var(--border);border-radius:8px;padding:8px 12px;}
+.strategy-rank{font-size:11px;color:var(--muted);min-width:18px;}
+.strategy-alias{flex:1;min-width:0;font-size:12px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap;}
+.strategy-row input[type=number]{min-width:0;width:64px;padding:4px 8px;}
+.hint{font-size:11px;color:var(--muted);}
+
+/* ── Schedule rules ──────────────────────────────────────────────────────── */
+.schedule-list{display:flex;flex-direction:column;gap:6px;}
+.schedule-rule{display:flex;align-items:center;flex-wrap:wrap;gap:8px;background:var(--s2);border:1px solid var(--border);border-radius:8px;padding:8px 12px;}
+.schedule-rule select{min-width:130px;}
+.schedule-rule input[type=time]{min-width:0;width:96px;padding:4px 8px;}
+.day-chips{display:flex;gap:3px;}
+.day-chip{font-size:10px;padding:3px 6px;border-radius:4px;border:1px solid var(--border);color:var(--muted);cursor:pointer;user-select:none;}
+.day-chip.on{background:rgba(124,58,237,.25);border-color:rgba(124,58,237,.55);color:var(--text);}
+
 /* ── Keybindings table ──────────────────────────────────────────────────── */
 .kb-table{width:100%;border-collapse:collapse;}
 .kb-table th{text-align:left;font-size:11px;color:var(--muted);font-weight:500;padding:6px 10px;border-bottom:1px solid var(--border);}
@@ -414,6 +435,8 @@ kbd{background:var(--s3);border:1px solid var(--border);padding:2px 6px;border-r
           <select id="rotationStrategy">
             <option value="round-robin">Round Robin</option>
             <option value="least-used">Least Used</option>
+            <option value="priority">Priority (Preference Order)</option>
+            <option value="weighted">Weighted</option>
             <option value="manual">Manual Only</option>
           </select>
         </div>
@@ -440,6 +463,95 @@ kbd{background:var(--s3);border:1px solid var(--border);padding:2px 6px;border-r
           <input type="number" id="assumedDailyLimit" min="1" max="9999" style="width:90px;"/>
         </div>
       </div>
+      <div class="row">
+        <div class="row-label">
+          <span>Pre-emptive Rotation</span>
+          <small>Switch before the limit instead of after a failed request.</small>
+        </div>
+        <div class="row-control">
+          <label class="toggle">
+            <input type="checkbox" id="preemptiveRotation"/>
+            <div class="toggle-track"></div>
+            <div class="toggle-thumb"></div>
+          </label>
+        </div>
+      </div>
+      <div class="row">
+        <div class="row-label">
+          <span>Pre-emptive Threshold (%)</span>
+          <small>Usage at which the active account is rotated out.</small>
+        </div>
+        <div class="row-control">
+          <input type="number" id="preemptiveThreshold" min="50" max="100" style="width:90px;"/>
+        </div>
+      </div>
+      <div class="row">
+        <div class="row-label">
+          <span>Sticky Margin (%)</span>
+          <small>Only rotate to accounts this far below the threshold, to avoid flapping.</small>
+        </div>
+        <div class="row-control">
+          <input type="number" id="stickyMargin" min="0" max="50" style="width:90px;"/>
+        </div>
+      </div>
+      <div class="row">
+        <div class="row-label">
+          <span>Retry Rate-Limited Requests</span>
+          <small>Replay a request that hit a 429 once on the next account, so Copilot never shows the error.</small>
+        </div>
+        <div class="row-control">
+          <label class="toggle">
+            <input type="checkbox" id="retryOnRateLimit"/>
+            <div class="toggle-track"></div>
+            <div class="toggle-thumb"></div>
+          </label>
+        </div>
+      </div>
+      <div class="row">
+        <div class="row-label">
+          <span>Retry Budget (per hour)</span>
+          <small>Most replays allowed in any hour; further 429s reach Copilot as usual.</small>
+        </div>
+        <div class="row-control">
+          <input type="number" id="retryBudget" min="1" max="200" style="width:90px;"/>
+        </div>
+      </div>
+    </div>
+    <div class="section">
+      <div class="section-title">Priority &amp; Weights</div>
+      <p class="hint">Order is used by the Priority strategy (top first, falling back down the list).
+        Weight is each account's relative share of requests under the Weighted strategy (0 = last resort).</p>
+      <div class="strategy-list" id="strategy-list"></div>
+    </div>
+    <div class="section">
+      <div class="section-title">Schedule</div>
+      <div class="row">
+        <div class="row-label">
+          <span>Time-of-Day Rules</span>
+          <small>Switch accounts by local time. A manual switch holds until the next rule boundary.</small>
+        </div>
+        <div class="row-control">
+          <label class="toggle">
+            <input type="checkbox" id="scheduleEnabled"/>
+            <div class="toggle-track"></div>
+            <div class="toggle-thumb"></div>
+          </label>
+        </div>
+      </div>
+      <p class="hint">Rules are checked top to bottom; the first match wins. An end time before the start runs overnight.</p>
+      <div class="schedule-list" id="schedule-list"></div>
+      <div class="row">
+        <div class="row-label">
+          <span>Otherwise Use</span>
+          <small>Account for times no rule covers.</small>
+        </div>
+        <div class="row-control">
+          <select id="scheduleFallback"></select>
+        </div>
+      </div>
+      <div>
+        <button class="btn" id="btn-add-rule">+ Add Rule</button>
+      </div>
     </div>
     <div class="section">
       <div class="section-title">GitHub OAuth Client</div>
@@ -601,11 +713,24 @@ kbd{background:var(--s3);border:1px solid var(--border);padding:2px 6px;border-r
         <div class="row-control">
           <select id="credentialMismatchBehavior">
             <option value="warn">Warn me</option>
-            <option value="auto-switch">Auto-switch Account</option>
+            <option value="auto-switch">Auto-switch Git Account</option>
             <option value="ignore">Ignore</option>
           </select>
         </div>
       </div>
+      <div class="row">
+        <div class="row-label">
+          <span>Commit Identity</span>
+          <small>Author commits as the account Git uses for the repository.</small>
+        </div>
+        <div class="row-control">
+          <select id="commitIdentity">
+            <option value="apply">Apply to repository</option>
+            <option value="warn">Warn on mismatch</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+      </div>
     </div>
   </div>
 
@@ -676,6 +801,8 @@ function init(data){
   _isMac = data.isMac;
 
   renderAccounts(data.accounts, data.dailyLimit);
+  renderStrategyAccounts(data.accounts);
+  renderSchedule(data.accounts);
   renderThemes(data.themes, data.currentTheme);
   renderAppearance(data.cfg.appearance);
   renderRotation(data.cfg);
@@ -745,16 +872,154 @@ document.getElementById('btn-add-account').addEventListener('click', function(){
   vscode.postMessage({ type:'addAccount' });
 });
 
+// ── Priority & weights ────────────────────────────────────────────────────
+let _strategyAccounts = [];
+function renderStrategyAccounts(accounts){
+  _strategyAccounts = accounts;
+  const list  = document.getElementById('strategy-list');
+  const order = _cfg.accounts.priorityOrder || [];
+  const weights = _cfg.accounts.weights || {};
+  // Listed ids first (in order), then the remaining accounts in vault order
+  const ranked = order
+    .map(function(id){ return accounts.find(function(a){ return a.id === id; }); })
+    .filter(Boolean)
+    .concat(accounts.filter(function(a){ return order.indexOf(a.id) < 0; }));
+  if (!ranked.length){
+    list.innerHTML = '<p class="hint">Add accounts to set their priority and weight.</p>';
+    return;
+  }
+  list.innerHTML = ranked.map(function(a, idx){
+    const weight = typeof weights[a.id] === 'number' ? weights[a.id] : 1;
+    return '<div class="strategy-row">'
+      + '<span class="strategy-rank">' + (idx + 1) + '.</span>'
+      + '<span class="strategy-alias">' + esc(a.alias) + ' <span style="color:var(--muted)">@' + esc(a.githubUsername) + '</span></span>'
+      + (idx > 0 ? '<button class="btn small" data-prio="-1" data-id="' + a.id + '" title="Higher priority">↑</button>' : '')
+      + (idx < ranked.length - 1 ? '<button class="btn small" data-prio="1" data-id="' + a.id + '" title="Lower priority">↓</button>' : '')
+      + '<input type="number" min="0" max="100" step="1" value="' + weight + '" data-weight-id="' + a.id + '" title="Weight"/>'
+      + '</div>';
+  }).join('');
+
+  list.querySelectorAll('[data-prio]').forEach(function(btn){
+    btn.addEventListener('click', function(){
+      const ids = ranked.map(function(a){ return a.id; });
+      const idx = ids.indexOf(btn.dataset.id);
+      const to  = idx + parseInt(btn.dataset.prio);
+      ids.splice(to, 0, ids.splice(idx, 1)[0]);
+      _cfg.accounts.priorityOrder = ids;
+      send('accounts','priorityOrder', ids);
+      renderStrategyAccounts(_strategyAccounts);
+    });
+  });
+  list.querySelectorAll('[data-weight-id]').forEach(function(inp){
+    inp.addEventListener('change', function(){
+      const w = Math.max(0, parseFloat(inp.value) || 0);
+      const next = Object.assign({}, _cfg.accounts.weights || {});
+      next[inp.dataset.weightId] = w;
+      _cfg.accounts.weights = next;
+      send('accounts','weights', next);
+    });
+  });
+}
+
+// ── Schedule ──────────────────────────────────────────────────────────────
+const DAY_NAMES = ['Su','Mo','Tu','We','Th','Fr','Sa'];
+let _scheduleAccounts = [];
+function renderSchedule(accounts){
+  _scheduleAccounts = accounts;
+  const schedule = _cfg.schedule;
+  setCheck('scheduleEnabled', schedule.enabled);
+
+  const options = function(selected){
+    return accounts.map(function(a){
+      return '<option value="' + a.id + '"' + (a.id === selected ? ' selected' : '') + '>' + esc(a.alias) + '</option>';
+    }).join('');
+  };
+  document.getElementById('scheduleFallback').innerHTML =
+    '<option value=""' + (schedule.fallbackAccountId ? '' : ' selected') + '>Keep current account</option>'
+    + options(schedule.fallbackAccountId);
+
+  const list = document.getElementById('schedule-list');
+  if (!schedule.rules.length){
+    list.innerHTML = '<p class="hint">No rules yet.</p>';
+    return;
+  }
+  list.innerHTML = schedule.rules.map(function(r, idx){
+    const chips = DAY_NAMES.map(function(name, d){
+      return '<span class="day-chip' + (r.days.indexOf(d) >= 0 ? ' on' : '') + '" data-rule="' + idx + '" data-day="' + d + '">' + name + '</span>';
+    }).join('');
+    return '<div class="schedule-rule">'
+      + '<select data-rule="' + idx + '" data-field="accountId">' + options(r.accountId) + '</select>'
+      + '<div class="day-chips">' + chips + '</div>'
+      + '<input type="time" data-rule="' + idx + '" data-field="start" value="' + esc(r.start) + '"/>'
+      + '<span class="hint">to</span>'
+      + '<input type="time" data-rule="' + idx + '" data-field="end" value="' + esc(r.end) + '"/>'
+      + '<button class="btn small" data-remove-rule="' + idx + '" title="Remove rule">✕</button>'
+      + '</div>';
+  }).join('');
+
+  list.querySelectorAll('[data-field]').forEach(function(el){
+    el.addEventListener('change', function(){
+      schedule.rules[parseInt(el.dataset.rule)][el.dataset.field] = el.value;
+      saveScheduleRules();
+    });
+  });
+  list.querySelectorAll('.day-chip').forEach(function(chip){
+    chip.addEventListener('click', function(){
+      const rule = schedule.rules[parseInt(chip.dataset.rule)];
+      const day  = parseInt(chip.dataset.day);
+      rule.days = rule.days.indexOf(day) >= 0
+        ? rule.days.filter(function(d){ return d !== day; })
+        : rule.days.concat([day]).sort();
+      saveScheduleRules();
+      renderSchedule(_scheduleAccounts);
+    });
+  });
+  list.querySelectorAll('[data-remove-rule]').forEach(function(btn){
+    btn.addEventListener('click', function(){
+      schedule.rules.splice(parseInt(btn.dataset.removeRule), 1);
+      saveScheduleRules();
+      renderSchedule(_scheduleAccounts);
+    });
+  });
+}
+function saveScheduleRules(){
+  send('schedule','rules', _cfg.schedule.rules);
+}
+document.getElementById('btn-add-rule').addEventListener('click', function(){
+  if (!_scheduleAccounts.length) return;
+  _cfg.schedule.rules.push({
+    id: 'rule-' + Date.now().toString(36),
+    accountId: _scheduleAccounts[0].id,
+    days: [1,2,3,4,5],
+    start: '09:00',
+    end: '18:00'
+  });
+  saveScheduleRules();
+  renderSchedule(_scheduleAccounts);
+});
+bindCheck('scheduleEnabled', function(v){ _cfg.schedule.enabled = v; send('schedule','enabled',v); });
+bindSelect('scheduleFallback', function(v){ _cfg.schedule.fallbackAccountId = v; send('schedule','fallbackAccountId',v); });
+
 // ── Rotation settings ─────────────────────────────────────────────────────
 function renderRotation(cfg){
   setSelect('rotationStrategy',  cfg.accounts.rotationStrategy);
   setCheck('autoRotation',       cfg.accounts.autoRotation);
   setValue('assumedDailyLimit',  cfg.accounts.assumedDailyLimit);
+  setCheck('preemptiveRotation', cfg.accounts.preemptiveRotation);
+  setValue('preemptiveThreshold', cfg.accounts.preemptiveThreshold);
+  setValue('stickyMargin',       cfg.accounts.stickyMargin);
+  setCheck('retryOnRateLimit',   cfg.accounts.retryOnRateLimit);
+  setValue('retryBudget',        cfg.accounts.retryBudget);
   setValue('githubClientId',     cfg.githubClientId);
 }
 bindSelect('rotationStrategy',  function(v){ send('accounts','rotationStrategy',v); });
 bindCheck('autoRotation',       function(v){ send('accounts','autoRotation',v); });
 bindChange('assumedDailyLimit', function(v){ send('accounts','assumedDailyLimit', parseInt(v)||300); });
+bindCheck('preemptiveRotation', function(v){ send('accounts','preemptiveRotation',v); });
+bindChange('preemptiveThreshold', function(v){ send('accounts','preemptiveThreshold', Math.min(100, Math.max(50, parseInt(v)||95))); });
+bindChange('stickyMargin',      function(v){ send('accounts','stickyMargin', Math.min(50, Math.max(0, parseInt(v)||0))); });
+bindCheck('retryOnRateLimit',   function(v){ send('accounts','retryOnRateLimit',v); });
+bindChange('retryBudget',       function(v){ send('accounts','retryBudget', Math.min(200, Math.max(1, parseInt(v)||20))); });
 bindChange('githubClientId',    function(v){ send(null,'githubClientId',v); });
 
 // ── Appearance ────────────────────────────────────────────────────────────
@@ -799,12 +1064,14 @@ function renderGit(git){
   setSelect('commitFormat',              git.commitFormat);
   setCheck('credentialBridge',           git.credentialBridge);
   setSelect('credentialMismatchBehavior',git.credentialMismatchBehavior);
+  setSelect('commitIdentity',            git.commitIdentity);
 }
 bindSelect('inlineBlame',                function(v){ send('git','inlineBlame',v); });
 bindCheck('aiCommitMessages',            function(v){ send('git','aiCommitMessages',v); });
 bindSelect('commitFormat',               function(v){ send('git','commitFormat',v); });
 bindCheck('credentialBridge',            function(v){ send('git','credentialBridge',v); });
 bindSelect('credentialMismatchBehavior', function(v){ send('git','credentialMismatchBehavior',v); });
+bindSelect('commitIdentity',             function(v){ send('git','commitIdentity',v); });
 
 // ── Keybindings ───────────────────────────────────────────────────────────
 function renderKeybindings(kbs, isMac){
@@ -13,20 +13,35 @@
 import * as vscode from 'vscode';
 import type { MacideAccount } from '../../auth/provider';
 import { AccountManager } from '../../accounts/manager';
+import type { ActivationSource } from '../../accounts/manager';
+import { describeQuota } from '../../auth/quota';
+import { describeEntitlement } from '../../auth/entitlement';
+import { accountHost, isDefaultHost } from '../../auth/githubHost';
 
 // Status icons: Unicode circle + coloured via backgroundColor
 const STATUS_DOT: Record<MacideAccount['status'], string> = {
 	healthy:   '$(circle-filled)', // green
 	warning:   '$(warning)',       // amber
 	exhausted: '$(error)',         // red
-	idle:      '$(circle-outline)' // muted
+	idle:      '$(circle-outline)', // muted
+	revoked:   '$(lock)',           // red — needs re-authorization
+	invalid:   '$(lock)'
+};
+
+/** Suffix shown after the alias when the account was not picked by hand. */
+const SOURCE_ICON: Partial<Record<ActivationSource, string>> = {
+	binding:  '$(pinned)',
+	rotation: '$(sync)',
+	schedule: '$(calendar)'
 };
 
 const STATUS_COLOR: Record<MacideAccount['status'], vscode.ThemeColor> = {
 	healthy:   new vscode.ThemeColor('macide.statusbar.accountHealthy'),
 	warning:   new vscode.ThemeColor('macide.statusbar.accountWarning'),
 	exhausted: new vscode.ThemeColor('macide.statusbar.accountExhausted'),
-	idle:      new vscode.ThemeColor('macide.statusbar.accountIdle')
+	idle:      new vscode.ThemeColor('macide.statusbar.accountIdle'),
+	revoked:   new vscode.ThemeColor('macide.statusbar.accountExhausted'),
+	invalid:   new vscode.ThemeColor('macide.statusbar.accountExhausted')
 };
 
 /** Fallback colours for environments / themes that don't define Macide ThemeColors. */
@@ -34,9 +49,27 @@ const STATUS_FALLBACK_BG: Record<MacideAccount['status'], vscode.ThemeColor> = {
 	healthy:   new vscode.ThemeColor('statusBarItem.prominentBackground'),
 	warning:   new vscode.ThemeColor('statusBarItem.warningBackground'),
 	exhausted: new vscode.ThemeColor('statusBarItem.errorBackground'),
-	idle:      new vscode.ThemeColor('statusBarItem.remoteBackground')
+	idle:      new vscode.ThemeColor('statusBarItem.remoteBackground'),
+	revoked:   new vscode.ThemeColor('statusBarItem.errorBackground'),
+	invalid:   new vscode.ThemeColor('statusBarItem.errorBackground')
 };
 
+function describeSource(source: ActivationSource, detail: string | undefined): string {
+	switch (source) {
+		case 'binding':  return `$(pinned) Bound to this workspace${detail ? ` (${detail})` : ''}\n\n`;
+		case 'rotation': return '$(sync) Selected by auto-rotation\n\n';
+		case 'schedule': return `$(calendar) Selected by schedule${detail ? ` (${detail})` : ''}\n\n`;
+		default:         return '';
+	}
+}
+
+function describeCooldown(account: MacideAccount): string {
+	const until = account.cooldownUntil ? Date.parse(account.cooldownUntil) : NaN;
+	if (Number.isNaN(until) || until <= Date.now()) return '';
+	const time = new Date(until).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+	return `$(watch) Cooling down until ${time}\n\n`;
+}
+
 export class AccountStatusBar implements vscode.Disposable {
 	private readonly _item: vscode.StatusBarItem;
 	private readonly _disposables: vscode.Disposable[] = [];
@@ -88,21 +121,30 @@ export class AccountStatusBar implements vscode.Disposable {
 		const icon = STATUS_DOT[active.status] ?? '$(circle-filled)';
 		const alias = active.alias.length > 20 ? active.alias.slice(0, 18) + '…' : active.alias;
 		const accountCount = all.length > 1 ? ` (${all.length})` : '';
+		const source = this._accountManager.activeSource;
+		const sourceIcon = SOURCE_ICON[source] ? ` ${SOURCE_ICON[source]}` : '';
 
-		this._item.text = `${icon} ${alias}${accountCount}`;
+		this._item.text = `${icon} ${alias}${accountCount}${sourceIcon}`;
 		this._item.color = STATUS_COLOR[active.status];
 		this._item.backgroundColor =
 			active.status === 'exhausted' ? STATUS_FALLBACK_BG.exhausted :
+			active.status === 'revoked' || active.status === 'invalid' ? STATUS_FALLBACK_BG.revoked :
 			active.status === 'warning'   ? STATUS_FALLBACK_BG.warning  :
 			undefined;
 
 		// Rich tooltip with usage info
 		const limit = vscode.workspace.getConfiguration('macide').get<number>('accounts.assumedDailyLimit', 300);
 		const pct = Math.round((active.requestCount / limit) * 100);
+		// Server-reported quota wins over the assumed-limit estimate when known
+		const usage = describeQuota(active.quota) ?? `${active.requestCount}/${limit} requests today (~${pct}%)`;
 		const md = new vscode.MarkdownString(undefined, true);
 		md.appendMarkdown(
-			`**${active.alias}** · @${active.githubUsername}\n\n` +
-			`Status: **${active.status}**  ·  ${active.requestCount}/${limit} requests today (~${pct}%)\n\n` +
+			`**${active.alias}** · @${active.githubUsername}` +
+			(isDefaultHost(accountHost(active)) ? '' : ` on ${accountHost(active)}`) +
+			(describeEntitlement(active.copilot) ? ` · ${describeEntitlement(active.copilot)}` : '') + '\n\n' +
+			`Status: **${active.status}**  ·  ${usage}\n\n` +
+			describeCooldown(active) +
+			describeSource(source, this._accountManager.activeSourceDetail) +
 			`_${all.length} account${all.length !== 1 ? 's' : ''} total — click to manage_`
 		);
 		this._item.tooltip = md;
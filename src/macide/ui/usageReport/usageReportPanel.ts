@@ -0,0 +1,311 @@
+/*---------------------------------------------------------------------------------------------
+ * Macide — Multi-Account Copilot IDE
+ * Usage Report Webview — charts over the local UsageLog.
+ *
+ * Opens with macide.openUsageReport. Shows per-account bar charts for the
+ * last 30 days, 12 weeks or 12 months (completions / chat / edits /
+ * embeddings stacked, 429s marked) plus totals, and exports the raw event log as CSV
+ * or JSON (macide.exportUsage).
+ *
+ * State flows:
+ *   extension → webview : { type:'update', accounts, periods }
+ *   webview → extension : { type:'export', format:'csv'|'json' }
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { cssVars } from '../../theme/tokens';
+import type { AccountManager } from '../../accounts/manager';
+import type { UsageBucket, UsageLog, UsagePeriod } from '../../accounts/usageLog';
+
+/** Buckets shown per period. */
+const PERIOD_LENGTH: Record<UsagePeriod, number> = { day: 30, week: 12, month: 12 };
+
+/** Coalesces bursts of recorded events into one webview update. */
+const UPDATE_DEBOUNCE_MS = 1000;
+
+export type UsageExportFormat = 'csv' | 'json';
+
+function getNonce(): string {
+	let t = '';
+	const c = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	for (let i = 0; i < 32; i++) t += c.charAt(Math.floor(Math.random() * c.length));
+	return t;
+}
+
+export class UsageReportPanel implements vscode.Disposable {
+	private _panel: vscode.WebviewPanel | undefined;
+	private _updateTimer: ReturnType<typeof setTimeout> | undefined;
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private readonly _accounts: AccountManager,
+		private readonly _usage:    UsageLog
+	) {
+		this._disposables.push(
+			_usage.onDidRecord(() => this._scheduleUpdate()),
+			_accounts.onDidChangeAccounts(() => this._scheduleUpdate())
+		);
+	}
+
+	// ── Open / focus ──────────────────────────────────────────────────────────
+
+	open(): void {
+		if (this._panel) {
+			this._panel.reveal(vscode.ViewColumn.One);
+			return;
+		}
+
+		this._panel = vscode.window.createWebviewPanel(
+			'macide.usageReport',
+			'Copilot Usage — Macide',
+			vscode.ViewColumn.One,
+			{
+				enableScripts:           true,
+				retainContextWhenHidden: true,
+				localResourceRoots:      []
+			}
+		);
+		this._panel.iconPath = new vscode.ThemeIcon('graph');
+		this._panel.webview.html = this._buildHtml();
+
+		this._panel.webview.onDidReceiveMessage(
+			(msg: { type: string; format?: UsageExportFormat }) => {
+				if (msg.type === 'export' && msg.format) this.export(msg.format);
+			},
+			undefined, this._disposables
+		);
+
+		this._panel.onDidDispose(
+			() => { this._panel = undefined; },
+			undefined, this._disposables
+		);
+
+		this._usage.whenReady().then(() => this._pushUpdate());
+	}
+
+	// ── Export ────────────────────────────────────────────────────────────────
+
+	/** Asks for a destination (and format, if not given) and writes the raw event log. */
+	async export(format?: UsageExportFormat): Promise<void> {
+		if (!format) {
+			const picked = await vscode.window.showQuickPick(
+				[
+					{ label: 'CSV', description: 'One row per event, for spreadsheets', format: 'csv' as const },
+					{ label: 'JSON', description: 'Array of event objects', format: 'json' as const }
+				],
+				{ placeHolder: 'Export Copilot usage as…' }
+			);
+			if (!picked) return;
+			format = picked.format;
+		}
+
+		const stamp = new Date().toISOString().slice(0, 10);
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(`macide-usage-${stamp}.${format}`),
+			filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] }
+		});
+		if (!target) return;
+
+		const body = format === 'csv' ? await this._usage.exportCsv() : await this._usage.exportJson();
+		await vscode.workspace.fs.writeFile(target, Buffer.from(body, 'utf-8'));
+		vscode.window.showInformationMessage(`Macide: Usage exported to ${target.fsPath}`);
+	}
+
+	// ── Data ──────────────────────────────────────────────────────────────────
+
+	private _scheduleUpdate(): void {
+		if (!this._panel) return;
+		clearTimeout(this._updateTimer);
+		this._updateTimer = setTimeout(() => this._pushUpdate(), UPDATE_DEBOUNCE_MS);
+	}
+
+	private _pushUpdate(): void {
+		if (!this._panel) return;
+
+		const stored = this._accounts.getAll();
+		const ids = [...new Set([...stored.map(a => a.id), ...this._usage.accountIds()])];
+		const accounts = ids.map(id => {
+			const a = stored.find(s => s.id === id);
+			return a
+				? { id, alias: a.alias, githubUsername: a.githubUsername, removed: false }
+				: { id, alias: 'Removed account', githubUsername: id.slice(0, 8), removed: true };
+		});
+
+		const periods = {} as Record<UsagePeriod, Record<string, UsageBucket[]>>;
+		for (const period of Object.keys(PERIOD_LENGTH) as UsagePeriod[]) {
+			periods[period] = {};
+			for (const id of ids) {
+				periods[period][id] = this._usage.buckets(id, period, PERIOD_LENGTH[period]);
+			}
+		}
+
+		this._panel.webview.postMessage({ type: 'update', accounts, periods });
+	}
+
+	// ── HTML ──────────────────────────────────────────────────────────────────
+
+	private _buildHtml(): string {
+		const nonce = getNonce();
+		return /* html */`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8"/>
+<meta http-equiv="Content-Security-Policy"
+  content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';"/>
+<meta name="viewport" content="width=device-width,initial-scale=1.0"/>
+<title>Copilot Usage</title>
+<style nonce="${nonce}">
+${cssVars()}
+*,*::before,*::after{box-sizing:border-box;margin:0;padding:0;}
+body{background:var(--bg);font-family:var(--font-sans);font-size:13px;color:var(--text);padding:24px 28px;}
+.header{display:flex;align-items:center;justify-content:space-between;gap:16px;margin-bottom:20px;}
+.header h1{font-size:16px;font-weight:600;}
+.tabs{display:flex;gap:4px;}
+.tab{padding:6px 14px;border-radius:6px;font-size:12px;cursor:pointer;color:var(--muted);border:1px solid transparent;background:none;font-family:var(--font-sans);}
+.tab.active{background:var(--s3);border-color:var(--border);color:var(--text);}
+.btn{background:var(--s3);border:1px solid var(--border);color:var(--sub);font-size:12px;padding:6px 14px;border-radius:6px;cursor:pointer;font-family:var(--font-sans);}
+.btn:hover{color:var(--text);background:var(--s4);}
+.summary{display:flex;gap:24px;margin-bottom:20px;color:var(--sub);font-size:12px;}
+.summary strong{color:var(--text);font-size:15px;display:block;}
+.legend{display:flex;gap:14px;font-size:11px;color:var(--muted);margin-bottom:14px;}
+.swatch{display:inline-block;width:9px;height:9px;border-radius:2px;margin-right:5px;vertical-align:-1px;}
+.account{background:var(--s2);border:1px solid var(--border);border-radius:10px;padding:14px 16px;margin-bottom:12px;}
+.account-head{display:flex;justify-content:space-between;align-items:baseline;margin-bottom:10px;}
+.account-name{font-weight:500;}
+.account-name small{color:var(--muted);font-weight:400;margin-left:6px;}
+.account-stats{font-size:11px;color:var(--muted);}
+.chart{width:100%;height:90px;display:block;}
+.axis{font-size:10px;color:var(--muted);display:flex;justify-content:space-between;margin-top:4px;}
+.empty{color:var(--muted);padding:40px 0;text-align:center;}
+</style>
+</head>
+<body>
+<div class="header">
+  <h1>Copilot Usage</h1>
+  <div class="tabs">
+    <button class="tab active" data-period="day">Daily</button>
+    <button class="tab" data-period="week">Weekly</button>
+    <button class="tab" data-period="month">Monthly</button>
+  </div>
+  <div>
+    <button class="btn" data-export="csv">Export CSV</button>
+    <button class="btn" data-export="json">Export JSON</button>
+  </div>
+</div>
+<div class="summary" id="summary"></div>
+<div class="legend">
+  <span><span class="swatch" style="background:var(--purple)"></span>Completions</span>
+  <span><span class="swatch" style="background:var(--cyan)"></span>Chat</span>
+  <span><span class="swatch" style="background:var(--warning)"></span>Edits</span>
+  <span><span class="swatch" style="background:var(--s4)"></span>Embeddings</span>
+  <span><span class="swatch" style="background:var(--error)"></span>Rate limited</span>
+</div>
+<div id="accounts"><div class="empty">Loading…</div></div>
+
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+let _data = null;
+let _period = 'day';
+
+window.addEventListener('message', function(ev){
+  if (ev.data.type === 'update'){ _data = ev.data; render(); }
+});
+
+document.querySelectorAll('.tab').forEach(function(tab){
+  tab.addEventListener('click', function(){
+    document.querySelectorAll('.tab').forEach(function(t){ t.classList.remove('active'); });
+    tab.classList.add('active');
+    _period = tab.dataset.period;
+    render();
+  });
+});
+document.querySelectorAll('[data-export]').forEach(function(btn){
+  btn.addEventListener('click', function(){ vscode.postMessage({ type:'export', format: btn.dataset.export }); });
+});
+
+function total(c){ return c.completion + c.chat + c.edit + c.embeddings; }
+function esc(s){ return String(s).replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;'); }
+function label(start){
+  const p = start.split('-');
+  const d = new Date(+p[0], +p[1] - 1, +p[2]);
+  return _period === 'month'
+    ? d.toLocaleDateString(undefined, { month:'short', year:'2-digit' })
+    : d.toLocaleDateString(undefined, { month:'short', day:'numeric' });
+}
+
+function render(){
+  if (!_data) return;
+  const series = _data.periods[_period];
+  const list = document.getElementById('accounts');
+  const unit = _period === 'day' ? 'day' : _period === 'week' ? 'week' : 'month';
+
+  // Overall: busiest bucket across accounts and how many accounts were needed in it
+  const n = (series[Object.keys(series)[0]] || []).length;
+  let peak = 0, peakAccounts = 0, grand = 0, limited = 0;
+  for (let i = 0; i < n; i++){
+    let sum = 0, used = 0;
+    _data.accounts.forEach(function(a){
+      const b = series[a.id][i];
+      const t = total(b.counts);
+      sum += t; grand += t; limited += b.counts.rateLimit;
+      if (t > 0) used++;
+    });
+    if (sum > peak){ peak = sum; peakAccounts = used; }
+  }
+  document.getElementById('summary').innerHTML =
+      '<div><strong>' + grand + '</strong>requests</div>'
+    + '<div><strong>' + peak + '</strong>busiest ' + unit + '</div>'
+    + '<div><strong>' + peakAccounts + '</strong>accounts used that ' + unit + '</div>'
+    + '<div><strong>' + limited + '</strong>rate limits hit</div>';
+
+  if (!_data.accounts.length){
+    list.innerHTML = '<div class="empty">No usage recorded yet.</div>';
+    return;
+  }
+
+  list.innerHTML = _data.accounts.map(function(a){
+    const buckets = series[a.id];
+    const max = Math.max(1, ...buckets.map(function(b){ return total(b.counts); }));
+    const sum = buckets.reduce(function(s, b){ return s + total(b.counts); }, 0);
+    const active = buckets.filter(function(b){ return total(b.counts) > 0; }).length;
+    const rl = buckets.reduce(function(s, b){ return s + b.counts.rateLimit; }, 0);
+    const rot = buckets.reduce(function(s, b){ return s + b.counts.rotation; }, 0);
+    const w = 100 / buckets.length;
+
+    const bars = buckets.map(function(b, i){
+      const c = b.counts;
+      const x = i * w + w * 0.15, bw = w * 0.7;
+      let y = 86, out = '';
+      [['completion','var(--purple)'],['chat','var(--cyan)'],['edit','var(--warning)'],['embeddings','var(--s4)']].forEach(function(k){
+        const h = c[k[0]] / max * 80;
+        if (h > 0){ y -= h; out += '<rect x="' + x + '" y="' + y + '" width="' + bw + '" height="' + h + '" fill="' + k[1] + '" rx="0.6"/>'; }
+      });
+      if (c.rateLimit > 0){
+        out += '<circle cx="' + (x + bw / 2) + '" cy="3" r="1.6" fill="var(--error)"/>';
+      }
+      return '<g><title>' + esc(label(b.start)) + ': ' + total(c) + ' requests'
+        + (c.rateLimit ? ', ' + c.rateLimit + ' rate limited' : '') + '</title>' + out + '</g>';
+    }).join('');
+
+    return '<div class="account">'
+      + '<div class="account-head">'
+      +   '<div class="account-name">' + esc(a.alias) + '<small>' + (a.removed ? esc(a.githubUsername) : '@' + esc(a.githubUsername)) + '</small></div>'
+      +   '<div class="account-stats">' + sum + ' requests · ' + (active ? Math.round(sum / active) : 0) + ' per active ' + unit
+      +   ' · ' + rl + ' rate limited · ' + rot + ' rotations in</div>'
+      + '</div>'
+      + '<svg class="chart" viewBox="0 0 100 90" preserveAspectRatio="none">' + bars + '</svg>'
+      + '<div class="axis"><span>' + esc(label(buckets[0].start)) + '</span><span>' + esc(label(buckets[buckets.length - 1].start)) + '</span></div>'
+      + '</div>';
+  }).join('');
+}
+</script>
+</body>
+</html>`;
+	}
+
+	dispose(): void {
+		clearTimeout(this._updateTimer);
+		this._panel?.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+}